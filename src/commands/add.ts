@@ -1,38 +1,79 @@
+import { parseArgs } from 'util';
 import chalk from 'chalk';
 import ora from 'ora';
 import { input, password, select, confirm, search } from '@inquirer/prompts';
 import * as keychain from '../services/secrets/index.js';
+import * as configStore from '../services/config.js';
+import * as connectivity from '../services/connectivity.js';
 import * as litellm from '../services/litellm.js';
 import * as profile from '../services/profile.js';
+import * as providers from '../services/providers.js';
 import * as shell from '../services/shell.js';
 import { clearScreen } from '../index.js';
-import type { ClaudeAliasConfig } from '../types/index.js';
-
-// Preset providers with default base URLs
-const PROVIDER_PRESETS = [
-    { name: 'Custom Provider...', value: '__custom__', baseUrl: '' },
-    { name: 'Z.AI (GLM Models)', value: 'zai', baseUrl: 'https://api.z.ai/api/anthropic' },
-    { name: 'DeepSeek', value: 'deepseek', baseUrl: 'https://api.deepseek.com' },
-    { name: 'OpenRouter', value: 'openrouter', baseUrl: 'https://openrouter.ai/api/v1' },
-    { name: 'OpenAI', value: 'openai', baseUrl: 'https://api.openai.com/v1' },
-    { name: 'Anthropic', value: 'anthropic', baseUrl: 'https://api.anthropic.com' },
-    { name: 'Google AI', value: 'google', baseUrl: 'https://generativelanguage.googleapis.com/v1beta' },
-    { name: 'Mistral', value: 'mistral', baseUrl: 'https://api.mistral.ai/v1' },
-    { name: 'Groq', value: 'groq', baseUrl: 'https://api.groq.com/openai/v1' },
-    { name: 'Together AI', value: 'together', baseUrl: 'https://api.together.xyz/v1' },
-    { name: 'Fireworks AI', value: 'fireworks', baseUrl: 'https://api.fireworks.ai/inference/v1' },
-    { name: 'Perplexity', value: 'perplexity', baseUrl: 'https://api.perplexity.ai' }
+import { testConnection } from './connection.js';
+import { reportRegistryStatus } from './registry.js';
+import { shellQuote, splitShellWords, quoteWordIfNeeded } from '../utils/quote.js';
+import type { ApiFormat, ClaudeAliasConfig, LiteLLMModel, ProviderModel, ProviderPreset, SecretBackendName } from '../types/index.js';
+
+type TierModelKey = 'opusModel' | 'sonnetModel' | 'haikuModel' | 'subagentModel';
+
+interface TierModelConfig {
+    key: TierModelKey;
+    tier: 'opus' | 'sonnet' | 'haiku' | 'subagent';
+    name: string;
+    envVar: string;
+    description: string;
+    shortDescription: string;
+}
+
+// Claude Code's model tiers and the env vars that map them to provider models
+const TIER_MODEL_CONFIGS: TierModelConfig[] = [
+    {
+        key: 'opusModel',
+        tier: 'opus',
+        name: 'Opus Model',
+        envVar: 'ANTHROPIC_DEFAULT_OPUS_MODEL',
+        description: 'Primary model for complex tasks and Plan Mode',
+        shortDescription: 'complex tasks, Plan Mode'
+    },
+    {
+        key: 'sonnetModel',
+        tier: 'sonnet',
+        name: 'Sonnet Model',
+        envVar: 'ANTHROPIC_DEFAULT_SONNET_MODEL',
+        description: 'Default model for normal operation',
+        shortDescription: 'normal operation'
+    },
+    {
+        key: 'haikuModel',
+        tier: 'haiku',
+        name: 'Haiku Model',
+        envVar: 'ANTHROPIC_DEFAULT_HAIKU_MODEL',
+        description: 'Fast model for background tasks',
+        shortDescription: 'background tasks'
+    },
+    {
+        key: 'subagentModel',
+        tier: 'subagent',
+        name: 'Subagent Model',
+        envVar: 'CLAUDE_CODE_SUBAGENT_MODEL',
+        description: 'Model for subagent operations',
+        shortDescription: 'subagent operations'
+    }
 ];
 
-// Z.AI default model configuration
-const ZAI_DEFAULTS = {
-    baseUrl: 'https://api.z.ai/api/anthropic',
-    opusModel: 'glm-4.7',
-    sonnetModel: 'glm-4.7',
-    haikuModel: 'glm-4.5-air',
-    subagentModel: 'glm-4.7',
-    maxOutputTokens: 128000
-};
+/**
+ * State shared by the tier model pickers of one add/edit session
+ */
+interface ModelPickerContext {
+    providerName: string;
+    litellmProvider?: string;
+    baseUrl: string;
+    apiKey: string;
+    useAuthToken: boolean;
+    // Provider's live model list: undefined until requested, null if unavailable
+    providerModels?: ProviderModel[] | null;
+}
 
 /**
  * Detect the user's likely preferred auth method based on their environment
@@ -51,6 +92,17 @@ function detectDefaultAuthMethod(): boolean {
     return true;
 }
 
+/**
+ * Default token type for a new alias: the preset's auth header style if it
+ * declares one, otherwise detected from the environment
+ */
+export function getDefaultAuthMethod(preset?: ProviderPreset): boolean {
+    if (preset?.authHeader) {
+        return preset.authHeader === 'auth-token';
+    }
+    return detectDefaultAuthMethod();
+}
+
 /**
  * Show the header box
  */
@@ -85,9 +137,656 @@ function formatExistingAliases(): void {
 }
 
 /**
- * Run the add/edit command flow
+ * Sanitize a raw API key: remove newlines, carriage returns, and trim whitespace
+ */
+function sanitizeApiKey(rawKey: string): string {
+    return rawKey.replace(/[\r\n\t]/g, '').trim();
+}
+
+/**
+ * Read all of stdin as a string (used by --api-key-stdin)
+ */
+async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Write the profile script and shell alias for a config, then print usage.
+ * Returns false if the script or the shell alias could not be written.
+ */
+function applyConfig(config: ClaudeAliasConfig, isEdit: boolean): boolean {
+    // Save canonical config, then render the script from it
+    const writeSpinner = ora('Creating profile script...').start();
+    try {
+        configStore.saveAliasConfig(config);
+        const scriptPath = profile.writeScript(config);
+        writeSpinner.succeed(`Script created: ${scriptPath}`);
+    } catch (error) {
+        writeSpinner.fail('Failed to create script');
+        console.error(error);
+        return false;
+    }
+
+    // Add shell alias
+    const aliasSpinner = ora('Adding shell alias...').start();
+    const scriptPath = profile.getScriptPath(config.alias);
+    const aliasSuccess = shell.addAlias(config.alias, scriptPath, shell.getAliasArgs(config));
+
+    if (!aliasSuccess) {
+        aliasSpinner.fail('Failed to add shell alias');
+        console.error(chalk.dim(`   The script was written; run "claude-alias doctor --fix" or use ${scriptPath} directly.`));
+        return false;
+    }
+    aliasSpinner.succeed(`Shell alias added: ${config.alias}`);
+
+    // Success message
+    console.log(chalk.green.bold(`\n✅ Alias '${config.alias}' ${isEdit ? 'updated' : 'created'} successfully!\n`));
+    console.log(chalk.dim('To use the new alias, either:'));
+    console.log(`   1. Source your shell profile: ${chalk.cyan(`source ${shell.getProfilePath()}`)}`);
+    console.log(`   2. Open a new terminal window`);
+    console.log();
+    console.log(chalk.bold('Usage:'));
+    console.log(`   ${chalk.cyan(config.alias)}`);
+    console.log();
+    return true;
+}
+
+/**
+ * Ask for the alias's API key (offering to keep a stored one) and save it.
+ * Returns null if it could not be saved.
+ */
+async function promptAndSaveApiKey(
+    aliasName: string,
+    isEdit: boolean,
+    secretBackend: SecretBackendName,
+    storageLabel: string
+): Promise<string | null> {
+    const existingKeyValid = isEdit && await keychain.verifyApiKey(aliasName, secretBackend);
+
+    let apiKey: string;
+    if (existingKeyValid) {
+        const keepKey = await confirm({
+            message: 'Keep existing API key?',
+            default: true
+        });
+
+        if (keepKey) {
+            apiKey = (await keychain.getApiKey(aliasName, secretBackend))!;
+        } else {
+            const rawKey = await password({
+                message: 'Enter new API key:',
+                validate: (value) => value.trim() ? true : 'API key is required'
+            });
+            apiKey = sanitizeApiKey(rawKey);
+        }
+    } else {
+        const rawKey = await password({
+            message: 'Enter API key:',
+            validate: (value) => value.trim() ? true : 'API key is required'
+        });
+        apiKey = sanitizeApiKey(rawKey);
+    }
+
+    // Validate API key looks reasonable
+    if (apiKey.length < 10) {
+        console.log(chalk.yellow('\n⚠️  Warning: API key seems very short. Make sure you pasted it correctly.'));
+    }
+
+    // Save API key before anything else
+    const spinner = ora(`Saving API key to ${storageLabel}...`).start();
+    const keySuccess = await keychain.setApiKey(aliasName, apiKey, secretBackend);
+
+    if (!keySuccess) {
+        spinner.fail(`Failed to save API key to ${storageLabel}`);
+        console.log(chalk.red('❌ Cannot proceed without secure API key storage.'));
+        return null;
+    }
+    spinner.succeed(`API key saved to ${storageLabel}`);
+    return apiKey;
+}
+
+/**
+ * Interactive editor for custom environment variables (list, add, edit, remove)
+ */
+async function editCustomEnv(initial: Record<string, string>): Promise<Record<string, string>> {
+    const env = { ...initial };
+
+    let editing = true;
+    while (editing) {
+        const names = Object.keys(env).sort();
+        const choice = await select({
+            message: 'Custom environment variables (select to edit):',
+            choices: [
+                { name: '✅ Done', value: '__done__' },
+                { name: '➕ Add variable', value: '__add__' },
+                ...names.map(name => ({
+                    name: `   ${name}=${chalk.cyan(env[name])}`,
+                    value: name
+                }))
+            ]
+        });
+
+        if (choice === '__done__') {
+            editing = false;
+        } else if (choice === '__add__') {
+            const name = (await input({
+                message: 'Variable name:',
+                validate: (value) => {
+                    const trimmed = value.trim();
+                    if (env[trimmed] !== undefined) return `${trimmed} already exists - select it to edit`;
+                    return profile.validateEnvVarName(trimmed);
+                }
+            })).trim();
+            env[name] = await input({
+                message: `Value for ${name}:`,
+                validate: profile.validateEnvVarValue
+            });
+        } else {
+            const action = await select({
+                message: `${choice}:`,
+                choices: [
+                    { name: 'Edit value', value: 'edit' },
+                    { name: 'Remove', value: 'remove' },
+                    { name: 'Back', value: 'back' }
+                ]
+            });
+
+            if (action === 'edit') {
+                env[choice] = await input({
+                    message: `Value for ${choice}:`,
+                    default: env[choice],
+                    validate: profile.validateEnvVarValue
+                });
+            } else if (action === 'remove') {
+                delete env[choice];
+            }
+        }
+    }
+
+    return env;
+}
+
+/**
+ * Warn if a tier model from the LiteLLM registry looks unsuitable for Claude Code.
+ * Models not in the registry are not checked.
+ */
+async function warnModelCapabilities(modelName: string, litellmProvider?: string): Promise<void> {
+    const model = await litellm.getModelInfo(modelName, litellmProvider);
+    if (!model) return;
+    for (const warning of litellm.getCapabilityWarnings(model)) {
+        console.log(chalk.yellow(`  ⚠️  ${warning}`));
+    }
+}
+
+/**
+ * Fetch the provider's own model list and attach LiteLLM metadata where names match.
+ * Returns null (after explaining why) if the list is unavailable.
+ */
+async function loadProviderModels(
+    baseUrl: string,
+    apiKey: string,
+    useAuthToken: boolean,
+    litellmProvider?: string
+): Promise<ProviderModel[] | null> {
+    const spinner = ora(`Fetching models from ${connectivity.getModelsUrl(baseUrl)}...`).start();
+
+    let models: ProviderModel[];
+    try {
+        models = await connectivity.listProviderModels({ baseUrl, apiKey, useAuthToken, timeoutMs: 15000 });
+    } catch (error) {
+        spinner.fail(`Could not list models: ${error instanceof Error ? error.message : error}`);
+        return null;
+    }
+    if (models.length === 0) {
+        spinner.warn('The provider returned an empty model list');
+        return null;
+    }
+
+    for (const model of models) {
+        model.info = await litellm.getModelInfo(model.id, litellmProvider) ?? undefined;
+    }
+    const withInfo = models.filter(m => m.info).length;
+    spinner.succeed(`Found ${models.length} models (${withInfo} with LiteLLM metadata)`);
+    return models;
+}
+
+/**
+ * Format a provider model for the picker, with registry details when known
+ */
+function formatProviderModel(model: ProviderModel): string {
+    const details: string[] = [];
+    if (model.displayName && model.displayName !== model.id) details.push(model.displayName);
+    if (model.info?.max_input_tokens) details.push(`${Math.round(model.info.max_input_tokens / 1000)}k context`);
+    if (model.info?.supports_function_calling) details.push('tools');
+    const price = model.info ? litellm.formatPrice(model.info) : null;
+    if (price) details.push(price);
+    return details.length > 0 ? `${model.id} ${chalk.dim(`(${details.join(', ')})`)}` : model.id;
+}
+
+/**
+ * Prompt for one tier's model: keep, search the LiteLLM registry, pick from the
+ * provider's live list, enter it manually or clear it. Returns the new value.
+ */
+async function pickTierModel(tier: TierModelConfig, current: string, context: ModelPickerContext): Promise<string> {
+    const { providerName, litellmProvider } = context;
+    const displayCurrent = current ? chalk.cyan(current) : chalk.dim('(not set)');
+
+    let action = await select({
+        message: `${tier.name} - ${chalk.dim(tier.description)}`,
+        choices: [
+            {
+                name: current
+                    ? `Keep current: ${displayCurrent}`
+                    : 'Leave blank (use Claude default)',
+                value: 'keep'
+            },
+            {
+                name: litellmProvider ? `Search ${providerName} models (LiteLLM registry)` : 'Search LiteLLM registry',
+                value: 'search'
+            },
+            ...(litellmProvider ? [{ name: 'Search all providers (LiteLLM registry)', value: 'search-all' }] : []),
+            ...(context.providerModels !== null ? [{ name: `List ${providerName}'s models (live, GET /v1/models)`, value: 'live' }] : []),
+            { name: 'Enter model name manually', value: 'manual' },
+            ...(current ? [{ name: 'Clear (use Claude default)', value: 'clear' }] : [])
+        ]
+    });
+
+    if (action === 'live') {
+        if (context.providerModels === undefined) {
+            context.providerModels = await loadProviderModels(context.baseUrl, context.apiKey, context.useAuthToken, litellmProvider);
+        }
+
+        if (context.providerModels) {
+            const models = context.providerModels;
+            const liveResult = await search<string>({
+                message: `Select ${tier.name}:`,
+                source: async (term) => {
+                    const termLower = (term || '').toLowerCase();
+                    return models
+                        .filter(m => m.id.toLowerCase().includes(termLower) || m.displayName?.toLowerCase().includes(termLower))
+                        .slice(0, 30)
+                        .map(m => ({ name: formatProviderModel(m), value: m.id }));
+                }
+            });
+            console.log(chalk.dim(`  → ${tier.envVar}="${liveResult}"`));
+            await warnModelCapabilities(liveResult, litellmProvider);
+            return liveResult;
+        }
+
+        console.log(chalk.dim('  Falling back to manual entry.'));
+        action = 'manual';
+    }
+
+    if (action === 'keep') {
+        return current;
+    }
+    if (action === 'clear') {
+        return '';
+    }
+
+    if (action === 'search' || action === 'search-all') {
+        const loadingSpinner = ora('Loading LiteLLM registry...').start();
+        await litellm.fetchRegistry();
+        reportRegistryStatus(loadingSpinner);
+
+        const scope = action === 'search' ? litellmProvider : undefined;
+        const searchResult = await search<string>({
+            message: `Search model for ${tier.name}:`,
+            source: async (term) => {
+                let results: LiteLLMModel[];
+                if (term) {
+                    results = await litellm.searchModels(term, 15, scope);
+                } else if (scope) {
+                    results = await litellm.getModelsByProvider(scope, 15);
+                } else {
+                    results = await litellm.searchModels('claude', 10);
+                }
+                // The provider's own models are sent without LiteLLM's "provider/" prefix
+                return results.map(m => {
+                    const modelId = m.litellm_provider === litellmProvider ? litellm.getProviderModelId(m) : m.name;
+                    const price = litellm.formatPrice(m);
+                    return { name: `${modelId} (${m.litellm_provider})${price ? chalk.dim(` ${price}`) : ''}`, value: modelId };
+                });
+            }
+        });
+        console.log(chalk.dim(`  → ${tier.envVar}="${searchResult}"`));
+        await warnModelCapabilities(searchResult, litellmProvider);
+        return searchResult;
+    }
+
+    const manualValue = (await input({
+        message: `Enter model name for ${tier.name}:`,
+        default: current || undefined
+    }))?.trim() || '';
+    if (manualValue) {
+        console.log(chalk.dim(`  → ${tier.envVar}="${manualValue}"`));
+        await warnModelCapabilities(manualValue, litellmProvider);
+    }
+    return manualValue;
+}
+
+/**
+ * Prompt for max output tokens, suggesting the Sonnet model's output limit
+ * from the registry since it handles most requests
+ */
+async function promptMaxOutputTokens(
+    current: number | undefined,
+    sonnetModel: string,
+    litellmProvider?: string
+): Promise<number | undefined> {
+    const sonnetInfo = sonnetModel ? await litellm.getModelInfo(sonnetModel, litellmProvider) : null;
+    const suggestedMaxTokens = sonnetInfo ? litellm.getMaxOutputTokens(sonnetInfo) : undefined;
+    if (suggestedMaxTokens && !current) {
+        console.log(chalk.dim(`  Suggested from ${sonnetInfo!.name}: ${suggestedMaxTokens}`));
+    }
+
+    const maxTokensInput = await input({
+        message: 'Max output tokens (leave empty for default):',
+        default: current?.toString() || suggestedMaxTokens?.toString() || undefined
+    });
+
+    const parsed = maxTokensInput ? parseInt(maxTokensInput, 10) : NaN;
+    return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Prompt for each environment variable the preset requires that is not
+ * already configured, offering the preset's default value
+ */
+async function promptRequiredEnv(preset: ProviderPreset, customEnv: Record<string, string>): Promise<Record<string, string>> {
+    const env = { ...customEnv };
+    const missing = Object.keys(preset.requiredEnv || {}).filter(name => !env[name]);
+    if (missing.length === 0) return env;
+
+    console.log(chalk.dim(`\n🌱 ${preset.name} requires these environment variables`));
+    for (const name of missing) {
+        env[name] = await input({
+            message: `${name}:`,
+            default: preset.requiredEnv![name] || undefined,
+            validate: (value) => value.trim() ? profile.validateEnvVarValue(value) : `${name} is required by ${preset.name}`
+        });
+    }
+    return env;
+}
+
+/**
+ * Parse repeated --env KEY=VALUE flags.
+ * Returns an error message if any entry is invalid.
+ */
+export function parseEnvFlags(entries: string[]): Record<string, string> | string {
+    const env: Record<string, string> = {};
+    for (const entry of entries) {
+        const eqIdx = entry.indexOf('=');
+        if (eqIdx === -1) return `--env expects KEY=VALUE, got '${entry}'`;
+        const name = entry.substring(0, eqIdx);
+        const value = entry.substring(eqIdx + 1);
+        const nameCheck = profile.validateEnvVarName(name);
+        if (nameCheck !== true) return nameCheck;
+        const valueCheck = profile.validateEnvVarValue(value);
+        if (valueCheck !== true) return `${name}: ${valueCheck}`;
+        env[name] = value;
+    }
+    return env;
+}
+
+/**
+ * Report a non-interactive usage error and mark the process as failed
+ */
+function failNonInteractive(message: string): void {
+    console.error(chalk.red(`❌ Error: ${message}`));
+    process.exitCode = 1;
+}
+
+/**
+ * Parse an optional positive integer flag value.
+ * Returns undefined if absent and null if invalid.
+ */
+export function parseTokenCount(value: string | undefined): number | undefined | null {
+    if (value === undefined) return undefined;
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed <= 0 || String(parsed) !== value.trim()) return null;
+    return parsed;
+}
+
+/**
+ * Non-interactive add/edit: build the config entirely from command-line flags.
+ * Never prompts; missing required values fail with a non-zero exit code.
+ *
+ * The API key is read from stdin (--api-key-stdin) or the CLAUDE_ALIAS_API_KEY
+ * environment variable. When editing, an already stored key is kept.
+ * Arguments after `--` become the alias's default claude arguments.
+ */
+async function runNonInteractiveAdd(rawArgs: string[]): Promise<void> {
+    const separatorIdx = rawArgs.indexOf('--');
+    const args = separatorIdx === -1 ? rawArgs : rawArgs.slice(0, separatorIdx);
+    const defaultArgs = separatorIdx === -1 ? undefined : rawArgs.slice(separatorIdx + 1);
+
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                provider: { type: 'string' },
+                'base-url': { type: 'string' },
+                'opus-model': { type: 'string' },
+                'sonnet-model': { type: 'string' },
+                'haiku-model': { type: 'string' },
+                'subagent-model': { type: 'string' },
+                'max-output-tokens': { type: 'string' },
+                'auth-token': { type: 'boolean' },
+                'api-key': { type: 'boolean' },
+                'skip-permissions': { type: 'boolean' },
+                'no-skip-permissions': { type: 'boolean' },
+                'track-usage': { type: 'boolean' },
+                'no-track-usage': { type: 'boolean' },
+                'api-key-stdin': { type: 'boolean' },
+                env: { type: 'string', multiple: true },
+                'secret-backend': { type: 'string' },
+                'api-format': { type: 'string' },
+                test: { type: 'boolean' }
+            }
+        });
+    } catch (error) {
+        failNonInteractive(error instanceof Error ? error.message : String(error));
+        return;
+    }
+
+    const { values, positionals } = parsed;
+
+    const aliasName = positionals[0];
+    if (!aliasName) {
+        failNonInteractive('Alias name is required (claude-alias add <alias> --provider <name> ...)');
+        return;
+    }
+    if (positionals.length > 1) {
+        failNonInteractive(`Unexpected argument: ${positionals[1]}`);
+        return;
+    }
+    const aliasCheck = profile.validateAliasName(aliasName);
+    if (aliasCheck !== true) {
+        failNonInteractive(aliasCheck);
+        return;
+    }
+
+    const providerName = values.provider?.trim();
+    if (!providerName) {
+        failNonInteractive('--provider is required');
+        return;
+    }
+
+    if (values['auth-token'] && values['api-key']) {
+        failNonInteractive('--auth-token and --api-key cannot be used together');
+        return;
+    }
+    for (const flag of ['skip-permissions', 'track-usage'] as const) {
+        if (values[flag] && values[`no-${flag}`]) {
+            failNonInteractive(`--${flag} and --no-${flag} cannot be used together`);
+            return;
+        }
+    }
+
+    let preset: ProviderPreset | undefined;
+    try {
+        preset = providers.getPreset(providerName);
+    } catch (error) {
+        failNonInteractive(error instanceof Error ? error.message : String(error));
+        return;
+    }
+
+    const existingConfig = configStore.resolveAliasConfig(aliasName);
+    const isEdit = !!existingConfig.alias || shell.listAllClaudeAliases().some(a => a.name === aliasName);
+    // Settings left out when editing keep their current values, unless the edit switches
+    // provider, in which case the new preset's defaults apply
+    const kept = existingConfig.alias && existingConfig.provider === providerName ? existingConfig : undefined;
+
+    const baseUrl = values['base-url']?.trim() || (kept ? kept.baseUrl : preset?.baseUrl) || '';
+    if (!baseUrl) {
+        failNonInteractive(`--base-url is required for provider '${providerName}'`);
+        return;
+    }
+    try {
+        new URL(baseUrl);
+    } catch {
+        failNonInteractive(`Invalid URL format: ${baseUrl}`);
+        return;
+    }
+
+    const maxOutputTokens = parseTokenCount(values['max-output-tokens']);
+    if (maxOutputTokens === null) {
+        failNonInteractive('--max-output-tokens must be a positive integer');
+        return;
+    }
+
+    const envFlags = parseEnvFlags(values.env || []);
+    if (typeof envFlags === 'string') {
+        failNonInteractive(envFlags);
+        return;
+    }
+
+    const apiFormat = values['api-format'] ?? (kept ? kept.apiFormat : preset?.apiFormat) ?? 'anthropic';
+    if (apiFormat !== 'anthropic' && apiFormat !== 'openai') {
+        failNonInteractive('--api-format must be "anthropic" or "openai"');
+        return;
+    }
+
+    // Env the preset requires: configured values win, then the preset's defaults.
+    // A provider switch drops the old provider's env along with its other settings.
+    const customEnv = { ...kept?.customEnv, ...envFlags };
+    for (const [name, defaultValue] of Object.entries(preset?.requiredEnv || {})) {
+        if (!customEnv[name]) {
+            if (!defaultValue) {
+                failNonInteractive(`Provider '${providerName}' requires ${name} - pass it with --env ${name}=VALUE`);
+                return;
+            }
+            customEnv[name] = defaultValue;
+        }
+    }
+
+    // Existing aliases keep their backend unless --secret-backend moves them
+    const secretBackend = values['secret-backend']
+        ?? (isEdit ? existingConfig.secretBackend ?? 'system' : keychain.getDefaultBackend());
+    if (!keychain.isBackendName(secretBackend)) {
+        failNonInteractive(`--secret-backend must be one of: ${keychain.BACKEND_NAMES.join(', ')}`);
+        return;
+    }
+
+    // Check secret storage availability first
+    if (!await keychain.isKeychainAvailable(secretBackend)) {
+        failNonInteractive(`Secret backend '${secretBackend}' is not available on this system.`);
+        return;
+    }
+    const backendCheck = keychain.validateAliasBackend(aliasName, secretBackend);
+    if (backendCheck !== true) {
+        failNonInteractive(backendCheck);
+        return;
+    }
+
+    // Resolve the API key without prompting
+    let apiKey: string | undefined;
+    if (keychain.isReadOnly(secretBackend)) {
+        // Keys are read at run time; nothing to store
+        if (!await keychain.verifyApiKey(aliasName, secretBackend)) {
+            console.log(chalk.yellow(`⚠️  Set ${keychain.getEnvVarName(aliasName)} before using '${aliasName}'`));
+        }
+    } else if (values['api-key-stdin']) {
+        apiKey = sanitizeApiKey(await readStdin());
+        if (!apiKey) {
+            failNonInteractive('--api-key-stdin was given but nothing was read from stdin');
+            return;
+        }
+    } else if (process.env.CLAUDE_ALIAS_API_KEY) {
+        apiKey = sanitizeApiKey(process.env.CLAUDE_ALIAS_API_KEY);
+    } else if (!await keychain.verifyApiKey(aliasName, secretBackend)) {
+        failNonInteractive('An API key is required: pipe it with --api-key-stdin or set CLAUDE_ALIAS_API_KEY');
+        return;
+    }
+
+    if (apiKey) {
+        const keySuccess = await keychain.setApiKey(aliasName, apiKey, secretBackend);
+        if (!keySuccess) {
+            failNonInteractive('Failed to save API key to secure storage');
+            return;
+        }
+        console.log(chalk.green('✓ API key saved'));
+    }
+
+    const useAuthToken = values['api-key'] ? false
+        : values['auth-token'] ? true
+            : existingConfig.useAuthToken ?? getDefaultAuthMethod(preset);
+
+    const now = new Date().toISOString();
+    const config: ClaudeAliasConfig = {
+        alias: aliasName,
+        provider: providerName,
+        baseUrl,
+        opusModel: values['opus-model']?.trim() || (kept ? kept.opusModel : preset?.models?.opus),
+        sonnetModel: values['sonnet-model']?.trim() || (kept ? kept.sonnetModel : preset?.models?.sonnet),
+        haikuModel: values['haiku-model']?.trim() || (kept ? kept.haikuModel : preset?.models?.haiku),
+        subagentModel: values['subagent-model']?.trim() || (kept ? kept.subagentModel : preset?.models?.subagent),
+        maxOutputTokens: maxOutputTokens ?? (kept ? kept.maxOutputTokens : preset?.maxOutputTokens),
+        useAuthToken,
+        apiFormat: apiFormat === 'openai' ? apiFormat : undefined,
+        skipPermissions: values['no-skip-permissions'] ? false : values['skip-permissions'] ?? existingConfig.skipPermissions ?? false,
+        trackUsage: values['no-track-usage'] ? false : values['track-usage'] ?? existingConfig.trackUsage,
+        defaultArgs: defaultArgs
+            ? (defaultArgs.length > 0 ? defaultArgs : undefined)
+            : existingConfig.defaultArgs,
+        customEnv: Object.keys(customEnv).length > 0 ? customEnv : undefined,
+        secretBackend: secretBackend === 'system' ? undefined : secretBackend,
+        failover: existingConfig.failover,
+        budgets: existingConfig.budgets,
+        createdAt: existingConfig.createdAt || now,
+        updatedAt: now
+    };
+
+    if (!applyConfig(config, isEdit)) {
+        process.exitCode = 1;
+        return;
+    }
+
+    if (values.test) {
+        const key = apiKey ?? await keychain.getApiKey(aliasName, secretBackend);
+        if (!key || !await testConnection(config, key)) {
+            process.exitCode = 1;
+        }
+    }
+}
+
+/**
+ * Run the add/edit command flow.
+ * With arguments (`add <alias> --provider ...`) it runs without any prompts.
  */
-export async function runAddCommand(): Promise<void> {
+export async function runAddCommand(args: string[] = []): Promise<void> {
+    if (args.length > 0) {
+        await runNonInteractiveAdd(args);
+        return;
+    }
+
     // Clear and show header
     clearScreen();
     showHeaderBox();
@@ -96,23 +795,12 @@ export async function runAddCommand(): Promise<void> {
     // Show existing aliases
     formatExistingAliases();
 
-    // Check Keychain availability first
-    const keychainAvailable = await keychain.isKeychainAvailable();
-    if (!keychainAvailable) {
-        console.log(chalk.red('❌ Error: macOS Keychain is not available on this system.'));
-        console.log(chalk.yellow('   This tool requires macOS Keychain for secure API key storage.'));
-        return;
-    }
-
     // Get alias name
     const aliasName = await input({
         message: 'Enter alias name (e.g., "ccd" for DeepSeek):',
         validate: (value) => {
             if (!value.trim()) return 'Alias name is required';
-            if (!/^[a-zA-Z][a-zA-Z0-9_-]*$/.test(value)) {
-                return 'Alias must start with a letter and contain only letters, numbers, underscores, or hyphens';
-            }
-            return true;
+            return profile.validateAliasName(value);
         }
     });
 
@@ -123,6 +811,9 @@ export async function runAddCommand(): Promise<void> {
     const existingProfile = existingProfiles.find(p => p.alias === aliasName);
     const isEdit = !!existingAlias || !!existingProfile;
 
+    // Get existing config for defaults (stored config, falling back to the script)
+    const existingConfig: Partial<ClaudeAliasConfig> = isEdit ? configStore.resolveAliasConfig(aliasName) : {};
+
     if (isEdit) {
         console.log(chalk.yellow(`\n📝 Editing existing alias: ${aliasName}`));
 
@@ -148,7 +839,8 @@ export async function runAddCommand(): Promise<void> {
 
             const { execSync } = await import('child_process');
             try {
-                execSync(`${editor} "${scriptPath}"`, { stdio: 'inherit' });
+                // $EDITOR may carry its own arguments (e.g. "code -w"), so it stays unquoted
+                execSync(`${editor} ${shellQuote(scriptPath)}`, { stdio: 'inherit' });
                 console.log(chalk.green('\n✓ Script updated. Remember to source your shell profile.'));
             } catch {
                 console.log(chalk.red('\n❌ Failed to open editor.'));
@@ -161,86 +853,88 @@ export async function runAddCommand(): Promise<void> {
         console.log(chalk.green(`\n✨ Creating new alias: ${aliasName}\n`));
     }
 
+    // Existing aliases keep their secret backend; new ones use the default
+    const secretBackend = isEdit ? existingConfig.secretBackend ?? 'system' : keychain.getDefaultBackend();
+    const storageLabel = keychain.getBackendLabel(secretBackend);
+    if (!await keychain.isKeychainAvailable(secretBackend)) {
+        console.log(chalk.red(`❌ Error: ${storageLabel} is not available on this system.`));
+        console.log(chalk.yellow('   Choose another backend with "claude-alias secrets backend <name>".'));
+        return;
+    }
+    const backendCheck = keychain.validateAliasBackend(aliasName, secretBackend);
+    if (backendCheck !== true) {
+        console.log(chalk.red(`❌ Error: ${backendCheck}`));
+        process.exitCode = 1;
+        return;
+    }
+
     // Get provider with search/select from presets
+    let presets: ProviderPreset[];
+    try {
+        presets = providers.getPresets();
+    } catch (error) {
+        console.log(chalk.red(`❌ Error: ${error instanceof Error ? error.message : error}`));
+        process.exitCode = 1;
+        return;
+    }
+
     const providerChoice = await search<string>({
         message: 'Select or search for a provider:',
         source: async (term) => {
-            const filtered = PROVIDER_PRESETS.filter(p =>
-                !term ||
-                p.name.toLowerCase().includes(term.toLowerCase()) ||
-                p.value.toLowerCase().includes(term.toLowerCase())
+            const termLower = (term || '').toLowerCase();
+            const filtered = presets.filter(p =>
+                p.name.toLowerCase().includes(termLower) ||
+                p.value.toLowerCase().includes(termLower)
             );
-            return filtered.map(p => ({
-                name: p.value === '__custom__' ? chalk.dim(p.name) : `${p.name} ${chalk.dim(`(${p.baseUrl})`)}`,
-                value: p.value
-            }));
+            return [
+                ...filtered.map(p => ({
+                    name: `${p.name} ${chalk.dim(`(${p.baseUrl})`)}`,
+                    value: p.value
+                })),
+                { name: chalk.dim('Custom Provider...'), value: '__custom__' }
+            ];
         }
     });
 
     let providerName: string;
-    let defaultBaseUrl: string;
+    let preset: ProviderPreset | undefined;
 
     if (providerChoice === '__custom__') {
         providerName = await input({
             message: 'Enter custom provider name:',
             validate: (value) => value.trim() ? true : 'Provider name is required'
         });
-        defaultBaseUrl = '';
     } else {
         providerName = providerChoice;
-        defaultBaseUrl = PROVIDER_PRESETS.find(p => p.value === providerChoice)?.baseUrl || '';
+        preset = presets.find(p => p.value === providerChoice);
     }
 
-    // Get API key
-    console.log(chalk.dim('\n🔐 API Key (will be stored securely in macOS Keychain)'));
-    const existingKeyValid = isEdit && await keychain.verifyApiKey(aliasName);
+    // Scopes registry search and lookups to the provider's models (undefined for custom providers)
+    const litellmProvider = preset?.litellmProvider;
 
-    let apiKey: string;
-    if (existingKeyValid) {
-        const keepKey = await confirm({
-            message: 'Keep existing API key?',
-            default: true
-        });
+    // Editing with the same provider starts from the stored settings; a new or switched
+    // provider starts from its preset's defaults
+    const kept = existingConfig.alias && existingConfig.provider === providerName ? existingConfig : undefined;
 
-        if (keepKey) {
-            apiKey = (await keychain.getApiKey(aliasName))!;
-        } else {
-            const rawKey = await password({
-                message: 'Enter new API key:',
-                validate: (value) => value.trim() ? true : 'API key is required'
-            });
-            // Sanitize: remove newlines, carriage returns, and trim whitespace
-            apiKey = rawKey.replace(/[\r\n\t]/g, '').trim();
+    // Get API key
+    let apiKey: string;
+    if (keychain.isReadOnly(secretBackend)) {
+        const envVar = keychain.getEnvVarName(aliasName);
+        console.log(chalk.dim(`\n🔐 API Key (read from $${envVar} when the alias runs)`));
+        apiKey = await keychain.getApiKey(aliasName, secretBackend) ?? '';
+        if (!apiKey) {
+            console.log(chalk.yellow(`⚠️  ${envVar} is not set; set it before using '${aliasName}'.`));
         }
     } else {
-        const rawKey = await password({
-            message: 'Enter API key:',
-            validate: (value) => value.trim() ? true : 'API key is required'
-        });
-        // Sanitize: remove newlines, carriage returns, and trim whitespace
-        apiKey = rawKey.replace(/[\r\n\t]/g, '').trim();
-    }
-
-    // Validate API key looks reasonable
-    if (apiKey.length < 10) {
-        console.log(chalk.yellow('\n⚠️  Warning: API key seems very short. Make sure you pasted it correctly.'));
-    }
-
-    // Save API key to Keychain first
-    const spinner = ora('Saving API key to Keychain...').start();
-    const keySuccess = await keychain.setApiKey(aliasName, apiKey);
-
-    if (!keySuccess) {
-        spinner.fail('Failed to save API key to Keychain');
-        console.log(chalk.red('❌ Cannot proceed without secure API key storage.'));
-        return;
+        console.log(chalk.dim(`\n🔐 API Key (will be stored securely in ${storageLabel})`));
+        apiKey = await promptAndSaveApiKey(aliasName, isEdit, secretBackend, storageLabel) ?? '';
+        if (!apiKey) return;
     }
-    spinner.succeed('API key saved to Keychain');
 
     // Get base URL
     const baseUrl = await input({
         message: 'API Base URL:',
-        default: defaultBaseUrl || (isEdit && existingProfile ? profile.parseScriptConfig(existingProfile.content).baseUrl : undefined),
+        default: kept ? kept.baseUrl : preset?.baseUrl,
         validate: (value) => {
             if (!value.trim()) return 'Base URL is required';
             try {
@@ -253,9 +947,9 @@ export async function runAddCommand(): Promise<void> {
     });
 
     // Token type selection - detect user's preference from existing config or environment
-    const existingUseAuthToken = isEdit && existingProfile
-        ? profile.parseScriptConfig(existingProfile.content).useAuthToken
-        : detectDefaultAuthMethod();
+    const existingUseAuthToken = isEdit
+        ? existingConfig.useAuthToken
+        : getDefaultAuthMethod(preset);
 
     const tokenType = await select({
         message: 'Token type for authentication:',
@@ -268,161 +962,87 @@ export async function runAddCommand(): Promise<void> {
 
     const useAuthToken = tokenType === 'auth';
 
-    // Get existing config for defaults
-    const existingConfig = isEdit && existingProfile ? profile.parseScriptConfig(existingProfile.content) : {};
+    // Presets know their API; custom providers are asked
+    const apiFormat: ApiFormat = preset
+        ? preset.apiFormat ?? 'anthropic'
+        : await select<ApiFormat>({
+            message: 'API format the provider speaks:',
+            choices: [
+                { name: 'Anthropic Messages (/v1/messages)', value: 'anthropic' },
+                { name: 'OpenAI Chat Completions (/chat/completions, via a local translation proxy)', value: 'openai' }
+            ],
+            default: kept?.apiFormat ?? 'anthropic'
+        });
+    if (apiFormat === 'openai') {
+        console.log(chalk.dim('  Claude Code will reach this provider through "claude-alias proxy", started by the alias script.'));
+    }
 
     // Model values to be configured
-    let modelValues: Record<string, string> = {
-        opusModel: existingConfig.opusModel || existingConfig.model || '',
-        sonnetModel: existingConfig.sonnetModel || '',
-        haikuModel: existingConfig.haikuModel || existingConfig.smallFastModel || '',
-        subagentModel: existingConfig.subagentModel || ''
+    const modelValues: Record<TierModelKey, string> = kept
+        ? {
+            opusModel: kept.opusModel || kept.model || '',
+            sonnetModel: kept.sonnetModel || '',
+            haikuModel: kept.haikuModel || kept.smallFastModel || '',
+            subagentModel: kept.subagentModel || ''
+        }
+        : Object.fromEntries(TIER_MODEL_CONFIGS.map(tier => [tier.key, preset?.models?.[tier.tier] || ''])) as Record<TierModelKey, string>;
+    let maxOutputTokens: number | undefined = kept ? kept.maxOutputTokens : preset?.maxOutputTokens;
+
+    const pickerContext: ModelPickerContext = {
+        providerName,
+        litellmProvider,
+        baseUrl: baseUrl.trim(),
+        apiKey,
+        useAuthToken
     };
-    let maxOutputTokens: number | undefined = existingConfig.maxOutputTokens;
-
-    // Special handling for Z.AI provider - simplified menu-based config
-    if (providerName === 'zai') {
-        console.log(chalk.bold.blue('\n🤖 Z.AI Model Configuration\n'));
-        console.log(chalk.dim('  Pre-configured with Z.AI GLM models. Select any row to customize.\n'));
-
-        // Set Z.AI defaults
-        modelValues = {
-            opusModel: existingConfig.opusModel || ZAI_DEFAULTS.opusModel,
-            sonnetModel: existingConfig.sonnetModel || ZAI_DEFAULTS.sonnetModel,
-            haikuModel: existingConfig.haikuModel || ZAI_DEFAULTS.haikuModel,
-            subagentModel: existingConfig.subagentModel || ZAI_DEFAULTS.subagentModel
-        };
-        maxOutputTokens = existingConfig.maxOutputTokens || ZAI_DEFAULTS.maxOutputTokens;
-
-        // Menu loop for Z.AI
+
+    if (preset) {
+        // Presets get a quick menu pre-filled with their default models
+        console.log(chalk.bold.blue(`\n🤖 ${preset.name} Model Configuration\n`));
+        if (kept) {
+            console.log(chalk.dim(`  Showing the current models of '${aliasName}'. Select any row to change it.`));
+        } else if (preset.models && Object.keys(preset.models).length > 0) {
+            console.log(chalk.dim(`  Pre-configured with ${preset.name} defaults. Select any row to customize.`));
+        } else {
+            console.log(chalk.dim('  Select a row to map one of your provider\'s models to a Claude Code tier.'));
+            console.log(chalk.dim('  Tiers left unset use Claude\'s default models.'));
+        }
+        if (preset.docsUrl) {
+            console.log(chalk.dim(`  Docs: ${preset.docsUrl}`));
+        }
+        console.log();
+
         let configuring = true;
         while (configuring) {
             const choice = await select({
                 message: 'Configure models (select to edit):',
                 choices: [
                     { name: `✅ Finish and apply configuration`, value: 'finish' },
-                    { name: `   Opus Model: ${chalk.cyan(modelValues.opusModel)} ${chalk.dim('(complex tasks, Plan Mode)')}`, value: 'opus' },
-                    { name: `   Sonnet Model: ${chalk.cyan(modelValues.sonnetModel)} ${chalk.dim('(normal operation)')}`, value: 'sonnet' },
-                    { name: `   Haiku Model: ${chalk.cyan(modelValues.haikuModel)} ${chalk.dim('(background tasks)')}`, value: 'haiku' },
-                    { name: `   Subagent Model: ${chalk.cyan(modelValues.subagentModel)} ${chalk.dim('(subagent operations)')}`, value: 'subagent' },
+                    ...TIER_MODEL_CONFIGS.map(tier => ({
+                        name: `   ${tier.name}: ${modelValues[tier.key] ? chalk.cyan(modelValues[tier.key]) : chalk.dim('(not set)')} ${chalk.dim(`(${tier.shortDescription})`)}`,
+                        value: tier.key
+                    })),
                     { name: `   Max Output Tokens: ${chalk.cyan(maxOutputTokens?.toString() || 'default')}`, value: 'tokens' }
                 ]
             });
 
             if (choice === 'finish') {
                 configuring = false;
-            } else if (choice === 'opus') {
-                const value = await input({ message: 'Opus Model:', default: modelValues.opusModel });
-                modelValues.opusModel = value?.trim() || '';
-            } else if (choice === 'sonnet') {
-                const value = await input({ message: 'Sonnet Model:', default: modelValues.sonnetModel });
-                modelValues.sonnetModel = value?.trim() || '';
-            } else if (choice === 'haiku') {
-                const value = await input({ message: 'Haiku Model:', default: modelValues.haikuModel });
-                modelValues.haikuModel = value?.trim() || '';
-            } else if (choice === 'subagent') {
-                const value = await input({ message: 'Subagent Model:', default: modelValues.subagentModel });
-                modelValues.subagentModel = value?.trim() || '';
             } else if (choice === 'tokens') {
-                const value = await input({ message: 'Max Output Tokens:', default: maxOutputTokens?.toString() || '' });
-                maxOutputTokens = value ? parseInt(value, 10) : undefined;
-                if (isNaN(maxOutputTokens as number)) maxOutputTokens = undefined;
+                maxOutputTokens = await promptMaxOutputTokens(maxOutputTokens, modelValues.sonnetModel.trim(), litellmProvider);
+            } else {
+                const tier = TIER_MODEL_CONFIGS.find(t => t.key === choice)!;
+                modelValues[tier.key] = await pickTierModel(tier, modelValues[tier.key], pickerContext);
             }
         }
     } else {
-        // Standard model configuration for other providers
+        // Step-by-step model configuration for custom providers
         console.log(chalk.bold.blue('\n🤖 Model Configuration\n'));
         console.log(chalk.dim('  Configure which models from your provider map to Claude Code\'s model tiers.'));
         console.log(chalk.dim('  Leave blank to use Claude\'s default models.\n'));
 
-        // Model configuration definitions
-        const modelConfigs = [
-            {
-                key: 'opusModel',
-                name: 'Opus Model',
-                envVar: 'ANTHROPIC_DEFAULT_OPUS_MODEL',
-                description: 'Primary model for complex tasks and Plan Mode',
-                current: modelValues.opusModel
-            },
-            {
-                key: 'sonnetModel',
-                name: 'Sonnet Model',
-                envVar: 'ANTHROPIC_DEFAULT_SONNET_MODEL',
-                description: 'Default model for normal operation',
-                current: modelValues.sonnetModel
-            },
-            {
-                key: 'haikuModel',
-                name: 'Haiku Model',
-                envVar: 'ANTHROPIC_DEFAULT_HAIKU_MODEL',
-                description: 'Fast model for background tasks',
-                current: modelValues.haikuModel
-            },
-            {
-                key: 'subagentModel',
-                name: 'Subagent Model',
-                envVar: 'CLAUDE_CODE_SUBAGENT_MODEL',
-                description: 'Model for subagent operations',
-                current: modelValues.subagentModel
-            }
-        ];
-
-        for (const modelConfig of modelConfigs) {
-            const displayCurrent = modelConfig.current ? chalk.cyan(modelConfig.current) : chalk.dim('(not set)');
-
-            const action = await select({
-                message: `${modelConfig.name} - ${chalk.dim(modelConfig.description)}`,
-                choices: [
-                    {
-                        name: modelConfig.current
-                            ? `Keep current: ${displayCurrent}`
-                            : 'Leave blank (use Claude default)',
-                        value: 'keep'
-                    },
-                    { name: 'Search LiteLLM registry', value: 'search' },
-                    { name: 'Enter model name manually', value: 'manual' },
-                    ...(modelConfig.current ? [{ name: 'Clear (use Claude default)', value: 'clear' }] : [])
-                ]
-            });
-
-            if (action === 'keep') {
-                modelValues[modelConfig.key] = modelConfig.current;
-            } else if (action === 'clear') {
-                modelValues[modelConfig.key] = '';
-            } else if (action === 'search') {
-                const loadingSpinner = ora('Loading LiteLLM registry...').start();
-                await litellm.fetchRegistry();
-                loadingSpinner.succeed('Registry loaded');
-
-                const searchResult = await search<string>({
-                    message: `Search model for ${modelConfig.name}:`,
-                    source: async (term) => {
-                        if (!term) {
-                            const popular = await litellm.searchModels('claude', 10);
-                            return popular.map(m => ({
-                                name: `${m.name} (${m.litellm_provider})`,
-                                value: m.name
-                            }));
-                        }
-                        const results = await litellm.searchModels(term, 15);
-                        return results.map(m => ({
-                            name: `${m.name} (${m.litellm_provider})`,
-                            value: m.name
-                        }));
-                    }
-                });
-                modelValues[modelConfig.key] = searchResult;
-                console.log(chalk.dim(`  → ${modelConfig.envVar}="${searchResult}"`));
-            } else if (action === 'manual') {
-                const manualValue = await input({
-                    message: `Enter model name for ${modelConfig.name}:`,
-                    default: modelConfig.current || undefined
-                });
-                modelValues[modelConfig.key] = manualValue?.trim() || '';
-                if (manualValue?.trim()) {
-                    console.log(chalk.dim(`  → ${modelConfig.envVar}="${manualValue.trim()}"`));
-                }
-            }
+        for (const tier of TIER_MODEL_CONFIGS) {
+            modelValues[tier.key] = await pickTierModel(tier, modelValues[tier.key], pickerContext);
         }
 
         // Check if no models are configured
@@ -441,17 +1061,17 @@ export async function runAddCommand(): Promise<void> {
             }
         }
 
-        // Get max output tokens for non-Z.AI providers
         console.log(chalk.dim('\n📊 Output Configuration'));
+        maxOutputTokens = await promptMaxOutputTokens(maxOutputTokens, modelValues.sonnetModel.trim(), litellmProvider);
+    }
 
-        const maxTokensInput = await input({
-            message: 'Max output tokens (leave empty for default):',
-            default: existingConfig.maxOutputTokens?.toString() || undefined
-        });
-
-        if (maxTokensInput) {
-            maxOutputTokens = parseInt(maxTokensInput, 10);
-            if (isNaN(maxOutputTokens)) maxOutputTokens = undefined;
+    // Every tier model receives the same limit, so check it against each of them
+    if (maxOutputTokens) {
+        const tierModels = new Set(Object.values(modelValues).map(v => v.trim()).filter(Boolean));
+        for (const modelName of tierModels) {
+            const model = await litellm.getModelInfo(modelName, litellmProvider);
+            const warning = model ? litellm.getOutputTokenWarning(model, maxOutputTokens) : null;
+            if (warning) console.log(chalk.yellow(`  ⚠️  ${warning}`));
         }
     }
 
@@ -466,6 +1086,36 @@ export async function runAddCommand(): Promise<void> {
         console.log(chalk.yellow('  ⚠️  Claude will auto-approve file operations without confirmation'));
     }
 
+    const trackUsage = await confirm({
+        message: `Record token usage? ${chalk.dim('(runs through a local proxy; see "claude-alias usage")')}`,
+        default: existingConfig.trackUsage ?? false
+    });
+
+    // Extra arguments the alias passes to claude on every launch
+    const defaultArgsInput = await input({
+        message: `Default claude arguments ${chalk.dim('(e.g. --verbose, leave empty for none)')}:`,
+        default: (existingConfig.defaultArgs || []).map(arg => quoteWordIfNeeded(arg)).join(' ') || undefined
+    });
+    const defaultArgs = splitShellWords(defaultArgsInput || '');
+
+    // Custom environment variables
+    console.log(chalk.dim('\n🌱 Custom Environment Variables'));
+    let customEnv = existingConfig.customEnv || {};
+    const customEnvCount = Object.keys(customEnv).length;
+    const editEnv = await confirm({
+        message: customEnvCount > 0
+            ? `Edit custom environment variables? (${customEnvCount} configured)`
+            : 'Add custom environment variables?',
+        default: false
+    });
+
+    if (editEnv) {
+        customEnv = await editCustomEnv(customEnv);
+    }
+    if (preset) {
+        customEnv = await promptRequiredEnv(preset, customEnv);
+    }
+
     // Create config
     const now = new Date().toISOString();
     const config: ClaudeAliasConfig = {
@@ -478,41 +1128,31 @@ export async function runAddCommand(): Promise<void> {
         subagentModel: modelValues.subagentModel?.trim() || undefined,
         maxOutputTokens,
         useAuthToken,
+        apiFormat: apiFormat === 'openai' ? apiFormat : undefined,
         skipPermissions,
+        trackUsage: trackUsage || undefined,
+        defaultArgs: defaultArgs.length > 0 ? defaultArgs : undefined,
+        customEnv: Object.keys(customEnv).length > 0 ? customEnv : undefined,
+        secretBackend: secretBackend === 'system' ? undefined : secretBackend,
+        failover: existingConfig.failover,
+        budgets: existingConfig.budgets,
         createdAt: existingConfig.createdAt || now,
         updatedAt: now
     };
 
-    // Write script
-    const writeSpinner = ora('Creating profile script...').start();
-    try {
-        const scriptPath = profile.writeScript(config);
-        writeSpinner.succeed(`Script created: ${scriptPath}`);
-    } catch (error) {
-        writeSpinner.fail('Failed to create script');
-        console.error(error);
+    if (!applyConfig(config, isEdit)) {
+        process.exitCode = 1;
         return;
     }
 
-    // Add shell alias
-    const aliasSpinner = ora('Adding shell alias...').start();
-    const scriptPath = profile.getScriptPath(aliasName);
-    const aliasSuccess = shell.addAlias(aliasName, scriptPath);
+    // Optional final step: verify key, base URL and models actually work
+    const runTest = await confirm({
+        message: 'Send a test request to verify the key and models?',
+        default: true
+    });
 
-    if (aliasSuccess) {
-        aliasSpinner.succeed(`Shell alias added: ${aliasName}`);
-    } else {
-        aliasSpinner.fail('Failed to add shell alias');
+    if (runTest) {
+        await testConnection(config, apiKey);
+        console.log();
     }
-
-    // Success message
-    console.log(chalk.green.bold(`\n✅ Alias '${aliasName}' ${isEdit ? 'updated' : 'created'} successfully!\n`));
-    console.log(chalk.dim('To use the new alias, either:'));
-    console.log(`   1. Source your shell profile: ${chalk.cyan(`source ${shell.getProfilePath()}`)}`);
-    console.log(`   2. Open a new terminal window`);
-    console.log();
-    console.log(chalk.bold('Usage:'));
-    console.log(`   ${chalk.cyan(aliasName)}`);
-    console.log();
 }
-
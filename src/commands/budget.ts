@@ -0,0 +1,284 @@
+import { parseArgs } from 'util';
+import chalk from 'chalk';
+import * as budget from '../services/budget.js';
+import * as configStore from '../services/config.js';
+import * as profile from '../services/profile.js';
+import type { BudgetCap, BudgetCapStatus, ClaudeAliasConfig } from '../types/index.js';
+
+const BAR_WIDTH = 20;
+// Caps this close to their limit are shown as a warning
+const WARN_FRACTION = 0.8;
+
+/**
+ * Save a changed budget and regenerate the alias's script
+ */
+function saveBudgets(config: ClaudeAliasConfig, budgets: BudgetCap[], trackUsage = config.trackUsage): void {
+    const updated: ClaudeAliasConfig = {
+        ...config,
+        trackUsage,
+        budgets: budgets.length > 0 ? budgets : undefined,
+        updatedAt: new Date().toISOString()
+    };
+    configStore.saveAliasConfig(updated);
+    profile.writeScript(updated);
+}
+
+/**
+ * Print one cap's use as a line with a bar
+ */
+function printCapStatus(status: BudgetCapStatus): void {
+    const { cap, used, exceeded } = status;
+    const fraction = Math.min(used / cap.limit, 1);
+    const color = exceeded ? chalk.red : fraction >= WARN_FRACTION ? chalk.yellow : chalk.green;
+    const filled = Math.round(fraction * BAR_WIDTH);
+    const bar = color('█'.repeat(filled)) + chalk.dim('░'.repeat(BAR_WIDTH - filled));
+    const amounts = `${budget.formatAmount(used, cap.unit)} / ${budget.formatAmount(cap.limit, cap.unit)}`;
+    const kind = cap.hard ? 'hard' : chalk.dim('soft');
+    const note = exceeded ? color(cap.hard ? '  reached - launches and requests are refused' : '  reached') : '';
+    console.log(`  ${cap.period.padEnd(8)} ${kind}  ${bar} ${color(`${Math.round(used / cap.limit * 100)}%`.padStart(4))}  ${amounts}${note}`);
+}
+
+/**
+ * Describe why dollar caps cannot hold an alias back (unpriced models), or null if they can
+ */
+async function describeUnpricedModels(config: ClaudeAliasConfig): Promise<string | null> {
+    const unpriced = await budget.findUnpricedModels(config);
+    if (unpriced.length === 0) return null;
+    return `${unpriced.join(', ')} ${unpriced.length === 1 ? 'has' : 'have'} no registry price, so requests to `
+        + `${unpriced.length === 1 ? 'it' : 'them'} count as $0 toward dollar caps`;
+}
+
+/**
+ * Set caps: --daily / --monthly are hard caps, --soft-daily / --soft-monthly only warn.
+ * Budgets are counted from the usage log, so usage recording is turned on.
+ * Dollar caps are refused when the alias uses models without pricing.
+ */
+async function setBudget(args: string[]): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            daily: { type: 'string' },
+            monthly: { type: 'string' },
+            'soft-daily': { type: 'string' },
+            'soft-monthly': { type: 'string' }
+        }
+    });
+
+    const alias = positionals[0];
+    const flags: [string | undefined, BudgetCap['period'], boolean][] = [
+        [values.daily, 'daily', true],
+        [values.monthly, 'monthly', true],
+        [values['soft-daily'], 'daily', false],
+        [values['soft-monthly'], 'monthly', false]
+    ];
+    if (!alias || flags.every(([value]) => value === undefined)) {
+        console.error(chalk.red('❌ Error: Usage: claude-alias budget set <alias> [--daily <cap>] [--monthly <cap>] [--soft-daily <cap>] [--soft-monthly <cap>]'));
+        console.error(chalk.dim('   Caps are amounts in USD (50usd, $50) or tokens (2M, 500k)'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const config = configStore.getAliasConfig(alias);
+    if (!config) {
+        console.error(chalk.red(`❌ Error: No stored config for '${alias}'`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const budgets = [...(config.budgets || [])];
+    const changed: BudgetCap[] = [];
+    for (const [value, period, hard] of flags) {
+        if (value === undefined) continue;
+        const parsed = budget.parseCap(value);
+        if (!parsed) {
+            console.error(chalk.red(`❌ Error: Invalid cap '${value}'. Use an amount in USD (50usd, $50) or tokens (2M, 500k).`));
+            process.exitCode = 1;
+            return;
+        }
+        // One hard and one soft cap per period
+        const cap: BudgetCap = { period, ...parsed, hard };
+        const existing = budgets.findIndex(b => b.period === period && b.hard === hard);
+        if (existing !== -1) {
+            budgets[existing] = cap;
+        } else {
+            budgets.push(cap);
+        }
+        changed.push(cap);
+    }
+
+    if (changed.some(cap => cap.unit === 'usd')) {
+        let unpriced: string | null;
+        try {
+            await budget.loadPrices();
+            unpriced = await describeUnpricedModels(config);
+        } catch (error) {
+            unpriced = `registry prices could not be loaded (${error instanceof Error ? error.message : error})`;
+        }
+        if (unpriced) {
+            console.error(chalk.red(`❌ Error: A dollar cap cannot be enforced for '${alias}': ${unpriced}.`));
+            console.error(chalk.dim('   Use a token cap instead, e.g. --monthly 20M.'));
+            process.exitCode = 1;
+            return;
+        }
+    }
+
+    saveBudgets(config, budgets, true);
+    for (const cap of changed) {
+        console.log(chalk.green(`✓ '${alias}': ${budget.describeCap(cap)}`));
+    }
+    if (!config.trackUsage) {
+        console.log(chalk.dim(`   Usage recording is now on for '${alias}' (budgets are counted from it).`));
+    }
+    if (changed.some(cap => cap.unit === 'usd')) {
+        console.log(chalk.dim('   Spend is estimated from LiteLLM registry prices.'));
+    }
+}
+
+/**
+ * Remove caps: all of them, or those of --daily / --monthly
+ */
+function clearBudget(args: string[]): void {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            daily: { type: 'boolean' },
+            monthly: { type: 'boolean' }
+        }
+    });
+
+    const alias = positionals[0];
+    if (!alias) {
+        console.error(chalk.red('❌ Error: Usage: claude-alias budget clear <alias> [--daily] [--monthly]'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const config = configStore.getAliasConfig(alias);
+    if (!config) {
+        console.error(chalk.red(`❌ Error: No stored config for '${alias}'`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const all = !values.daily && !values.monthly;
+    const remaining = (config.budgets || []).filter(cap => !all && !values[cap.period]);
+    saveBudgets(config, remaining);
+    console.log(chalk.green(`✓ Removed ${all ? 'all' : [values.daily && 'daily', values.monthly && 'monthly'].filter(Boolean).join(' and ')} caps from '${alias}'`));
+    if (remaining.length === 0 && config.trackUsage) {
+        console.log(chalk.dim(`   Usage is still recorded; stop with "claude-alias usage ${alias} --disable".`));
+    }
+}
+
+/**
+ * Show each alias's caps and how much of them is used
+ */
+async function showStatus(aliases: string[]): Promise<void> {
+    const configs = configStore.listAliasConfigs();
+    const unknown = aliases.filter(name => !configs.some(c => c.alias === name));
+    if (unknown.length > 0) {
+        console.error(chalk.red(`❌ Error: No stored config for: ${unknown.join(', ')}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const selected = aliases.length > 0
+        ? configs.filter(c => aliases.includes(c.alias))
+        : configs.filter(c => c.budgets?.length);
+    if (selected.every(c => !c.budgets?.length)) {
+        console.log(chalk.dim('\nNo budgets set. Add one with "claude-alias budget set <alias> --monthly 50usd".\n'));
+        return;
+    }
+
+    if (selected.some(c => budget.hasDollarCaps(c.budgets || []))) {
+        await budget.loadPrices();
+    }
+    for (const config of selected) {
+        console.log(chalk.bold(`\n💸 ${config.alias}`) + chalk.dim(` (${config.provider})`));
+        if (!config.budgets?.length) {
+            console.log(chalk.dim('  No budget set'));
+            continue;
+        }
+        for (const status of await budget.getBudgetStatus(config.alias, config.budgets)) {
+            printCapStatus(status);
+        }
+    }
+    console.log(chalk.dim('\n  Spend is estimated from registry prices; days and months are local time.\n'));
+}
+
+/**
+ * Check an alias's budget before launch: warns about soft caps that are reached.
+ * Returns false (after printing why) once a hard cap is reached.
+ */
+export async function checkBudgetAtLaunch(config: ClaudeAliasConfig): Promise<boolean> {
+    if (!config.budgets?.length) return true;
+
+    // Token caps need no prices, so they never wait on the registry
+    if (budget.hasDollarCaps(config.budgets)) {
+        await budget.loadPrices();
+        const unpriced = await describeUnpricedModels(config);
+        if (unpriced) {
+            console.error(chalk.yellow(`⚠️  The dollar cap on '${config.alias}' may never be reached: ${unpriced}.`));
+            console.error(chalk.dim(`   Switch to a token cap with "claude-alias budget set ${config.alias} --${config.budgets.find(cap => cap.unit === 'usd')!.period} <tokens>".`));
+        }
+    }
+
+    let allowed = true;
+    for (const { cap, used, exceeded } of await budget.getBudgetStatus(config.alias, config.budgets)) {
+        if (!exceeded) continue;
+        const message = `${budget.formatAmount(used, cap.unit)} used against the ${budget.describeCap(cap)}`;
+        if (cap.hard) {
+            console.error(chalk.red(`❌ Budget reached for '${config.alias}': ${message}`));
+            console.error(chalk.dim(`   Raise it with "claude-alias budget set ${config.alias} --${cap.period} <cap>" or remove it with "claude-alias budget clear ${config.alias}".`));
+            allowed = false;
+        } else {
+            console.error(chalk.yellow(`⚠️  Budget warning for '${config.alias}': ${message}`));
+        }
+    }
+    return allowed;
+}
+
+/**
+ * Run the budget command: manage per-alias spend and token caps
+ */
+export async function runBudgetCommand(args: string[] = []): Promise<void> {
+    const [subcommand = 'status', ...rest] = args;
+
+    switch (subcommand) {
+        case 'status':
+            await showStatus(rest);
+            return;
+
+        case 'set':
+            await setBudget(rest);
+            return;
+
+        case 'clear':
+            clearBudget(rest);
+            return;
+
+        case 'check': {
+            // Run by the alias's script before launch
+            if (!rest[0]) {
+                console.error(chalk.red('❌ Error: Usage: claude-alias budget check <alias>'));
+                process.exitCode = 1;
+                return;
+            }
+            const config = configStore.getAliasConfig(rest[0]);
+            if (!config) {
+                console.error(chalk.red(`❌ Error: No stored config for '${rest[0]}'`));
+                process.exitCode = 1;
+                return;
+            }
+            if (!await checkBudgetAtLaunch(config)) {
+                process.exitCode = 1;
+            }
+            return;
+        }
+
+        default:
+            console.error(chalk.red(`❌ Error: Unknown subcommand '${subcommand}'. Use status, set, clear or check.`));
+            process.exitCode = 1;
+    }
+}
@@ -0,0 +1,124 @@
+import { parseArgs } from 'util';
+import chalk from 'chalk';
+import ora, { type Ora } from 'ora';
+import * as configStore from '../services/config.js';
+import * as connectivity from '../services/connectivity.js';
+import * as proxy from '../services/proxy/server.js';
+import * as keychain from '../services/secrets/index.js';
+import type { ClaudeAliasConfig, ProbeResult } from '../types/index.js';
+
+/**
+ * Print probe results, one line per model
+ */
+export function printProbeResults(results: ProbeResult[]): void {
+    for (const result of results) {
+        const icon = result.ok ? chalk.green('✓') : chalk.red('✖');
+        const status = result.status !== undefined ? `HTTP ${result.status}` : 'no response';
+        console.log(`  ${icon} ${chalk.cyan(result.model)} ${chalk.dim(`(${result.tiers.join(', ')})`)} ${chalk.dim(`${status}, ${result.latencyMs}ms`)}`);
+        if (!result.ok) {
+            console.log(chalk.yellow(`      ${result.failure}: ${result.message}`));
+        }
+    }
+}
+
+/**
+ * Probe an alias's configuration and print the results.
+ * Returns true if every model responded successfully.
+ */
+export async function testConnection(
+    config: Partial<ClaudeAliasConfig> & { baseUrl: string },
+    apiKey: string,
+    timeoutMs?: number
+): Promise<boolean> {
+    // OpenAI-compatible providers are tested through the same translation proxy the alias uses
+    if (config.apiFormat === 'openai') {
+        const spinner = ora(`Testing ${connectivity.getChatCompletionsUrl(config.baseUrl)} (via the local proxy)...`).start();
+        const handle = await proxy.startProxy({ upstreams: [{ name: config.provider ?? 'provider', config, apiKey }] });
+        try {
+            const results = await connectivity.testAlias({ ...config, baseUrl: handle.url }, apiKey, timeoutMs);
+            return reportResults(spinner, results);
+        } finally {
+            await handle.close();
+        }
+    }
+
+    const spinner = ora(`Testing ${connectivity.getMessagesUrl(config.baseUrl)}...`).start();
+    return reportResults(spinner, await connectivity.testAlias(config, apiKey, timeoutMs));
+}
+
+/**
+ * Finish the test spinner and print per-model results
+ */
+function reportResults(spinner: Ora, results: ProbeResult[]): boolean {
+    const ok = results.every(r => r.ok);
+
+    if (ok) {
+        spinner.succeed('Connection test passed');
+    } else {
+        spinner.fail('Connection test failed');
+    }
+    printProbeResults(results);
+    return ok;
+}
+
+/**
+ * Run the test command: send a minimal request per tier model of an alias
+ */
+export async function runConnectionTestCommand(args: string[] = []): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            timeout: { type: 'string' }
+        }
+    });
+
+    const aliasName = positionals[0];
+    if (!aliasName) {
+        console.error(chalk.red('❌ Error: Usage: claude-alias test <alias> [--timeout <ms>]'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const config = configStore.resolveAliasConfig(aliasName);
+    if (!config.baseUrl) {
+        console.error(chalk.red(`❌ Error: No configuration found for alias '${aliasName}'`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const apiKey = await keychain.getApiKey(aliasName);
+    if (!apiKey) {
+        console.error(chalk.red(`❌ Error: No API key stored for '${aliasName}'`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const timeoutMs = values.timeout ? parseInt(values.timeout, 10) : undefined;
+    if (timeoutMs !== undefined && (isNaN(timeoutMs) || timeoutMs <= 0)) {
+        console.error(chalk.red('❌ Error: --timeout must be a positive number of milliseconds'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const authVar = config.useAuthToken ? 'Authorization: Bearer' : 'x-api-key';
+    console.log(chalk.bold(`\n🔌 Testing '${aliasName}'`) + chalk.dim(` (${config.provider || 'unknown'}, ${authVar})\n`));
+
+    let ok = await testConnection({ ...config, baseUrl: config.baseUrl }, apiKey, timeoutMs);
+
+    for (const fallback of config.failover || []) {
+        console.log(chalk.bold(`\n   Fallback: ${fallback.provider}`) + chalk.dim(` (key from '${fallback.keyAlias}')\n`));
+        const fallbackKey = await keychain.getApiKey(fallback.keyAlias);
+        if (!fallbackKey) {
+            console.log(chalk.red(`  ✖ No API key stored for '${fallback.keyAlias}'`));
+            ok = false;
+            continue;
+        }
+        ok = await testConnection(fallback, fallbackKey, timeoutMs) && ok;
+    }
+    console.log();
+
+    if (!ok) {
+        process.exitCode = 1;
+    }
+}
@@ -0,0 +1,141 @@
+import { parseArgs } from 'util';
+import chalk from 'chalk';
+import ora from 'ora';
+import * as configStore from '../services/config.js';
+import * as litellm from '../services/litellm.js';
+import * as pricing from '../services/pricing.js';
+import { reportRegistryStatus } from './registry.js';
+import type { CostEstimate, ModelTier } from '../types/index.js';
+
+const TOKEN_SUFFIXES: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+/**
+ * Parse a token amount such as 2M, 300k, 1.5m or 120000 (null if invalid)
+ */
+function parseTokenAmount(value: string): number | null {
+    const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)([kmb])?$/);
+    if (!match) return null;
+    return Math.round(parseFloat(match[1]) * (match[2] ? TOKEN_SUFFIXES[match[2]] : 1));
+}
+
+/**
+ * Parse a tier mix such as "opus=10,sonnet=70,haiku=20" (unlisted tiers get 0).
+ * Returns an error message if invalid.
+ */
+function parseMix(value: string): Record<ModelTier, number> | string {
+    const mix: Record<ModelTier, number> = { opus: 0, sonnet: 0, haiku: 0, subagent: 0 };
+    for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+        const [tier, weight] = part.split('=');
+        if (!pricing.MODEL_TIERS.includes(tier as ModelTier)) {
+            return `Unknown tier '${tier}' in --mix (use ${pricing.MODEL_TIERS.join(', ')})`;
+        }
+        const number = Number(weight);
+        if (!Number.isFinite(number) || number < 0) {
+            return `Invalid weight for '${tier}' in --mix: ${weight}`;
+        }
+        mix[tier as ModelTier] = number;
+    }
+    if (Object.values(mix).every(w => w === 0)) {
+        return '--mix must give at least one tier a positive weight';
+    }
+    return mix;
+}
+
+/**
+ * Print the per-tier breakdown of an estimate
+ */
+function printEstimate(estimate: CostEstimate, provider: string): void {
+    console.log(chalk.bold(`\n💰 ${estimate.alias}`) + chalk.dim(` (${provider})`));
+
+    if (estimate.tiers.length === 0) {
+        console.log(chalk.yellow('  No tier models configured - Claude Code would use its default models'));
+        return;
+    }
+
+    const modelWidth = Math.max(5, ...estimate.tiers.map(t => t.model.length));
+    console.log(chalk.dim(`  ${'Tier'.padEnd(9)}${'Share'.padStart(6)}  ${'Model'.padEnd(modelWidth)}  ${'In/1M'.padStart(8)}  ${'Out/1M'.padStart(8)}  ${'Cost'.padStart(10)}`));
+    for (const tier of estimate.tiers) {
+        const price = (value?: number) => (value === undefined ? '?' : litellm.formatUsd(value)).padStart(8);
+        const cost = tier.cost === undefined ? chalk.yellow('unknown'.padStart(10)) : litellm.formatUsd(tier.cost).padStart(10);
+        console.log(`  ${tier.tier.padEnd(9)}${`${Math.round(tier.share * 100)}%`.padStart(6)}  ${chalk.cyan(tier.model.padEnd(modelWidth))}  ${price(tier.inputCostPerMillion)}  ${price(tier.outputCostPerMillion)}  ${cost}`);
+    }
+    console.log(chalk.bold(`  ${'Total'.padEnd(9 + 6 + 2 + modelWidth + 2 + 8 + 2 + 8 + 2)}${litellm.formatUsd(estimate.total).padStart(10)}`));
+
+    if (estimate.unpricedShare > 0) {
+        console.log(chalk.yellow(`  ⚠️  No registry pricing for ${Math.round(estimate.unpricedShare * 100)}% of traffic - the total leaves it out`));
+    }
+    if (estimate.unconfiguredTiers.length > 0) {
+        console.log(chalk.dim(`  Tiers without a model (${estimate.unconfiguredTiers.join(', ')}) were left out of the mix`));
+    }
+}
+
+/**
+ * Run the cost command: estimate spend for one or more aliases from registry prices
+ */
+export async function runCostCommand(args: string[] = []): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            input: { type: 'string' },
+            output: { type: 'string' },
+            mix: { type: 'string' }
+        }
+    });
+
+    if (positionals.length === 0 || !values.input || !values.output) {
+        console.error(chalk.red('❌ Error: Usage: claude-alias cost <alias...> --input <tokens> --output <tokens> [--mix opus=10,sonnet=70,haiku=20]'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const inputTokens = parseTokenAmount(values.input);
+    const outputTokens = parseTokenAmount(values.output);
+    if (inputTokens === null || outputTokens === null) {
+        console.error(chalk.red('❌ Error: Token amounts must be numbers, optionally with k, M or B (e.g. 2M, 300k)'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const mix = values.mix ? parseMix(values.mix) : pricing.DEFAULT_TIER_MIX;
+    if (typeof mix === 'string') {
+        console.error(chalk.red(`❌ Error: ${mix}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const configs = positionals.map(alias => ({ ...configStore.resolveAliasConfig(alias), alias }));
+    const missing = configs.filter(c => !c.baseUrl).map(c => c.alias);
+    if (missing.length > 0) {
+        console.error(chalk.red(`❌ Error: No configuration found for alias${missing.length > 1 ? 'es' : ''} ${missing.map(a => `'${a}'`).join(', ')}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const spinner = ora('Loading LiteLLM registry...').start();
+    await litellm.fetchRegistry();
+    reportRegistryStatus(spinner);
+
+    const mixLabel = pricing.MODEL_TIERS.filter(t => mix[t] > 0).map(t => `${t} ${mix[t]}`).join(', ');
+    console.log(chalk.dim(`\n  ${inputTokens.toLocaleString()} input + ${outputTokens.toLocaleString()} output tokens, tier mix: ${mixLabel}`));
+
+    const estimates: CostEstimate[] = [];
+    for (const config of configs) {
+        const estimate = await pricing.estimateCost(config, inputTokens, outputTokens, mix);
+        printEstimate(estimate, config.provider || 'unknown');
+        estimates.push(estimate);
+    }
+
+    // Side-by-side comparison when several aliases are given
+    if (estimates.length > 1) {
+        console.log(chalk.bold('\n📊 Comparison\n'));
+        // Fully priced estimates first, cheapest first; partial totals would look misleadingly cheap
+        const sorted = [...estimates].sort((a, b) => Number(a.unpricedShare > 0) - Number(b.unpricedShare > 0) || a.total - b.total);
+        for (const estimate of sorted) {
+            const note = estimate.unpricedShare >= 1 ? chalk.yellow(' (no pricing)')
+                : estimate.unpricedShare > 0 ? chalk.yellow(' (partial pricing)') : '';
+            console.log(`  ${chalk.cyan(estimate.alias.padEnd(16))} ${litellm.formatUsd(estimate.total).padStart(10)}${note}`);
+        }
+    }
+    console.log();
+}
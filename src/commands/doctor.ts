@@ -0,0 +1,95 @@
+import { parseArgs } from 'util';
+import chalk from 'chalk';
+import * as doctor from '../services/doctor.js';
+import type { DoctorFinding, DoctorSeverity } from '../types/index.js';
+
+// Exit codes: 0 = healthy, 1 = errors found, 2 = warnings only
+const EXIT_OK = 0;
+const EXIT_ERRORS = 1;
+const EXIT_WARNINGS = 2;
+
+const SEVERITY_ICONS: Record<DoctorSeverity, string> = {
+    error: chalk.red('✖'),
+    warning: chalk.yellow('⚠'),
+    info: chalk.blue('ℹ')
+};
+
+/**
+ * Print a single finding
+ */
+function printFinding(finding: DoctorFinding, showFixHint: boolean): void {
+    console.log(`  ${SEVERITY_ICONS[finding.severity]} ${finding.message} ${chalk.dim(`[${finding.check}]`)}`);
+    if (finding.fix && showFixHint) {
+        console.log(chalk.dim(`      fix: ${finding.fix.description}`));
+    }
+}
+
+/**
+ * Compute the exit code for a set of findings
+ */
+function exitCodeFor(findings: DoctorFinding[]): number {
+    if (findings.some(f => f.severity === 'error')) return EXIT_ERRORS;
+    if (findings.some(f => f.severity === 'warning')) return EXIT_WARNINGS;
+    return EXIT_OK;
+}
+
+/**
+ * Run the doctor command: report problems with scripts, aliases, secrets and PATH
+ */
+export async function runDoctorCommand(args: string[] = []): Promise<void> {
+    const { values } = parseArgs({
+        args,
+        options: {
+            fix: { type: 'boolean' }
+        }
+    });
+
+    console.log(chalk.bold('\n🩺 claude-alias doctor\n'));
+
+    let findings = await doctor.runChecks();
+
+    if (findings.length === 0) {
+        console.log(chalk.green('  ✓ Everything looks good.\n'));
+        process.exitCode = EXIT_OK;
+        return;
+    }
+
+    for (const finding of findings) {
+        printFinding(finding, !values.fix);
+    }
+
+    if (values.fix) {
+        const fixable = findings.filter(f => f.fix);
+        if (fixable.length > 0) {
+            console.log(chalk.bold('\n🔧 Applying fixes\n'));
+        }
+
+        for (const finding of fixable) {
+            let ok = false;
+            try {
+                ok = await finding.fix!.apply();
+            } catch (error) {
+                console.error(chalk.dim(`      ${error instanceof Error ? error.message : error}`));
+            }
+            console.log(`  ${ok ? chalk.green('✓') : chalk.red('✖')} ${finding.fix!.description}`);
+        }
+
+        // Re-run checks so the exit code reflects what is still wrong
+        findings = await doctor.runChecks();
+        console.log(chalk.bold('\nRemaining issues:'));
+        if (findings.length === 0) {
+            console.log(chalk.green('  ✓ None'));
+        }
+        for (const finding of findings) {
+            printFinding(finding, false);
+        }
+    } else if (findings.some(f => f.fix)) {
+        console.log(chalk.dim('\nRun "claude-alias doctor --fix" to apply the suggested fixes.'));
+    }
+
+    const errors = findings.filter(f => f.severity === 'error').length;
+    const warnings = findings.filter(f => f.severity === 'warning').length;
+    console.log(chalk.bold(`\n${errors} error(s), ${warnings} warning(s)\n`));
+
+    process.exitCode = exitCodeFor(findings);
+}
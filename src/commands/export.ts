@@ -0,0 +1,107 @@
+import { parseArgs } from 'util';
+import { writeFileSync } from 'fs';
+import chalk from 'chalk';
+import { password } from '@inquirer/prompts';
+import * as bundle from '../services/bundle.js';
+import * as configStore from '../services/config.js';
+import * as secrets from '../services/secrets/index.js';
+
+/**
+ * Get the passphrase protecting exported keys: CLAUDE_ALIAS_PASSPHRASE, or
+ * prompted twice on the terminal (on stderr, so stdout stays the bundle).
+ * Returns null if none could be obtained.
+ */
+async function getExportPassphrase(): Promise<string | null> {
+    const fromEnv = process.env.CLAUDE_ALIAS_PASSPHRASE;
+    if (fromEnv) {
+        const check = bundle.validatePassphrase(fromEnv);
+        if (check !== true) {
+            console.error(chalk.red(`❌ Error: CLAUDE_ALIAS_PASSPHRASE: ${check}`));
+            return null;
+        }
+        return fromEnv;
+    }
+
+    if (!process.stdin.isTTY) {
+        console.error(chalk.red('❌ Error: --include-secrets needs a passphrase: set CLAUDE_ALIAS_PASSPHRASE or run in a terminal'));
+        return null;
+    }
+
+    const context = { output: process.stderr };
+    const passphrase = await password({
+        message: 'Passphrase to encrypt the API keys:',
+        mask: true,
+        validate: bundle.validatePassphrase
+    }, context);
+    await password({
+        message: 'Repeat passphrase:',
+        mask: true,
+        validate: (value) => value === passphrase ? true : 'Passphrases do not match'
+    }, context);
+    return passphrase;
+}
+
+/**
+ * Run the export command: write alias configs as a shareable bundle.
+ * API keys are left out unless --include-secrets is given, in which case
+ * they are encrypted with a passphrase.
+ */
+export async function runExportCommand(args: string[] = []): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            'include-secrets': { type: 'boolean' },
+            output: { type: 'string', short: 'o' }
+        }
+    });
+
+    const allConfigs = configStore.listAliasConfigs();
+    const unknown = positionals.filter(name => !allConfigs.some(c => c.alias === name));
+    if (unknown.length > 0) {
+        console.error(chalk.red(`❌ Error: No stored config for: ${unknown.join(', ')}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const configs = positionals.length > 0
+        ? allConfigs.filter(c => positionals.includes(c.alias))
+        : allConfigs;
+
+    if (configs.length === 0) {
+        console.error(chalk.yellow('No managed aliases to export.'));
+        process.exitCode = 1;
+        return;
+    }
+
+    let keys: Record<string, string> | undefined;
+    let passphrase: string | undefined;
+    if (values['include-secrets']) {
+        keys = {};
+        for (const config of configs) {
+            const key = await secrets.getApiKey(config.alias);
+            if (key) {
+                keys[config.alias] = key;
+            } else {
+                console.error(chalk.yellow(`⚠️  No API key stored for '${config.alias}'; it is exported without one`));
+            }
+        }
+
+        passphrase = await getExportPassphrase() ?? undefined;
+        if (!passphrase) {
+            process.exitCode = 1;
+            return;
+        }
+    }
+
+    const content = JSON.stringify(bundle.createBundle(configs, keys, passphrase), null, 2) + '\n';
+    const keyNote = keys ? `with ${Object.keys(keys).length} encrypted API key(s)` : 'without API keys';
+
+    if (values.output) {
+        writeFileSync(values.output, content, { mode: 0o600 });
+        console.error(chalk.green(`✓ Exported ${configs.length} alias(es) ${keyNote} to ${values.output}`));
+    } else {
+        process.stdout.write(content);
+        console.error(chalk.dim(`Exported ${configs.length} alias(es) ${keyNote}`));
+    }
+}
@@ -0,0 +1,203 @@
+import { parseArgs } from 'util';
+import chalk from 'chalk';
+import * as configStore from '../services/config.js';
+import * as profile from '../services/profile.js';
+import * as secrets from '../services/secrets/index.js';
+import type { ClaudeAliasConfig, FailoverUpstream } from '../types/index.js';
+
+/**
+ * Save a changed failover list and regenerate the alias's script
+ */
+function saveFailover(config: ClaudeAliasConfig, failover: FailoverUpstream[]): boolean {
+    const updated: ClaudeAliasConfig = {
+        ...config,
+        failover: failover.length > 0 ? failover : undefined,
+        updatedAt: new Date().toISOString()
+    };
+    try {
+        configStore.saveAliasConfig(updated);
+        profile.writeScript(updated);
+        return true;
+    } catch (error) {
+        console.error(chalk.red(`❌ Error: ${error instanceof Error ? error.message : error}`));
+        process.exitCode = 1;
+        return false;
+    }
+}
+
+/**
+ * Look up an alias's stored config, reporting if there is none
+ */
+function requireConfig(alias: string | undefined, usage: string): ClaudeAliasConfig | null {
+    if (!alias) {
+        console.error(chalk.red(`❌ Error: Usage: ${usage}`));
+        process.exitCode = 1;
+        return null;
+    }
+    const config = configStore.getAliasConfig(alias);
+    if (!config) {
+        console.error(chalk.red(`❌ Error: No stored config for '${alias}'`));
+        process.exitCode = 1;
+    }
+    return config;
+}
+
+/**
+ * Print the upstreams of one alias, or of every alias that has fallbacks
+ */
+async function showFailover(alias?: string): Promise<void> {
+    let configs = configStore.listAliasConfigs().filter(c => c.failover?.length);
+    if (alias) {
+        const config = requireConfig(alias, 'claude-alias failover list [alias]');
+        if (!config) return;
+        configs = [config];
+    }
+
+    if (configs.length === 0) {
+        console.log(chalk.dim('\nNo alias has fallback providers. Add one with "claude-alias failover add <alias> <from-alias>".\n'));
+        return;
+    }
+
+    for (const config of configs) {
+        console.log(chalk.bold(`\n🔀 ${config.alias}\n`));
+        console.log(`  1. ${chalk.cyan(config.provider)} ${chalk.dim(config.baseUrl)}`);
+        for (const [index, fallback] of (config.failover || []).entries()) {
+            const hasKey = await secrets.verifyApiKey(fallback.keyAlias);
+            const key = hasKey
+                ? chalk.dim(`key from '${fallback.keyAlias}'`)
+                : chalk.red(`no key stored for '${fallback.keyAlias}'`);
+            console.log(`  ${index + 2}. ${chalk.cyan(fallback.provider)} ${chalk.dim(fallback.baseUrl)} ${key}`);
+            const tiers = [
+                ['opus', fallback.opusModel],
+                ['sonnet', fallback.sonnetModel],
+                ['haiku', fallback.haikuModel],
+                ['subagent', fallback.subagentModel]
+            ].filter(([, model]) => model).map(([tier, model]) => `${tier}=${model}`);
+            if (tiers.length > 0) {
+                console.log(chalk.dim(`     ${tiers.join(', ')}`));
+            }
+        }
+        if (!config.failover?.length) {
+            console.log(chalk.dim('  (no fallbacks)'));
+        }
+    }
+    console.log();
+}
+
+/**
+ * Add another alias's provider as a fallback: its base URL, token type, API format and
+ * tier models are copied, and its stored key is used. Tier models can be overridden.
+ */
+async function addFallback(args: string[]): Promise<void> {
+    const usage = 'claude-alias failover add <alias> <from-alias> [--opus-model <m>] [--sonnet-model <m>] [--haiku-model <m>] [--subagent-model <m>]';
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            'opus-model': { type: 'string' },
+            'sonnet-model': { type: 'string' },
+            'haiku-model': { type: 'string' },
+            'subagent-model': { type: 'string' }
+        }
+    });
+
+    const [alias, from] = positionals;
+    const config = requireConfig(alias, usage);
+    if (!config) return;
+    const source = requireConfig(from, usage);
+    if (!source) return;
+
+    if (source.alias === config.alias) {
+        console.error(chalk.red('❌ Error: An alias cannot fail over to itself'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const fallback: FailoverUpstream = {
+        provider: source.provider,
+        baseUrl: source.baseUrl,
+        keyAlias: source.alias,
+        useAuthToken: source.useAuthToken,
+        apiFormat: source.apiFormat,
+        opusModel: values['opus-model']?.trim() || source.opusModel || source.model,
+        sonnetModel: values['sonnet-model']?.trim() || source.sonnetModel,
+        haikuModel: values['haiku-model']?.trim() || source.haikuModel || source.smallFastModel,
+        subagentModel: values['subagent-model']?.trim() || source.subagentModel
+    };
+
+    // Adding the same source again refreshes it in place
+    const failover = [...(config.failover || [])];
+    const existing = failover.findIndex(f => f.keyAlias === source.alias);
+    if (existing !== -1) {
+        failover[existing] = fallback;
+    } else {
+        failover.push(fallback);
+    }
+
+    if (!saveFailover(config, failover)) return;
+
+    const position = (existing !== -1 ? existing : failover.length - 1) + 2;
+    console.log(chalk.green(`✓ '${alias}' fails over to ${source.provider} (from '${source.alias}') as upstream #${position}`));
+    if (!await secrets.verifyApiKey(source.alias)) {
+        console.log(chalk.yellow(`⚠️  No API key stored for '${source.alias}' yet; the fallback is skipped until there is one`));
+    }
+    console.log(chalk.dim(`   Script updated: ${profile.getScriptPath(config.alias)}`));
+}
+
+/**
+ * Remove a fallback, by source alias or position (as shown by "failover list")
+ */
+function removeFallback(args: string[]): void {
+    const [alias, target] = args;
+    const config = requireConfig(target ? alias : undefined, 'claude-alias failover remove <alias> <from-alias|position>');
+    if (!config) return;
+
+    const failover = config.failover || [];
+    const position = Number(target);
+    const index = Number.isInteger(position)
+        ? position - 2
+        : failover.findIndex(f => f.keyAlias === target);
+
+    if (index < 0 || index >= failover.length) {
+        console.error(chalk.red(`❌ Error: '${alias}' has no fallback '${target}'. See "claude-alias failover list ${alias}".`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const [removed] = failover.splice(index, 1);
+    if (!saveFailover(config, failover)) return;
+    console.log(chalk.green(`✓ '${alias}' no longer fails over to ${removed.provider} (from '${removed.keyAlias}')`));
+}
+
+/**
+ * Run the failover command: manage the fallback providers an alias's proxy tries
+ * when its own provider is rate limited, failing or unreachable
+ */
+export async function runFailoverCommand(args: string[] = []): Promise<void> {
+    const [subcommand = 'list', ...rest] = args;
+
+    switch (subcommand) {
+        case 'list':
+            await showFailover(rest[0]);
+            return;
+
+        case 'add':
+            await addFallback(rest);
+            return;
+
+        case 'remove':
+            removeFallback(rest);
+            return;
+
+        case 'clear': {
+            const config = requireConfig(rest[0], 'claude-alias failover clear <alias>');
+            if (!config || !saveFailover(config, [])) return;
+            console.log(chalk.green(`✓ Removed all fallbacks from '${config.alias}'`));
+            return;
+        }
+
+        default:
+            console.error(chalk.red(`❌ Error: Unknown subcommand '${subcommand}'. Use list, add, remove or clear.`));
+            process.exitCode = 1;
+    }
+}
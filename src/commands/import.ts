@@ -0,0 +1,232 @@
+import { parseArgs } from 'util';
+import { existsSync, readFileSync } from 'fs';
+import chalk from 'chalk';
+import { input, password, select } from '@inquirer/prompts';
+import * as bundle from '../services/bundle.js';
+import * as configStore from '../services/config.js';
+import * as profile from '../services/profile.js';
+import * as secrets from '../services/secrets/index.js';
+import * as shell from '../services/shell.js';
+import type { AliasBundle, ClaudeAliasConfig, ImportConflictAction } from '../types/index.js';
+
+const CONFLICT_ACTIONS: ImportConflictAction[] = ['skip', 'overwrite', 'rename'];
+const MAX_PASSPHRASE_ATTEMPTS = 3;
+
+/**
+ * Check whether an alias name is already taken by a script, shell alias or stored config
+ */
+function isTaken(alias: string): boolean {
+    return profile.profileExists(alias) || shell.aliasExists(alias) || !!configStore.getAliasConfig(alias);
+}
+
+/**
+ * Find a free name for a renamed alias (name-2, name-3, ...)
+ */
+function nextFreeName(alias: string): string {
+    let n = 2;
+    while (isTaken(`${alias}-${n}`)) n++;
+    return `${alias}-${n}`;
+}
+
+/**
+ * Decrypt the bundle's API keys with CLAUDE_ALIAS_PASSPHRASE or a prompted passphrase.
+ * Returns null (after reporting why) if they cannot be decrypted.
+ */
+async function unlockSecrets(data: AliasBundle, interactive: boolean): Promise<Record<string, string> | null> {
+    const envelope = data.secrets!;
+    const fromEnv = process.env.CLAUDE_ALIAS_PASSPHRASE;
+
+    if (fromEnv || !interactive) {
+        if (!fromEnv) {
+            console.error(chalk.red('❌ Error: The bundle contains encrypted API keys: set CLAUDE_ALIAS_PASSPHRASE to import it'));
+            return null;
+        }
+        try {
+            return bundle.decryptSecrets(envelope, fromEnv);
+        } catch (error) {
+            console.error(chalk.red(`❌ Error: ${error instanceof Error ? error.message : error}`));
+            return null;
+        }
+    }
+
+    for (let attempt = 1; attempt <= MAX_PASSPHRASE_ATTEMPTS; attempt++) {
+        const passphrase = await password({ message: 'Bundle passphrase (for the API keys):', mask: true });
+        try {
+            return bundle.decryptSecrets(envelope, passphrase);
+        } catch (error) {
+            console.log(chalk.red(`  ${error instanceof Error ? error.message : error}`));
+        }
+    }
+    console.error(chalk.red('❌ Error: Could not decrypt the API keys'));
+    return null;
+}
+
+/**
+ * Run the import command: recreate aliases from a bundle written by export.
+ * Conflicting names are skipped, overwritten or renamed (--on-conflict, or asked per alias).
+ * Keys missing from the bundle are prompted for; they can also be added later with "add".
+ */
+export async function runImportCommand(args: string[] = []): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            'on-conflict': { type: 'string' }
+        }
+    });
+
+    const file = positionals[0];
+    if (!file) {
+        console.error(chalk.red('❌ Error: Usage: claude-alias import <file> [--on-conflict skip|overwrite|rename]'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const onConflict = values['on-conflict'] as ImportConflictAction | undefined;
+    if (onConflict && !CONFLICT_ACTIONS.includes(onConflict)) {
+        console.error(chalk.red(`❌ Error: --on-conflict must be one of: ${CONFLICT_ACTIONS.join(', ')}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    if (file !== '-' && !existsSync(file)) {
+        console.error(chalk.red(`❌ Error: File not found: ${file}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    let data: AliasBundle;
+    try {
+        data = bundle.parseBundle(readFileSync(file === '-' ? 0 : file, 'utf-8'));
+    } catch (error) {
+        console.error(chalk.red(`❌ Error: ${file}: ${error instanceof Error ? error.message : error}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    if (!await secrets.isKeychainAvailable(secrets.getDefaultBackend())) {
+        console.error(chalk.red('❌ Error: Secure API key storage is not available on this system.'));
+        process.exitCode = 1;
+        return;
+    }
+
+    // A bundle piped on stdin leaves no terminal to prompt on
+    const interactive = !!process.stdin.isTTY && file !== '-';
+
+    let bundleKeys: Record<string, string> = {};
+    if (data.secrets) {
+        const unlocked = await unlockSecrets(data, interactive);
+        if (!unlocked) {
+            process.exitCode = 1;
+            return;
+        }
+        bundleKeys = unlocked;
+    }
+
+    console.log(chalk.bold(`\n📦 Importing ${data.aliases.length} alias(es) from ${file === '-' ? 'stdin' : file}\n`));
+
+    const now = new Date().toISOString();
+    const imported: string[] = [];
+    const missingKeys: string[] = [];
+    let skipped = 0;
+
+    for (const entry of data.aliases) {
+        let target = entry.alias;
+
+        if (isTaken(target)) {
+            const action: ImportConflictAction = onConflict ?? (interactive
+                ? await select<ImportConflictAction>({
+                    message: `'${target}' already exists:`,
+                    choices: [
+                        { name: 'Skip', value: 'skip' },
+                        { name: 'Overwrite', value: 'overwrite' },
+                        { name: 'Import under a new name', value: 'rename' }
+                    ]
+                })
+                : 'skip');
+
+            if (action === 'skip') {
+                console.log(`${chalk.yellow('–')} ${chalk.cyan(target)} ${chalk.dim('already exists, skipped')}`);
+                skipped++;
+                continue;
+            }
+
+            if (action === 'rename') {
+                const suggested = nextFreeName(target);
+                target = interactive
+                    ? (await input({
+                        message: `New alias name for '${entry.alias}':`,
+                        default: suggested,
+                        validate: (value) => {
+                            const name = value.trim();
+                            const check = profile.validateAliasName(name);
+                            if (check !== true) return check;
+                            return isTaken(name) ? `'${name}' already exists` : true;
+                        }
+                    })).trim()
+                    : suggested;
+            }
+        }
+
+        // Keys go to this machine's storage, not the exporter's
+        const existing = configStore.getAliasConfig(target);
+        const secretBackend = existing ? existing.secretBackend ?? 'system' : secrets.getDefaultBackend();
+        const backendCheck = secrets.validateAliasBackend(target, secretBackend);
+        if (backendCheck !== true) {
+            console.error(chalk.red(`❌ Error: ${target}: ${backendCheck}`));
+            process.exitCode = 1;
+            continue;
+        }
+        const config: ClaudeAliasConfig = {
+            ...entry,
+            alias: target,
+            secretBackend: secretBackend === 'system' ? undefined : secretBackend,
+            createdAt: existing?.createdAt || now,
+            updatedAt: now
+        };
+
+        // API key: from the bundle, already stored (overwrite), or asked for
+        let apiKey: string | undefined = secrets.isReadOnly(secretBackend) ? undefined : bundleKeys[entry.alias];
+        if (!apiKey && !secrets.isReadOnly(secretBackend) && !await secrets.verifyApiKey(target, secretBackend) && interactive) {
+            apiKey = (await password({
+                message: `API key for '${target}' (${config.provider}, leave empty to add later):`,
+                mask: true
+            })).replace(/[\r\n\t]/g, '').trim() || undefined;
+        }
+        if (apiKey && !await secrets.setApiKey(target, apiKey, secretBackend)) {
+            console.error(chalk.red(`❌ Error: Failed to save API key for '${target}'`));
+            apiKey = undefined;
+        }
+        if (!apiKey && !await secrets.verifyApiKey(target, secretBackend)) {
+            missingKeys.push(target);
+        }
+
+        try {
+            configStore.saveAliasConfig(config);
+            profile.writeScript(config);
+        } catch (error) {
+            console.error(chalk.red(`❌ Error: ${target}: ${error instanceof Error ? error.message : error}`));
+            process.exitCode = 1;
+            continue;
+        }
+        if (!shell.addAlias(target, profile.getScriptPath(target), shell.getAliasArgs(config))) {
+            console.error(chalk.red(`❌ Error: Failed to add shell alias '${target}'`));
+            process.exitCode = 1;
+        }
+
+        imported.push(target);
+        const renamed = target !== entry.alias ? chalk.dim(` (from ${entry.alias})`) : '';
+        console.log(`${chalk.green('✓')} ${chalk.cyan(target)}${renamed} ${chalk.dim(`→ ${config.provider}`)}`);
+    }
+
+    console.log(chalk.bold(`\nImported ${imported.length} alias(es)`) + (skipped > 0 ? chalk.dim(`, skipped ${skipped}`) : ''));
+
+    if (missingKeys.length > 0) {
+        console.log(chalk.yellow(`\n⚠️  No API key stored for: ${missingKeys.join(', ')}`));
+        console.log(chalk.dim(`   Set one with "claude-alias add <alias>" before using the alias.`));
+    }
+    if (imported.length > 0) {
+        console.log(chalk.dim(`\nTo use the imported aliases, run: source ${shell.getProfilePath()}`));
+    }
+    console.log();
+}
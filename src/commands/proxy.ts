@@ -0,0 +1,191 @@
+import { parseArgs } from 'util';
+import { appendFileSync, writeFileSync } from 'fs';
+import { randomBytes } from 'crypto';
+import chalk from 'chalk';
+import * as budget from '../services/budget.js';
+import * as configStore from '../services/config.js';
+import * as profile from '../services/profile.js';
+import * as proxy from '../services/proxy/server.js';
+import * as secrets from '../services/secrets/index.js';
+import * as usage from '../services/usage.js';
+import type { ClaudeAliasConfig } from '../types/index.js';
+
+// How often the proxy checks that the launching script is still running
+const PARENT_CHECK_MS = 2000;
+
+/**
+ * Check whether a process is still running
+ */
+function isRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Start the proxy for an alias: its provider, then each fallback with a stored key,
+ * recording usage and enforcing the budget as configured.
+ * `notify` receives messages for the user, such as a budget cap crossed mid-session.
+ */
+export async function startAliasProxy(
+    config: ClaudeAliasConfig,
+    apiKey: string,
+    options: { token: string; port?: number; log: (line: string) => void; notify?: (message: string) => void }
+): Promise<{ handle: proxy.ProxyHandle; upstreams: proxy.ProxyUpstream[]; guard?: budget.BudgetGuard }> {
+    const { log, notify } = options;
+    const upstreams: proxy.ProxyUpstream[] = [{ name: config.provider, config, apiKey }];
+    for (const fallback of config.failover || []) {
+        const fallbackKey = await secrets.getApiKey(fallback.keyAlias);
+        if (!fallbackKey) {
+            console.error(chalk.yellow(`⚠️  No API key stored for '${fallback.keyAlias}': not failing over to ${fallback.provider}`));
+            continue;
+        }
+        upstreams.push({ name: fallback.provider, config: fallback, apiKey: fallbackKey });
+    }
+
+    let guard: budget.BudgetGuard | undefined;
+    if (config.budgets?.length) {
+        if (budget.hasDollarCaps(config.budgets)) await budget.loadPrices();
+        guard = await budget.createBudgetGuard(config.alias, config.budgets);
+    }
+
+    const handle = await proxy.startProxy({
+        upstreams,
+        token: options.token,
+        port: options.port,
+        log,
+        // Budgets are counted from the usage log, so they always record usage
+        onUsage: config.trackUsage || guard
+            ? record => {
+                try {
+                    usage.appendUsage(config.alias, record);
+                } catch (error) {
+                    log(`Could not record usage: ${error instanceof Error ? error.message : error}`);
+                }
+                // Fails open: the request is already in the usage log, so the next look still counts it
+                guard?.update().then(crossed => {
+                    for (const cap of crossed) {
+                        log(`${new Date().toISOString()} Reached the ${cap}`);
+                        notify?.(`'${config.alias}' reached its ${cap} during this session`);
+                    }
+                }).catch(error => {
+                    log(`${new Date().toISOString()} Could not count a request toward the budget: ${error instanceof Error ? error.message : error}`);
+                });
+            }
+            : undefined,
+        checkBudget: guard ? () => guard.check() : undefined
+    });
+    return { handle, upstreams, guard };
+}
+
+/**
+ * Run the proxy command: serve an alias's provider (and its fallbacks) to Claude Code on a local port.
+ * Generated scripts start it with the key and a session token in the environment
+ * (CLAUDE_ALIAS_PROXY_KEY, CLAUDE_ALIAS_PROXY_TOKEN), read the port from --port-file
+ * and show what the proxy appends to --notice-file when Claude Code exits.
+ * Runs until interrupted, or until --parent-pid exits.
+ */
+export async function runProxyCommand(args: string[] = []): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            port: { type: 'string' },
+            'port-file': { type: 'string' },
+            'notice-file': { type: 'string' },
+            'parent-pid': { type: 'string' }
+        }
+    });
+
+    const aliasName = positionals[0];
+    if (!aliasName) {
+        console.error(chalk.red('❌ Error: Usage: claude-alias proxy <alias> [--port <n>] [--port-file <file>]'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const config = configStore.getAliasConfig(aliasName);
+    if (!config) {
+        console.error(chalk.red(`❌ Error: No stored config for '${aliasName}'`));
+        process.exitCode = 1;
+        return;
+    }
+    if (!profile.usesProxy(config)) {
+        console.error(chalk.red(`❌ Error: '${aliasName}' talks to an Anthropic-compatible API directly, with no fallbacks, usage tracking or budget, so it needs no proxy`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const port = values.port !== undefined ? Number(values.port) : 0;
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        console.error(chalk.red('❌ Error: --port must be a port number (0 for any free port)'));
+        process.exitCode = 1;
+        return;
+    }
+    const parentPid = values['parent-pid'] !== undefined ? Number(values['parent-pid']) : undefined;
+    if (parentPid !== undefined && !(Number.isInteger(parentPid) && parentPid > 0)) {
+        console.error(chalk.red('❌ Error: --parent-pid must be a process id'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const apiKey = process.env.CLAUDE_ALIAS_PROXY_KEY || await secrets.getApiKey(aliasName);
+    if (!apiKey) {
+        console.error(chalk.red(`❌ Error: No API key stored for '${aliasName}'`));
+        process.exitCode = 1;
+        return;
+    }
+
+    // Without a token from the script, make one up so other local users cannot borrow the key
+    const generatedToken = !process.env.CLAUDE_ALIAS_PROXY_TOKEN;
+    const token = process.env.CLAUDE_ALIAS_PROXY_TOKEN || randomBytes(16).toString('hex');
+
+    const { handle, upstreams, guard } = await startAliasProxy(config, apiKey, {
+        token,
+        port,
+        log: line => process.stderr.write(`${line}\n`),
+        notify: message => {
+            const noticeFile = values['notice-file'];
+            if (noticeFile) appendFileSync(noticeFile, `${message}\n`, { mode: 0o600 });
+        }
+    });
+
+    if (values['port-file']) {
+        writeFileSync(values['port-file'], String(handle.port), { mode: 0o600 });
+    }
+    const format = config.apiFormat === 'openai' ? ' (OpenAI Chat Completions)' : '';
+    console.error(chalk.green(`✓ Proxy for '${aliasName}' listening on ${handle.url} → ${config.baseUrl}${format}`));
+    if (upstreams.length > 1) {
+        console.error(chalk.dim(`  Fails over to: ${upstreams.slice(1).map(u => u.name).join(', ')}`));
+    }
+    if (config.trackUsage || guard) {
+        console.error(chalk.dim(`  Recording usage to ${usage.getUsagePath(aliasName)}`));
+    }
+    if (config.budgets?.length) {
+        console.error(chalk.dim(`  Budget: ${config.budgets.map(budget.describeCap).join(', ')}`));
+    }
+    if (generatedToken) {
+        console.error(chalk.dim(`  Use it with: ANTHROPIC_BASE_URL=${handle.url} ANTHROPIC_AUTH_TOKEN=${token} claude`));
+    }
+
+    await new Promise<void>(resolve => {
+        const shutdown = () => {
+            handle.close().then(resolve);
+        };
+        process.once('SIGINT', shutdown);
+        process.once('SIGTERM', shutdown);
+        process.once('SIGHUP', shutdown);
+
+        if (parentPid !== undefined) {
+            const timer = setInterval(() => {
+                if (!isRunning(parentPid)) {
+                    clearInterval(timer);
+                    shutdown();
+                }
+            }, PARENT_CHECK_MS);
+        }
+    });
+}
@@ -0,0 +1,139 @@
+import { parseArgs } from 'util';
+import { existsSync, readFileSync } from 'fs';
+import chalk from 'chalk';
+import { confirm } from '@inquirer/prompts';
+import * as configStore from '../services/config.js';
+import * as profile from '../services/profile.js';
+import { unifiedDiff } from '../utils/diff.js';
+import type { ClaudeAliasConfig } from '../types/index.js';
+
+interface RegeneratePlan {
+    config: ClaudeAliasConfig;
+    scriptPath: string;
+    oldContent: string;
+    newContent: string;
+    handEdited: boolean;
+}
+
+/**
+ * Print a colorized unified diff
+ */
+function printDiff(diff: string): void {
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('+++') || line.startsWith('---')) {
+            console.log(chalk.bold(line));
+        } else if (line.startsWith('@@')) {
+            console.log(chalk.cyan(line));
+        } else if (line.startsWith('+')) {
+            console.log(chalk.green(line));
+        } else if (line.startsWith('-')) {
+            console.log(chalk.red(line));
+        } else {
+            console.log(chalk.dim(line));
+        }
+    }
+}
+
+/**
+ * Build the regeneration plan for one alias.
+ * Returns null if the script is already up to date.
+ */
+function planRegeneration(config: ClaudeAliasConfig, now: string): RegeneratePlan | null {
+    const scriptPath = profile.getScriptPath(config.alias);
+    const oldContent = existsSync(scriptPath) ? readFileSync(scriptPath, 'utf-8') : '';
+
+    // Render with the stored timestamp first so an unchanged script is not rewritten
+    if (profile.generateScript(config) === oldContent) {
+        return null;
+    }
+
+    const updated: ClaudeAliasConfig = { ...config, updatedAt: now };
+    return {
+        config: updated,
+        scriptPath,
+        oldContent,
+        newContent: profile.generateScript(updated),
+        handEdited: oldContent !== '' && profile.isScriptModified(oldContent) === true
+    };
+}
+
+/**
+ * Run the regenerate command: re-render profile scripts from stored config
+ */
+export async function runRegenerateCommand(args: string[] = []): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            yes: { type: 'boolean', short: 'y' },
+            force: { type: 'boolean' }
+        }
+    });
+
+    const allConfigs = configStore.listAliasConfigs();
+    const unknown = positionals.filter(name => !allConfigs.some(c => c.alias === name));
+    if (unknown.length > 0) {
+        console.error(chalk.red(`❌ Error: No stored config for: ${unknown.join(', ')}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const configs = positionals.length > 0
+        ? allConfigs.filter(c => positionals.includes(c.alias))
+        : allConfigs;
+
+    if (configs.length === 0) {
+        console.log(chalk.yellow('No managed aliases found.'));
+        console.log(chalk.dim('Run "claude-alias add" to create one.'));
+        return;
+    }
+
+    const now = new Date().toISOString();
+    let written = 0;
+    let skipped = 0;
+
+    for (const config of configs) {
+        const plan = planRegeneration(config, now);
+
+        if (!plan) {
+            console.log(`${chalk.green('✓')} ${chalk.cyan(config.alias)} ${chalk.dim('up to date')}`);
+            continue;
+        }
+
+        console.log(chalk.bold(`\n🔄 ${config.alias}`) + chalk.dim(` (${plan.scriptPath})`));
+        if (!plan.oldContent) {
+            console.log(chalk.yellow('   Script is missing and will be recreated.'));
+        }
+        printDiff(unifiedDiff(plan.oldContent, plan.newContent, `${plan.scriptPath} (current)`, `${plan.scriptPath} (regenerated)`));
+
+        if (plan.handEdited) {
+            console.log(chalk.yellow(`\n⚠️  ${config.alias}: script was edited by hand. Regenerating will discard those edits.`));
+        }
+
+        let apply: boolean;
+        if (values.yes) {
+            // Never clobber hand edits silently
+            apply = !plan.handEdited || !!values.force;
+            if (!apply) {
+                console.log(chalk.dim(`   Skipped (use --force to overwrite hand-edited scripts).`));
+            }
+        } else {
+            apply = await confirm({
+                message: `Write regenerated script for '${config.alias}'?`,
+                default: !plan.handEdited
+            });
+        }
+
+        if (!apply) {
+            skipped++;
+            continue;
+        }
+
+        configStore.saveAliasConfig(plan.config);
+        profile.writeScript(plan.config);
+        written++;
+        console.log(chalk.green(`✓ ${config.alias}: script regenerated`));
+    }
+
+    console.log(chalk.bold(`\nRegenerated ${written} script(s)`) + (skipped > 0 ? chalk.dim(`, skipped ${skipped}`) : '') + '\n');
+}
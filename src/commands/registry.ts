@@ -0,0 +1,115 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import * as litellm from '../services/litellm.js';
+import * as settings from '../services/settings.js';
+import type { RegistryStatus } from '../types/index.js';
+
+/**
+ * Format how long ago an ISO timestamp was
+ */
+function formatAge(iso: string): string {
+    const minutes = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 60000));
+    if (minutes < 60) return `${minutes}m ago`;
+    const hours = Math.round(minutes / 60);
+    if (hours < 48) return `${hours}h ago`;
+    return `${Math.round(hours / 24)}d ago`;
+}
+
+/**
+ * Describe where the loaded registry came from, for spinner messages
+ */
+export function describeRegistryStatus(status: RegistryStatus): string {
+    switch (status.source) {
+        case 'file':
+            return `Loaded ${status.modelCount} models from ${status.path}`;
+        case 'network':
+            return `Loaded ${status.modelCount} models (refreshed, cached at ${status.path})`;
+        case 'cache':
+            return status.stale
+                ? `Using cached registry from ${formatAge(status.fetchedAt!)} - refresh failed (${status.error}); model data may be outdated`
+                : `Loaded ${status.modelCount} models from cache (${formatAge(status.fetchedAt!)})`;
+        default:
+            return status.path
+                ? `Could not read registry file ${status.path}: ${status.error}`
+                : `Registry unavailable (${status.error}) and no cached copy - enter model names manually`;
+    }
+}
+
+/**
+ * Show a loaded registry's status on a spinner (warn when stale, fail when empty)
+ */
+export function reportRegistryStatus(spinner: ReturnType<typeof ora>): void {
+    const status = litellm.getRegistryStatus();
+    const message = describeRegistryStatus(status);
+    if (status.source === 'none') {
+        spinner.fail(message);
+    } else if (status.stale) {
+        spinner.warn(message);
+    } else {
+        spinner.succeed(message);
+    }
+}
+
+/**
+ * Print the registry source, cache age and TTL without touching the network
+ */
+function showStatus(): void {
+    const override = litellm.getRegistryFile();
+    const meta = litellm.readCacheMeta();
+    const ttlHours = litellm.getTtlHours();
+
+    console.log(chalk.bold('\n📋 LiteLLM model registry:\n'));
+    if (override) {
+        console.log(`  Source:   ${chalk.cyan(override)} ${chalk.dim('(--registry-file / CLAUDE_ALIAS_REGISTRY_FILE)')}`);
+    }
+    console.log(`  Cache:    ${chalk.cyan(litellm.getCachePath())}`);
+    if (meta) {
+        const expired = Date.now() - new Date(meta.fetchedAt).getTime() >= ttlHours * 3600 * 1000;
+        console.log(`  Fetched:  ${meta.fetchedAt} ${chalk.dim(`(${formatAge(meta.fetchedAt)})`)} ${expired ? chalk.yellow('[expired]') : chalk.green('[fresh]')}`);
+    } else {
+        console.log(`  Fetched:  ${chalk.dim('never')}`);
+    }
+    console.log(`  TTL:      ${ttlHours}h`);
+    console.log();
+}
+
+/**
+ * Run the registry command: inspect, refresh or configure the LiteLLM registry cache
+ */
+export async function runRegistryCommand(args: string[] = []): Promise<void> {
+    const [subcommand = 'status', ...rest] = args;
+
+    switch (subcommand) {
+        case 'status':
+            showStatus();
+            return;
+
+        case 'refresh': {
+            const spinner = ora('Refreshing LiteLLM registry...').start();
+            await litellm.fetchRegistry({ refresh: true });
+            reportRegistryStatus(spinner);
+
+            const status = litellm.getRegistryStatus();
+            if (status.source === 'none' || status.stale) {
+                process.exitCode = 1;
+            }
+            return;
+        }
+
+        case 'ttl': {
+            const hours = Number(rest[0]);
+            if (rest.length !== 1 || !Number.isFinite(hours) || hours < 0) {
+                console.error(chalk.red('❌ Error: Usage: claude-alias registry ttl <hours>'));
+                process.exitCode = 1;
+                return;
+            }
+            settings.updateSettings({ registryTtlHours: hours });
+            console.log(chalk.green(`✓ Registry cache TTL set to ${hours}h`));
+            return;
+        }
+
+        default:
+            console.error(chalk.red(`❌ Error: Unknown subcommand '${subcommand}'. Use status, refresh or ttl.`));
+            process.exitCode = 1;
+    }
+}
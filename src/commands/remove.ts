@@ -1,6 +1,7 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import { checkbox, confirm } from '@inquirer/prompts';
+import * as configStore from '../services/config.js';
 import * as keychain from '../services/secrets/index.js';
 import * as profile from '../services/profile.js';
 import * as shell from '../services/shell.js';
@@ -82,6 +83,13 @@ export async function runRemoveCommand(): Promise<void> {
         const tag = isManaged ? chalk.green('[managed]') : chalk.dim('[existing]');
         console.log(`   • ${chalk.cyan(aliasName)} ${tag}`);
     }
+
+    // Other aliases fail over using these aliases' keys
+    const dependents = configStore.listAliasConfigs()
+        .filter(c => !toRemove.includes(c.alias) && c.failover?.some(f => toRemove.includes(f.keyAlias)));
+    if (dependents.length > 0) {
+        console.log(chalk.yellow(`\n⚠️  ${dependents.map(c => c.alias).join(', ')} will no longer fail over to the removed aliases' providers`));
+    }
     console.log();
 
     // Only ask about profile dirs for managed aliases
@@ -140,6 +148,13 @@ export async function runRemoveCommand(): Promise<void> {
                     hasErrors = true;
                 }
 
+                // Delete stored config
+                const configSuccess = configStore.deleteAliasConfig(matchingProfile.alias);
+                if (!configSuccess) {
+                    spinner.text = `${aliasName}: Warning - could not remove stored config`;
+                    hasErrors = true;
+                }
+
                 // Remove profile directory if requested
                 if (removeProfileDirs) {
                     const dirSuccess = profile.deleteProfileHome(matchingProfile.alias);
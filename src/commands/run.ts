@@ -0,0 +1,323 @@
+import { parseArgs } from 'util';
+import { spawn } from 'child_process';
+import { appendFileSync, mkdtempSync, rmSync } from 'fs';
+import { constants, tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import chalk from 'chalk';
+import * as configStore from '../services/config.js';
+import * as profile from '../services/profile.js';
+import * as providers from '../services/providers.js';
+import * as secrets from '../services/secrets/index.js';
+import * as shell from '../services/shell.js';
+import { getDefaultAuthMethod, parseEnvFlags, parseTokenCount } from './add.js';
+import { checkBudgetAtLaunch } from './budget.js';
+import { startAliasProxy } from './proxy.js';
+import type { ClaudeAliasConfig } from '../types/index.js';
+
+// Settings --override may change, and how each value is read (an error message if invalid)
+const OVERRIDES: Record<string, (value: string) => Partial<ClaudeAliasConfig> | string> = {
+    provider: value => value ? { provider: value } : 'provider cannot be empty',
+    baseUrl: value => {
+        try {
+            new URL(value);
+            return { baseUrl: value };
+        } catch {
+            return `Invalid URL format: ${value}`;
+        }
+    },
+    opusModel: value => ({ opusModel: value || undefined }),
+    sonnetModel: value => ({ sonnetModel: value || undefined }),
+    haikuModel: value => ({ haikuModel: value || undefined }),
+    subagentModel: value => ({ subagentModel: value || undefined }),
+    model: value => ({ model: value || undefined }),
+    smallFastModel: value => ({ smallFastModel: value || undefined }),
+    maxOutputTokens: value => {
+        if (!value) return { maxOutputTokens: undefined };
+        const parsed = parseTokenCount(value);
+        return parsed ? { maxOutputTokens: parsed } : 'maxOutputTokens must be a positive integer';
+    },
+    apiFormat: value => value === 'anthropic' || value === 'openai' ? { apiFormat: value } : 'apiFormat must be "anthropic" or "openai"',
+    useAuthToken: value => parseBoolean('useAuthToken', value, useAuthToken => ({ useAuthToken })),
+    skipPermissions: value => parseBoolean('skipPermissions', value, skipPermissions => ({ skipPermissions }))
+};
+
+/**
+ * Read a true/false override value
+ */
+function parseBoolean(
+    name: string,
+    value: string,
+    toConfig: (flag: boolean) => Partial<ClaudeAliasConfig>
+): Partial<ClaudeAliasConfig> | string {
+    if (value === 'true' || value === 'false') return toConfig(value === 'true');
+    return `${name} must be true or false`;
+}
+
+/**
+ * Apply repeated --override key=value flags to a config.
+ * Returns an error message if any entry is invalid.
+ */
+function applyOverrides(config: ClaudeAliasConfig, entries: string[]): ClaudeAliasConfig | string {
+    let updated = config;
+    for (const entry of entries) {
+        const eqIdx = entry.indexOf('=');
+        if (eqIdx === -1) return `--override expects key=value, got '${entry}'`;
+        const key = entry.substring(0, eqIdx);
+        const parse = OVERRIDES[key];
+        if (!parse) return `Cannot override '${key}'. Use one of: ${Object.keys(OVERRIDES).join(', ')}`;
+        const result = parse(entry.substring(eqIdx + 1).trim());
+        if (typeof result === 'string') return result;
+        updated = { ...updated, ...result };
+    }
+    return updated;
+}
+
+/**
+ * Build a one-off config from a provider preset and flags, like "add" without saving anything
+ */
+function buildAdHocConfig(values: {
+    provider?: string;
+    'base-url'?: string;
+    'api-format'?: string;
+    'auth-token'?: boolean;
+    'api-key'?: boolean;
+}, customEnv: Record<string, string>): ClaudeAliasConfig | string {
+    const providerName = values.provider?.trim();
+    if (!providerName) return 'An alias or --provider is required (claude-alias run <alias> | --provider <name>)';
+
+    let preset;
+    try {
+        preset = providers.getPreset(providerName);
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+
+    const baseUrl = values['base-url']?.trim() || preset?.baseUrl || '';
+    if (!baseUrl) return `--base-url is required for provider '${providerName}'`;
+    try {
+        new URL(baseUrl);
+    } catch {
+        return `Invalid URL format: ${baseUrl}`;
+    }
+
+    const apiFormat = values['api-format'] ?? preset?.apiFormat ?? 'anthropic';
+    if (apiFormat !== 'anthropic' && apiFormat !== 'openai') return '--api-format must be "anthropic" or "openai"';
+
+    // Env the preset requires: --env values win, then the preset's defaults
+    for (const [name, defaultValue] of Object.entries(preset?.requiredEnv || {})) {
+        if (!customEnv[name]) {
+            if (!defaultValue) return `Provider '${providerName}' requires ${name} - pass it with --env ${name}=VALUE`;
+            customEnv[name] = defaultValue;
+        }
+    }
+
+    const now = new Date().toISOString();
+    return {
+        alias: providerName,
+        provider: providerName,
+        baseUrl,
+        opusModel: preset?.models?.opus,
+        sonnetModel: preset?.models?.sonnet,
+        haikuModel: preset?.models?.haiku,
+        subagentModel: preset?.models?.subagent,
+        maxOutputTokens: preset?.maxOutputTokens,
+        useAuthToken: values['api-key'] ? false : values['auth-token'] ? true : getDefaultAuthMethod(preset),
+        apiFormat: apiFormat === 'openai' ? apiFormat : undefined,
+        customEnv: Object.keys(customEnv).length > 0 ? customEnv : undefined,
+        createdAt: now,
+        updatedAt: now
+    };
+}
+
+/**
+ * Run claude with an environment and wait for it to exit, resolving to its exit code.
+ * Ctrl+C reaches claude directly (same terminal), so it is only ignored here.
+ */
+function runClaude(args: string[], env: Record<string, string>): Promise<number> {
+    return new Promise(resolve => {
+        const child = spawn('claude', args, { stdio: 'inherit', env: { ...process.env, ...env } });
+        const ignore = () => {};
+        const forward = (signal: NodeJS.Signals) => child.kill(signal);
+        process.on('SIGINT', ignore);
+        process.on('SIGTERM', forward);
+        process.on('SIGHUP', forward);
+        const done = (code: number) => {
+            process.off('SIGINT', ignore);
+            process.off('SIGTERM', forward);
+            process.off('SIGHUP', forward);
+            resolve(code);
+        };
+
+        child.on('error', error => {
+            const notFound = (error as NodeJS.ErrnoException).code === 'ENOENT';
+            console.error(chalk.red(notFound
+                ? "❌ Error: 'claude' command not found!\n   Please ensure Claude Code is installed and in your PATH"
+                : `❌ Error: Could not start claude: ${error.message}`));
+            done(1);
+        });
+        child.on('exit', (code, signal) => {
+            done(code ?? 128 + (signal ? constants.signals[signal] : 0));
+        });
+    });
+}
+
+/**
+ * Run the run command: start Claude Code once with an alias's settings (optionally overridden)
+ * or with a provider preset, without writing a script, shell alias or keychain entry.
+ *
+ * The key comes from the alias's secret backend, another alias's (--key-from), or the
+ * CLAUDE_ALIAS_API_KEY environment variable. Arguments after `--` are passed to claude.
+ * One-off provider runs use a temporary CLAUDE_HOME that is removed afterwards.
+ */
+export async function runRunCommand(rawArgs: string[] = []): Promise<void> {
+    const separatorIdx = rawArgs.indexOf('--');
+    const args = separatorIdx === -1 ? rawArgs : rawArgs.slice(0, separatorIdx);
+    const claudeArgs = separatorIdx === -1 ? [] : rawArgs.slice(separatorIdx + 1);
+
+    const fail = (message: string) => {
+        console.error(chalk.red(`❌ Error: ${message}`));
+        process.exitCode = 1;
+    };
+
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                provider: { type: 'string' },
+                'base-url': { type: 'string' },
+                'opus-model': { type: 'string' },
+                'sonnet-model': { type: 'string' },
+                'haiku-model': { type: 'string' },
+                'subagent-model': { type: 'string' },
+                'max-output-tokens': { type: 'string' },
+                'auth-token': { type: 'boolean' },
+                'api-key': { type: 'boolean' },
+                'api-format': { type: 'string' },
+                'skip-permissions': { type: 'boolean' },
+                env: { type: 'string', multiple: true },
+                override: { type: 'string', multiple: true },
+                'key-from': { type: 'string' }
+            }
+        });
+    } catch (error) {
+        fail(error instanceof Error ? error.message : String(error));
+        return;
+    }
+    const { values, positionals } = parsed;
+
+    if (positionals.length > 1) {
+        fail(`Unexpected argument: ${positionals[1]} (pass claude arguments after --)`);
+        return;
+    }
+    if (values['auth-token'] && values['api-key']) {
+        fail('--auth-token and --api-key cannot be used together');
+        return;
+    }
+    const envFlags = parseEnvFlags(values.env || []);
+    if (typeof envFlags === 'string') {
+        fail(envFlags);
+        return;
+    }
+
+    const aliasName = positionals[0];
+    let config: ClaudeAliasConfig;
+    if (aliasName) {
+        const stored = configStore.getAliasConfig(aliasName);
+        if (!stored) {
+            fail(`No stored config for '${aliasName}'`);
+            return;
+        }
+        const providerFlag = (['provider', 'base-url', 'api-format', 'auth-token', 'api-key'] as const).find(flag => values[flag] !== undefined);
+        if (providerFlag) {
+            fail(`--${providerFlag} is for one-off provider sessions; change an alias's settings with --override (e.g. --override baseUrl=...)`);
+            return;
+        }
+        config = { ...stored, customEnv: { ...stored.customEnv, ...envFlags } };
+    } else {
+        const adHoc = buildAdHocConfig(values, envFlags);
+        if (typeof adHoc === 'string') {
+            fail(adHoc);
+            return;
+        }
+        config = adHoc;
+    }
+
+    const maxOutputTokens = parseTokenCount(values['max-output-tokens']);
+    if (maxOutputTokens === null) {
+        fail('--max-output-tokens must be a positive integer');
+        return;
+    }
+    const withFlags: ClaudeAliasConfig = {
+        ...config,
+        opusModel: values['opus-model']?.trim() || config.opusModel,
+        sonnetModel: values['sonnet-model']?.trim() || config.sonnetModel,
+        haikuModel: values['haiku-model']?.trim() || config.haikuModel,
+        subagentModel: values['subagent-model']?.trim() || config.subagentModel,
+        maxOutputTokens: maxOutputTokens ?? config.maxOutputTokens,
+        skipPermissions: values['skip-permissions'] || config.skipPermissions
+    };
+    const overridden = applyOverrides(withFlags, values.override || []);
+    if (typeof overridden === 'string') {
+        fail(overridden);
+        return;
+    }
+    config = overridden;
+
+    // Key: --key-from, then the alias's own, then the environment
+    const keyAlias = values['key-from'] ?? aliasName;
+    if (values['key-from'] && !configStore.getAliasConfig(values['key-from'])) {
+        fail(`No stored config for '${values['key-from']}' (--key-from)`);
+        return;
+    }
+    const apiKey = (keyAlias ? await secrets.getApiKey(keyAlias) : null) || process.env.CLAUDE_ALIAS_API_KEY?.trim();
+    if (!apiKey) {
+        fail(keyAlias
+            ? `API key not found for '${keyAlias}' (or set CLAUDE_ALIAS_API_KEY)`
+            : 'An API key is required: set CLAUDE_ALIAS_API_KEY or reuse a stored one with --key-from <alias>');
+        return;
+    }
+
+    if (aliasName && !await checkBudgetAtLaunch(config)) {
+        process.exitCode = 1;
+        return;
+    }
+
+    // One-off sessions get a throwaway CLAUDE_HOME; aliases keep their own
+    const homeDir = aliasName ? profile.getProfileHomeDir(aliasName) : mkdtempSync(join(tmpdir(), 'claude-run-'));
+    let handle: { close(): Promise<void> } | undefined;
+    const notices: string[] = [];
+    try {
+        profile.prepareProfileHome(homeDir);
+        const env = profile.getLaunchEnv(config, apiKey, homeDir);
+
+        if (profile.usesProxy(config)) {
+            const token = randomBytes(16).toString('hex');
+            const logPath = profile.prepareProxyLog(homeDir);
+            const started = await startAliasProxy(config, apiKey, {
+                token,
+                log: line => appendFileSync(logPath, `${line}\n`),
+                notify: message => notices.push(message)
+            });
+            handle = started.handle;
+            env.ANTHROPIC_BASE_URL = started.handle.url;
+            env[config.useAuthToken ? 'ANTHROPIC_AUTH_TOKEN' : 'ANTHROPIC_API_KEY'] = token;
+        }
+
+        const label = aliasName ? `'${aliasName}'` : config.provider;
+        const models = [config.opusModel, config.sonnetModel, config.haikuModel].filter(Boolean);
+        console.error(chalk.dim(`▶ Claude Code with ${label}${models.length > 0 ? ` (${[...new Set(models)].join(', ')})` : ''}`));
+
+        process.exitCode = await runClaude([...shell.getAliasArgs(config), ...claudeArgs], env);
+    } finally {
+        await handle?.close();
+        for (const notice of notices) {
+            console.error(chalk.yellow(`⚠️  ${notice}`));
+        }
+        if (!aliasName) {
+            rmSync(homeDir, { recursive: true, force: true });
+        }
+    }
+}
@@ -0,0 +1,420 @@
+import { parseArgs } from 'util';
+import chalk from 'chalk';
+import ora from 'ora';
+import { password } from '@inquirer/prompts';
+import * as configStore from '../services/config.js';
+import * as profile from '../services/profile.js';
+import * as encryptedFile from '../services/secrets/encrypted-file.js';
+import * as secrets from '../services/secrets/index.js';
+import * as settings from '../services/settings.js';
+import type { ScryptParams, SecretBackendName } from '../types/index.js';
+
+// Subcommands that manage the Linux encrypted file
+const FILE_SUBCOMMANDS = ['migrate', 'unlock', 'lock', 'cache'];
+
+/**
+ * Print where secrets are stored and how the encrypted file is protected
+ */
+function showStatus(): void {
+    const defaultBackend = secrets.getDefaultBackend();
+
+    console.log(chalk.bold('\n🔐 Secret storage:\n'));
+    console.log(`  Default:  ${chalk.cyan(defaultBackend)} ${chalk.dim(`(${secrets.getBackendLabel(defaultBackend)})`)}`);
+    if (secrets.getPlatform() !== 'linux') {
+        console.log();
+        return;
+    }
+
+    const info = encryptedFile.getFileInfo();
+    console.log(`  System:   ${secrets.isUsingFallback() ? 'encrypted file (secret-tool not installed)' : 'secret-tool'}`);
+    if (!info) {
+        console.log(`  File:     ${chalk.dim(`${encryptedFile.getSecretsFilePath()} (not created)`)}`);
+        console.log();
+        return;
+    }
+
+    console.log(`  File:     ${chalk.cyan(info.path)} ${chalk.dim(`(format v${info.version})`)}`);
+    if (info.mode === 'passphrase') {
+        const { N, r, p } = info.params!;
+        console.log(`  Mode:     ${chalk.green('master passphrase')} ${chalk.dim(`(scrypt N=${N} r=${r} p=${p})`)}`);
+        const minutes = encryptedFile.getUnlockMinutes();
+        console.log(`  Unlocked: ${info.cached ? chalk.green('yes (cached in keyring)') : 'no'} ${chalk.dim(`- cache ${minutes > 0 ? `${minutes}m` : 'disabled'}`)}`);
+    } else {
+        console.log(`  Mode:     ${chalk.yellow('machine key')} ${chalk.dim('(obfuscation only - run "claude-alias secrets migrate --passphrase")')}`);
+    }
+    if (info.version < encryptedFile.SECRETS_FILE_VERSION) {
+        console.log(chalk.yellow(`\n  ⚠️  Old file format - run "claude-alias secrets migrate" to upgrade it`));
+    }
+    console.log();
+}
+
+/**
+ * Re-encrypt the secrets file, optionally switching protection mode
+ */
+async function migrate(args: string[]): Promise<void> {
+    const { values } = parseArgs({
+        args,
+        options: {
+            passphrase: { type: 'boolean' },
+            machine: { type: 'boolean' },
+            cost: { type: 'string' }
+        }
+    });
+
+    if (values.passphrase && values.machine) {
+        console.error(chalk.red('❌ Error: --passphrase and --machine cannot be used together'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const current = encryptedFile.getFileInfo();
+    const mode = values.passphrase ? 'passphrase'
+        : values.machine ? 'machine'
+            : current?.mode ?? 'machine';
+
+    if (values.cost !== undefined && mode !== 'passphrase') {
+        console.error(chalk.red('❌ Error: --cost only applies to a master passphrase (--passphrase)'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const params: ScryptParams = { ...(current?.params ?? encryptedFile.DEFAULT_SCRYPT_PARAMS) };
+    if (values.cost !== undefined) {
+        params.N = Number(values.cost);
+    }
+    const paramsCheck = encryptedFile.validateScryptParams(params);
+    if (paramsCheck !== true) {
+        console.error(chalk.red(`❌ Error: --cost: ${paramsCheck}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    // Unlock with the current passphrase before asking for the new one
+    let count: number;
+    try {
+        count = Object.keys(await encryptedFile.readSecrets()).length;
+    } catch (error) {
+        console.error(chalk.red(`❌ Error: ${error instanceof Error ? error.message : error}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    let newPassphrase: string | undefined;
+    if (mode === 'passphrase') {
+        if (!process.stdin.isTTY) {
+            console.error(chalk.red('❌ Error: Setting a master passphrase needs a terminal'));
+            process.exitCode = 1;
+            return;
+        }
+        newPassphrase = await password({
+            message: current?.mode === 'passphrase' ? 'New master passphrase:' : 'Master passphrase:',
+            mask: true,
+            validate: encryptedFile.validatePassphrase
+        });
+        await password({
+            message: 'Repeat passphrase:',
+            mask: true,
+            validate: (value) => value === newPassphrase ? true : 'Passphrases do not match'
+        });
+    }
+
+    const spinner = ora(`Re-encrypting ${count} secret(s)...`).start();
+    try {
+        await encryptedFile.migrate(mode, newPassphrase, params);
+    } catch (error) {
+        spinner.fail(`Migration failed: ${error instanceof Error ? error.message : error}`);
+        process.exitCode = 1;
+        return;
+    }
+    spinner.succeed(mode === 'passphrase'
+        ? `${encryptedFile.getSecretsFilePath()} is now protected by your master passphrase (scrypt N=${params.N})`
+        : `${encryptedFile.getSecretsFilePath()} re-encrypted with the machine key`);
+}
+
+/**
+ * List the secret backends and whether each can be used here
+ */
+async function showBackends(): Promise<void> {
+    const defaultBackend = secrets.getDefaultBackend();
+
+    console.log(chalk.bold('\n🔐 Secret backends:\n'));
+    for (const name of secrets.BACKEND_NAMES) {
+        const available = await secrets.isKeychainAvailable(name);
+        const marker = available ? chalk.green('✓') : chalk.dim('✗');
+        const label = name === defaultBackend ? chalk.cyan.bold(name.padEnd(12)) : name.padEnd(12);
+        const notes = [
+            secrets.getBackendLabel(name),
+            name === defaultBackend ? 'default' : '',
+            available ? '' : 'not available'
+        ].filter(Boolean).join(', ');
+        console.log(`  ${marker} ${label} ${chalk.dim(notes)}`);
+    }
+    console.log(chalk.dim('\n  Set the default with "claude-alias secrets backend <name>", or per alias with "add <alias> --secret-backend <name>".\n'));
+}
+
+/**
+ * Show which backends hold a key for each alias (never the keys themselves),
+ * flagging duplicates, missing keys and keys whose alias no longer exists
+ */
+async function listKeys(): Promise<void> {
+    const aliases = [...new Set([
+        ...profile.listProfiles().filter(p => profile.isManagedScript(p.content)).map(p => p.alias),
+        ...configStore.listAliasConfigs().map(c => c.alias)
+    ])].sort();
+    const backends = await secrets.getBackendsInUse();
+    const scan = await secrets.scanStoredKeys(aliases, backends);
+
+    console.log(chalk.bold('\n🔐 API keys:\n'));
+    console.log(chalk.dim(`  Scanned: ${backends.join(', ') || 'none'}\n`));
+    for (const failure of scan.failures) {
+        console.log(chalk.yellow(`  ⚠️  Could not read ${failure.backend}: ${failure.error}`));
+    }
+
+    if (aliases.length === 0) {
+        console.log(chalk.dim('  No aliases configured.'));
+    }
+
+    let duplicates = 0;
+    for (const alias of aliases) {
+        const backend = secrets.getAliasBackend(alias);
+        const used = await secrets.resolveStorage(alias, backend);
+        const locations = scan.locations[alias] ?? [];
+        const stored = locations.length > 0
+            ? locations.map(name => name === used ? chalk.green(name) : chalk.yellow(name)).join(', ')
+            : chalk.red('no key');
+        const notes = locations.length > 1 ? chalk.yellow(' (duplicate)') : '';
+        if (locations.length > 1) duplicates++;
+        console.log(`  ${chalk.cyan(alias.padEnd(16))} ${backend.padEnd(12)} ${stored}${notes}`);
+    }
+
+    const orphans = Object.entries(scan.locations).filter(([alias]) => !profile.profileExists(alias));
+    if (orphans.length > 0) {
+        console.log(chalk.yellow('\n  ⚠️  Keys with no alias profile:'));
+        for (const [alias, locations] of orphans) {
+            console.log(`  ${chalk.dim(alias.padEnd(16))} ${' '.repeat(12)} ${locations.join(', ')}`);
+        }
+        console.log(chalk.dim('  Delete them with "claude-alias doctor --fix".'));
+    }
+    if (duplicates > 0) {
+        console.log(chalk.dim('\n  Green is the copy the alias reads. Remove a stale copy with'));
+        console.log(chalk.dim('  "claude-alias secrets move <alias> --from <backend> --to <backend>".'));
+    }
+    console.log();
+}
+
+/**
+ * Move an alias's key to another backend: copy, read it back, then delete the source.
+ * The alias is switched to the new backend and its script regenerated, unless it already
+ * reads its key from there (moving a stale duplicate onto it).
+ */
+async function moveKey(args: string[]): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            to: { type: 'string' },
+            from: { type: 'string' },
+            force: { type: 'boolean' }
+        }
+    });
+
+    const alias = positionals[0];
+    if (!alias || !values.to) {
+        console.error(chalk.red('❌ Error: Usage: claude-alias secrets move <alias> --to <backend> [--from <backend>] [--force]'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const config = configStore.getAliasConfig(alias);
+    if (!config) {
+        console.error(chalk.red(`❌ Error: No stored config for '${alias}'`));
+        process.exitCode = 1;
+        return;
+    }
+
+    for (const name of [values.to, values.from]) {
+        if (name !== undefined && !secrets.isBackendName(name)) {
+            console.error(chalk.red(`❌ Error: Unknown backend '${name}'. Use one of: ${secrets.BACKEND_NAMES.join(', ')}`));
+            process.exitCode = 1;
+            return;
+        }
+    }
+    const to = values.to as SecretBackendName;
+    const current = await secrets.resolveStorage(alias, config.secretBackend ?? 'system');
+    const from = values.from ? await secrets.resolveStorage(alias, values.from as SecretBackendName) : current;
+    const target = to === 'system' ? secrets.getSystemStorage() : to;
+
+    if (!from || !target || !await secrets.isKeychainAvailable(target)) {
+        console.error(chalk.red(`❌ Error: ${secrets.getBackendLabel(target ?? to)} is not available on this system`));
+        process.exitCode = 1;
+        return;
+    }
+    if (secrets.isReadOnly(target)) {
+        console.error(chalk.red(`❌ Error: The ${target} backend cannot store keys`));
+        process.exitCode = 1;
+        return;
+    }
+    if (from === target) {
+        console.error(chalk.red(`❌ Error: The key for '${alias}' is already in ${secrets.getBackendLabel(target)}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const apiKey = await secrets.getApiKey(alias, from);
+    if (!apiKey) {
+        console.error(chalk.red(`❌ Error: No API key for '${alias}' in ${secrets.getBackendLabel(from)}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const existing = await secrets.getApiKey(alias, target);
+    if (existing && existing !== apiKey && !values.force) {
+        console.error(chalk.red(`❌ Error: ${secrets.getBackendLabel(target)} already holds a different key for '${alias}' (use --force to replace it)`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const spinner = ora(`Moving the key for '${alias}' from ${from} to ${target}...`).start();
+    if (!await secrets.setApiKey(alias, apiKey, target) || await secrets.getApiKey(alias, target) !== apiKey) {
+        spinner.fail(`Could not store the key in ${secrets.getBackendLabel(target)}; it is still in ${from}`);
+        process.exitCode = 1;
+        return;
+    }
+    await secrets.deleteApiKey(alias, from);
+    if (await secrets.verifyApiKey(alias, from)) {
+        spinner.warn(`Copied to ${target}, but could not delete the copy in ${from}`);
+    } else {
+        spinner.succeed(`Moved the key for '${alias}' from ${from} to ${target}`);
+    }
+
+    const secretBackend = to === 'system' ? undefined : to;
+    if (target !== current && config.secretBackend !== secretBackend) {
+        const updated = { ...config, secretBackend, updatedAt: new Date().toISOString() };
+        configStore.saveAliasConfig(updated);
+        profile.writeScript(updated);
+        console.log(chalk.green(`✓ '${alias}' now reads its key from ${secrets.getBackendLabel(to)}`));
+    }
+}
+
+/**
+ * Show or set the default backend for new aliases
+ */
+async function setDefaultBackend(args: string[]): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            vault: { type: 'string' }
+        }
+    });
+
+    const name = positionals[0];
+    if (!name) {
+        const current = secrets.getDefaultBackend();
+        console.log(`${chalk.cyan(current)} ${chalk.dim(`(${secrets.getBackendLabel(current)})`)}`);
+        return;
+    }
+
+    if (!secrets.isBackendName(name)) {
+        console.error(chalk.red(`❌ Error: Unknown backend '${name}'. Use one of: ${secrets.BACKEND_NAMES.join(', ')}`));
+        process.exitCode = 1;
+        return;
+    }
+    if (values.vault !== undefined && name !== '1password') {
+        console.error(chalk.red('❌ Error: --vault only applies to the 1password backend'));
+        process.exitCode = 1;
+        return;
+    }
+    if (!await secrets.isKeychainAvailable(name)) {
+        console.error(chalk.red(`❌ Error: ${secrets.getBackendLabel(name)} is not available on this system`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const backend: SecretBackendName = name;
+    settings.updateSettings({
+        secretBackend: backend === 'system' ? undefined : backend,
+        ...(values.vault !== undefined ? { onePasswordVault: values.vault.trim() || undefined } : {})
+    });
+    console.log(chalk.green(`✓ New aliases will store their API key in ${secrets.getBackendLabel(backend)}`));
+    console.log(chalk.dim('  Existing aliases keep theirs; change one with "claude-alias add <alias> --secret-backend <name>".'));
+}
+
+/**
+ * Run the secrets command: choose secret backends and manage the Linux encrypted secrets file
+ */
+export async function runSecretsCommand(args: string[] = []): Promise<void> {
+    const [subcommand = 'status', ...rest] = args;
+
+    if (FILE_SUBCOMMANDS.includes(subcommand) && secrets.getPlatform() !== 'linux') {
+        console.error(chalk.red('❌ Error: The encrypted secrets file is only used on Linux'));
+        process.exitCode = 1;
+        return;
+    }
+
+    switch (subcommand) {
+        case 'status':
+            showStatus();
+            return;
+
+        case 'backends':
+            await showBackends();
+            return;
+
+        case 'list':
+            await listKeys();
+            return;
+
+        case 'move':
+            await moveKey(rest);
+            return;
+
+        case 'backend':
+            await setDefaultBackend(rest);
+            return;
+
+        case 'migrate':
+            await migrate(rest);
+            return;
+
+        case 'unlock': {
+            const info = encryptedFile.getFileInfo();
+            if (info?.mode !== 'passphrase') {
+                console.log(chalk.dim('The secrets file is not protected by a master passphrase; nothing to unlock.'));
+                return;
+            }
+            try {
+                if (await encryptedFile.unlock()) {
+                    console.log(chalk.green(`✓ Unlocked for ${encryptedFile.getUnlockMinutes()} minutes`));
+                } else {
+                    console.log(chalk.yellow('⚠️  Passphrase is correct, but the unlock cannot be cached (install keyutils for keyctl, and check "secrets cache")'));
+                }
+            } catch (error) {
+                console.error(chalk.red(`❌ Error: ${error instanceof Error ? error.message : error}`));
+                process.exitCode = 1;
+            }
+            return;
+        }
+
+        case 'lock':
+            encryptedFile.lock();
+            console.log(chalk.green('✓ Secrets file locked'));
+            return;
+
+        case 'cache': {
+            const minutes = Number(rest[0]);
+            if (rest.length !== 1 || !Number.isFinite(minutes) || minutes < 0) {
+                console.error(chalk.red('❌ Error: Usage: claude-alias secrets cache <minutes>'));
+                process.exitCode = 1;
+                return;
+            }
+            settings.updateSettings({ secretsUnlockMinutes: minutes });
+            console.log(chalk.green(minutes > 0 ? `✓ Unlocked key cached for ${minutes}m` : '✓ Unlocked key is no longer cached'));
+            return;
+        }
+
+        default:
+            console.error(chalk.red(`❌ Error: Unknown subcommand '${subcommand}'. Use status, list, move, backends, backend, migrate, unlock, lock or cache.`));
+            process.exitCode = 1;
+    }
+}
@@ -0,0 +1,119 @@
+import { homedir } from 'os';
+import { resolve } from 'path';
+import chalk from 'chalk';
+import * as settings from '../services/settings.js';
+import * as shell from '../services/shell.js';
+
+/**
+ * Store paths under the home directory with ~ so settings stay portable
+ */
+function normalizePath(path: string): string {
+    const absolute = path.startsWith('~/') ? resolve(homedir(), path.substring(2)) : resolve(path);
+    const home = homedir();
+    return absolute.startsWith(home + '/') ? `~/${absolute.substring(home.length + 1)}` : absolute;
+}
+
+/**
+ * Print the target profiles and any drift between them
+ */
+function showProfiles(): void {
+    const configured = settings.loadSettings().shellProfiles || [];
+    const targets = shell.getTargetProfiles();
+    const drift = shell.detectDrift();
+
+    console.log(chalk.bold('\n🐚 Shell profiles kept in sync:\n'));
+    for (const target of targets) {
+        const targetDrift = drift.find(d => d.path === target.path);
+        const tag = targetDrift ? chalk.yellow('[out of sync]') : chalk.green('[in sync]');
+        console.log(`  ${chalk.cyan(target.path)} ${chalk.dim(`(${target.shell})`)} ${targets.length > 1 ? tag : ''}`);
+        if (targetDrift?.missing.length) {
+            console.log(chalk.dim(`      missing: ${targetDrift.missing.join(', ')}`));
+        }
+        if (targetDrift?.different.length) {
+            console.log(chalk.dim(`      different: ${targetDrift.different.join(', ')}`));
+        }
+    }
+
+    if (configured.length === 0) {
+        console.log(chalk.dim('\n  (default for your current shell - add more with "claude-alias shells add <file>")'));
+    }
+    if (drift.length > 0) {
+        console.log(chalk.dim('\n  Run "claude-alias shells sync" to bring all profiles in line.'));
+    }
+    console.log();
+}
+
+/**
+ * Run the shells command: manage which shell profile files hold managed aliases
+ */
+export async function runShellsCommand(args: string[] = []): Promise<void> {
+    const [subcommand = 'list', ...paths] = args;
+
+    switch (subcommand) {
+        case 'list':
+            showProfiles();
+            return;
+
+        case 'add': {
+            if (paths.length === 0) {
+                console.error(chalk.red('❌ Error: Usage: claude-alias shells add <profile-file...>'));
+                process.exitCode = 1;
+                return;
+            }
+
+            const unknown = paths.filter(p => !shell.inferShellFromPath(p));
+            if (unknown.length > 0) {
+                console.error(chalk.red(`❌ Error: Cannot tell which shell reads: ${unknown.join(', ')}`));
+                console.error(chalk.dim('   Supported: .bashrc, .bash_profile, .profile, .zshrc, .zprofile, .zshenv, *.fish'));
+                process.exitCode = 1;
+                return;
+            }
+
+            // Seed with the current default so adding a file never drops the existing one
+            const current = settings.loadSettings().shellProfiles
+                || shell.getTargetProfiles().map(t => normalizePath(t.path));
+            const next = [...current];
+            for (const path of paths.map(normalizePath)) {
+                if (!next.includes(path)) next.push(path);
+            }
+            settings.updateSettings({ shellProfiles: next });
+
+            if (shell.syncProfiles()) {
+                console.log(chalk.green('✓ Shell profiles updated and synced'));
+            }
+            showProfiles();
+            return;
+        }
+
+        case 'remove': {
+            const current = settings.loadSettings().shellProfiles || [];
+            const toRemove = paths.map(normalizePath);
+            const next = current.filter(p => !toRemove.includes(normalizePath(p)));
+
+            if (next.length === current.length) {
+                console.error(chalk.red(`❌ Error: Not a configured shell profile: ${paths.join(', ')}`));
+                process.exitCode = 1;
+                return;
+            }
+
+            settings.updateSettings({ shellProfiles: next.length > 0 ? next : undefined });
+            console.log(chalk.green('✓ Shell profiles updated'));
+            console.log(chalk.dim('  The managed block was left in the removed file(s); delete it by hand if no longer needed.'));
+            showProfiles();
+            return;
+        }
+
+        case 'sync':
+            if (!shell.syncProfiles()) {
+                process.exitCode = 1;
+                return;
+            }
+            console.log(chalk.green('✓ Managed aliases synced across all shell profiles'));
+            showProfiles();
+            return;
+
+        default:
+            console.error(chalk.red(`❌ Error: Unknown subcommand '${subcommand}'. Use list, add, remove or sync.`));
+            process.exitCode = 1;
+    }
+}
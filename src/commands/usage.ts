@@ -0,0 +1,175 @@
+import { parseArgs } from 'util';
+import chalk from 'chalk';
+import ora from 'ora';
+import * as configStore from '../services/config.js';
+import * as litellm from '../services/litellm.js';
+import * as profile from '../services/profile.js';
+import * as usage from '../services/usage.js';
+import { reportRegistryStatus } from './registry.js';
+import type { UsageGrouping, UsageSummaryRow } from '../types/index.js';
+
+/**
+ * Format a token count compactly (950, 12.3k, 4.5M)
+ */
+function formatTokens(count: number): string {
+    if (count < 1e3) return String(count);
+    if (count < 1e6) return `${(count / 1e3).toFixed(1)}k`;
+    return `${(count / 1e6).toFixed(1)}M`;
+}
+
+/**
+ * Turn usage tracking on or off for an alias and regenerate its script
+ */
+function setTracking(alias: string, enabled: boolean): void {
+    const config = configStore.getAliasConfig(alias);
+    if (!config) {
+        console.error(chalk.red(`❌ Error: No stored config for '${alias}'`));
+        process.exitCode = 1;
+        return;
+    }
+    if (!enabled && config.budgets?.length) {
+        console.error(chalk.red(`❌ Error: '${alias}' has a budget, which is counted from its usage log`));
+        console.error(chalk.dim(`   Remove it first with "claude-alias budget clear ${alias}".`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const updated = { ...config, trackUsage: enabled || undefined, updatedAt: new Date().toISOString() };
+    configStore.saveAliasConfig(updated);
+    profile.writeScript(updated);
+
+    if (enabled) {
+        console.log(chalk.green(`✓ '${alias}' now records token usage to ${usage.getUsagePath(alias)}`));
+        console.log(chalk.dim('   Sessions started from now on go through the local proxy.'));
+    } else {
+        console.log(chalk.green(`✓ '${alias}' no longer records token usage`) + chalk.dim(' (the existing log is kept)'));
+    }
+}
+
+/**
+ * Print the usage table
+ */
+function printSummary(rows: UsageSummaryRow[], by: UsageGrouping): void {
+    const keyWidth = Math.max(by.length, 5, ...rows.map(r => r.key.length));
+    const header = [
+        by.charAt(0).toUpperCase() + by.slice(1).padEnd(keyWidth - 1),
+        'Requests'.padStart(8),
+        'Errors'.padStart(6),
+        'Input'.padStart(8),
+        'Output'.padStart(8),
+        'Cache rd'.padStart(8),
+        'Cache wr'.padStart(8),
+        'Est. cost'.padStart(10)
+    ];
+    console.log(chalk.dim(`  ${header.join('  ')}`));
+
+    const line = (row: UsageSummaryRow, label: string) => [
+        label,
+        String(row.requests).padStart(8),
+        (row.errors > 0 ? chalk.yellow(String(row.errors).padStart(6)) : String(row.errors).padStart(6)),
+        formatTokens(row.inputTokens).padStart(8),
+        formatTokens(row.outputTokens).padStart(8),
+        formatTokens(row.cacheReadInputTokens).padStart(8),
+        formatTokens(row.cacheCreationInputTokens).padStart(8),
+        (row.unpricedRequests > 0 && row.cost === 0 ? chalk.yellow('unknown'.padStart(10)) : litellm.formatUsd(row.cost).padStart(10))
+    ].join('  ');
+
+    for (const row of rows) {
+        console.log(`  ${line(row, chalk.cyan(row.key.padEnd(keyWidth)))}`);
+    }
+
+    if (rows.length > 1) {
+        const total = rows.reduce((sum, row) => ({
+            ...sum,
+            requests: sum.requests + row.requests,
+            errors: sum.errors + row.errors,
+            inputTokens: sum.inputTokens + row.inputTokens,
+            outputTokens: sum.outputTokens + row.outputTokens,
+            cacheReadInputTokens: sum.cacheReadInputTokens + row.cacheReadInputTokens,
+            cacheCreationInputTokens: sum.cacheCreationInputTokens + row.cacheCreationInputTokens,
+            cost: sum.cost + row.cost,
+            unpricedRequests: sum.unpricedRequests + row.unpricedRequests
+        }));
+        console.log(chalk.bold(`  ${line({ ...total, unpricedRequests: 0 }, 'Total'.padEnd(keyWidth))}`));
+    }
+
+    const unpriced = rows.reduce((sum, row) => sum + row.unpricedRequests, 0);
+    if (unpriced > 0) {
+        console.log(chalk.yellow(`\n  ⚠️  ${unpriced} request(s) used models with no registry pricing - the cost leaves them out`));
+    }
+}
+
+/**
+ * Run the usage command: report token usage recorded by aliases' proxies, with
+ * estimated spend from LiteLLM registry prices. --enable / --disable turn recording on or off.
+ */
+export async function runUsageCommand(args: string[] = []): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            since: { type: 'string' },
+            by: { type: 'string' },
+            enable: { type: 'boolean' },
+            disable: { type: 'boolean' }
+        }
+    });
+
+    if (values.enable || values.disable) {
+        if (positionals.length === 0 || (values.enable && values.disable)) {
+            console.error(chalk.red('❌ Error: Usage: claude-alias usage <alias...> --enable|--disable'));
+            process.exitCode = 1;
+            return;
+        }
+        for (const alias of positionals) {
+            setTracking(alias, !!values.enable);
+        }
+        return;
+    }
+
+    const by = (values.by ?? 'model') as UsageGrouping;
+    if (!usage.USAGE_GROUPINGS.includes(by)) {
+        console.error(chalk.red(`❌ Error: --by must be one of: ${usage.USAGE_GROUPINGS.join(', ')}`));
+        process.exitCode = 1;
+        return;
+    }
+
+    const since = values.since ? usage.parseSince(values.since) : undefined;
+    if (since === null) {
+        console.error(chalk.red('❌ Error: --since must be a duration (30m, 12h, 7d, 2w) or a date (2026-01-31)'));
+        process.exitCode = 1;
+        return;
+    }
+
+    const configs = configStore.listAliasConfigs();
+    const unknown = positionals.filter(name => !configs.some(c => c.alias === name));
+    if (unknown.length > 0) {
+        console.error(chalk.red(`❌ Error: No stored config for: ${unknown.join(', ')}`));
+        process.exitCode = 1;
+        return;
+    }
+    const aliases = positionals.length > 0 ? positionals : configs.map(c => c.alias);
+
+    const entries = aliases.flatMap(alias => usage.readUsage(alias, since).map(record => ({ alias, record })));
+    const period = values.since ? `since ${since!.toLocaleString()}` : 'all time';
+    const scope = positionals.length > 0 ? aliases.join(', ') : 'all aliases';
+
+    if (entries.length === 0) {
+        console.log(chalk.yellow(`\nNo usage recorded for ${scope} (${period}).`));
+        const untracked = aliases.filter(alias => !configs.find(c => c.alias === alias)?.trackUsage);
+        if (untracked.length > 0) {
+            console.log(chalk.dim(`Turn recording on with "claude-alias usage ${untracked.length === 1 ? untracked[0] : '<alias>'} --enable".`));
+        }
+        console.log();
+        return;
+    }
+
+    const spinner = ora('Loading LiteLLM registry...').start();
+    await litellm.fetchRegistry();
+    reportRegistryStatus(spinner);
+
+    console.log(chalk.bold(`\n📈 Usage for ${scope}`) + chalk.dim(` (${period}, by ${by})\n`));
+    printSummary(await usage.summarizeUsage(entries, by), by);
+    console.log(chalk.dim('\n  Estimates use registry list prices per token.'));
+    console.log();
+}
@@ -2,7 +2,25 @@ import chalk from 'chalk';
 import { select, confirm } from '@inquirer/prompts';
 import { runAddCommand } from './commands/add.js';
 import { runRemoveCommand } from './commands/remove.js';
+import { runRegenerateCommand } from './commands/regenerate.js';
+import { runDoctorCommand } from './commands/doctor.js';
+import { runConnectionTestCommand } from './commands/connection.js';
+import { runShellsCommand } from './commands/shells.js';
+import { runRegistryCommand } from './commands/registry.js';
+import { runCostCommand } from './commands/cost.js';
+import { runExportCommand } from './commands/export.js';
+import { runImportCommand } from './commands/import.js';
+import { runSecretsCommand } from './commands/secrets.js';
+import { runProxyCommand } from './commands/proxy.js';
+import { runFailoverCommand } from './commands/failover.js';
+import { runUsageCommand } from './commands/usage.js';
+import { runBudgetCommand } from './commands/budget.js';
+import { runRunCommand } from './commands/run.js';
+import * as configStore from './services/config.js';
+import * as litellm from './services/litellm.js';
+import * as pricing from './services/pricing.js';
 import * as profile from './services/profile.js';
+import { getLitellmProvider } from './services/providers.js';
 import * as shell from './services/shell.js';
 
 const VERSION = '1.0.0';
@@ -121,12 +139,25 @@ function showStatus(): void {
     } else {
         console.log(chalk.dim('  No Claude aliases found in your shell.\n'));
     }
+
+    const drift = shell.detectDrift();
+    if (drift.length > 0) {
+        console.log(chalk.yellow('  ⚠️  Managed aliases differ between shell profiles:'));
+        for (const d of drift) {
+            const problems = [
+                ...(d.missing.length > 0 ? [`missing ${d.missing.join(', ')}`] : []),
+                ...(d.different.length > 0 ? [`different ${d.different.join(', ')}`] : [])
+            ];
+            console.log(chalk.dim(`    ${d.path}: ${problems.join('; ')}`));
+        }
+        console.log(chalk.dim('  Run "claude-alias shells sync" to fix.\n'));
+    }
 }
 
 /**
  * Show detailed list of aliases
  */
-function showDetailedList(): void {
+async function showDetailedList(): Promise<void> {
     const allAliases = shell.listAllClaudeAliases();
     const managedAliases = shell.listManagedAliases();
     const profiles = profile.listProfiles();
@@ -137,14 +168,20 @@ function showDetailedList(): void {
         return;
     }
 
+    // Tier prices come from the cached registry only; listing should not wait on the network
+    await litellm.fetchRegistry({ cacheOnly: true });
+
     // Show shell aliases
     if (allAliases.length > 0) {
-        console.log(chalk.bold('📋 Shell Aliases (from .zshrc/.bashrc):\n'));
+        console.log(chalk.bold(`📋 Shell Aliases (from ${shell.getProfilePath()}):\n`));
         for (const a of allAliases) {
             const isManaged = managedAliases.some(m => m.name === a.name);
             const tag = isManaged ? chalk.green('[managed]') : chalk.dim('[existing]');
             console.log(`  ${chalk.cyan.bold(a.name)} ${tag}`);
             console.log(`    Command: ${chalk.dim(a.command)}`);
+            if (isManaged) {
+                await showTierPrices(a.name);
+            }
             console.log();
         }
     }
@@ -167,6 +204,23 @@ function showDetailedList(): void {
     }
 }
 
+/**
+ * Print each configured tier model of an alias with its registry price
+ */
+async function showTierPrices(alias: string): Promise<void> {
+    const config = configStore.getAliasConfig(alias);
+    if (!config) return;
+
+    const litellmProvider = getLitellmProvider(config.provider);
+    for (const tier of pricing.MODEL_TIERS) {
+        const model = pricing.getTierModel(config, tier);
+        if (!model) continue;
+        const info = await litellm.getModelInfo(model, litellmProvider);
+        const price = info ? litellm.formatPrice(info) : null;
+        console.log(`    ${tier.padEnd(8)} ${chalk.cyan(model)} ${chalk.dim(price ?? '(no pricing)')}`);
+    }
+}
+
 /**
  * Run a command with error handling. Returns true if user cancelled (Ctrl+C)
  */
@@ -190,6 +244,7 @@ async function runWithErrorHandling(fn: () => Promise<void>, _operationName: str
         if (error instanceof Error) {
             console.error(chalk.dim(error.message));
         }
+        process.exitCode = 1;
         return false;
     } finally {
         inCriticalOperation = false;
@@ -200,22 +255,90 @@ async function runWithErrorHandling(fn: () => Promise<void>, _operationName: str
  * Main CLI entry point
  */
 export async function run(): Promise<void> {
-    // Setup signal handlers first
-    setupSignalHandlers();
-
     // Parse simple CLI arguments
     const args = process.argv.slice(2);
 
+    // The proxy runs until stopped and handles its own signals
+    if (args[0] === 'proxy') {
+        await runWithErrorHandling(() => runProxyCommand(args.slice(1)), 'Proxy');
+        return;
+    }
+
+    // Claude Code owns the terminal (and any --help after "--") until it exits
+    if (args[0] === 'run') {
+        await runWithErrorHandling(() => runRunCommand(args.slice(1)), 'Run');
+        return;
+    }
+
+    // Setup signal handlers first
+    setupSignalHandlers();
+
     if (args.includes('--help') || args.includes('-h')) {
         showHeader();
         console.log(chalk.bold('Usage:'));
         console.log('  claude-alias              Interactive mode');
         console.log('  claude-alias add          Add or edit an alias');
+        console.log('  claude-alias add <alias> --provider <name> [options]');
+        console.log('                            Add or edit an alias without prompts');
+        console.log('  claude-alias run <alias> [--override key=value] [-- <claude args>]');
+        console.log('                            Start Claude Code once with an alias, changing settings for this session only');
+        console.log('  claude-alias run --provider <name> [add options] [--key-from <alias>] [-- <claude args>]');
+        console.log('                            Try a provider for one session without creating an alias');
         console.log('  claude-alias remove       Remove aliases');
         console.log('  claude-alias list         List all aliases');
+        console.log('  claude-alias regenerate [alias...] [--yes] [--force]');
+        console.log('                            Rebuild scripts from stored config');
+        console.log('  claude-alias doctor [--fix]');
+        console.log('                            Check scripts, aliases, keys and PATH');
+        console.log('  claude-alias test <alias> Send a test request for each tier model');
+        console.log('  claude-alias shells [list|add|remove|sync] [file...]');
+        console.log('                            Manage which shell profiles hold the aliases');
+        console.log('  claude-alias cost <alias...> --input <n> --output <n> [--mix opus=10,sonnet=70,haiku=20]');
+        console.log('                            Estimate spend from registry prices (e.g. --input 2M --output 300k)');
+        console.log('  claude-alias export [alias...] [--include-secrets] [-o <file>]');
+        console.log('                            Write aliases as a shareable JSON bundle (stdout by default)');
+        console.log('  claude-alias import <file> [--on-conflict skip|overwrite|rename]');
+        console.log('                            Recreate aliases from a bundle');
+        console.log('  claude-alias secrets [status|list|backends|backend <name>|migrate|unlock|lock|cache <minutes>]');
+        console.log('                            Choose where API keys are stored; manage the Linux encrypted secrets file');
+        console.log('  claude-alias secrets move <alias> --to <backend> [--from <backend>] [--force]');
+        console.log('                            Move an API key to another backend');
+        console.log('  claude-alias usage [alias...] [--since 7d] [--by model|alias|provider|day]');
+        console.log('                            Report recorded token usage and estimated spend');
+        console.log('  claude-alias usage <alias...> --enable|--disable');
+        console.log('                            Turn usage recording on or off');
+        console.log('  claude-alias budget [status [alias...]|set <alias> --daily|--monthly <cap>|clear <alias>]');
+        console.log('                            Cap daily or monthly spend (50usd) or tokens (2M); --soft-daily / --soft-monthly only warn');
+        console.log('  claude-alias failover [list [alias]|add <alias> <from-alias>|remove <alias> <from-alias>|clear <alias>]');
+        console.log('                            Fall back to the providers of other aliases when one is down');
+        console.log('  claude-alias proxy <alias> [--port <n>]');
+        console.log('                            Serve an alias (provider and fallbacks) as the Anthropic API (started by scripts)');
+        console.log('  claude-alias registry [status|refresh|ttl <hours>]');
+        console.log('                            Inspect or refresh the cached LiteLLM model registry');
         console.log('  claude-alias --help       Show this help');
         console.log('  claude-alias --version    Show version');
         console.log();
+        console.log(chalk.bold('Global options:'));
+        console.log('  --registry-file <path>    Use a local LiteLLM registry JSON (or set CLAUDE_ALIAS_REGISTRY_FILE)');
+        console.log();
+        console.log(chalk.bold('Non-interactive add options:'));
+        console.log('  --provider <name>         Preset (e.g. deepseek, zai) or custom provider name');
+        console.log('  --base-url <url>          API base URL (required for custom providers)');
+        console.log('  --opus-model <model>      ANTHROPIC_DEFAULT_OPUS_MODEL');
+        console.log('  --sonnet-model <model>    ANTHROPIC_DEFAULT_SONNET_MODEL');
+        console.log('  --haiku-model <model>     ANTHROPIC_DEFAULT_HAIKU_MODEL');
+        console.log('  --subagent-model <model>  CLAUDE_CODE_SUBAGENT_MODEL');
+        console.log('  --max-output-tokens <n>   CLAUDE_CODE_MAX_OUTPUT_TOKENS');
+        console.log('  --auth-token | --api-key  Export the key as ANTHROPIC_AUTH_TOKEN or ANTHROPIC_API_KEY');
+        console.log('  --[no-]skip-permissions   Launch with --dangerously-skip-permissions (or stop doing so)');
+        console.log('  --[no-]track-usage        Record token usage (see "claude-alias usage"), or stop recording it');
+        console.log('  --api-key-stdin           Read the API key from stdin (or set CLAUDE_ALIAS_API_KEY)');
+        console.log('  --env KEY=VALUE           Set a custom environment variable (repeatable)');
+        console.log('  --secret-backend <name>   Store the key in system, file, pass, 1password, bitwarden, env, ...');
+        console.log('  --api-format <format>     anthropic, or openai to go through the local translation proxy');
+        console.log('  --test                    Send a test request after saving');
+        console.log('  -- <args...>              Default claude arguments added by the alias');
+        console.log();
         return;
     }
 
@@ -224,9 +347,23 @@ export async function run(): Promise<void> {
         return;
     }
 
+    // Global option (not after "--", where arguments belong to claude)
+    const endOfOptions = args.includes('--') ? args.indexOf('--') : args.length;
+    const registryFileIdx = args.findIndex((a, i) => i < endOfOptions && (a === '--registry-file' || a.startsWith('--registry-file=')));
+    if (registryFileIdx !== -1) {
+        const [flag] = args.splice(registryFileIdx, 1);
+        const path = flag.includes('=') ? flag.substring(flag.indexOf('=') + 1) : args.splice(registryFileIdx, 1)[0];
+        if (!path) {
+            console.error(chalk.red('❌ Error: --registry-file requires a path'));
+            process.exitCode = 1;
+            return;
+        }
+        litellm.setRegistryFile(path);
+    }
+
     // Handle direct commands
     if (args[0] === 'add') {
-        await runWithErrorHandling(runAddCommand, 'Add/Edit');
+        await runWithErrorHandling(() => runAddCommand(args.slice(1)), 'Add/Edit');
         return;
     }
 
@@ -235,9 +372,69 @@ export async function run(): Promise<void> {
         return;
     }
 
+    if (args[0] === 'regenerate') {
+        await runWithErrorHandling(() => runRegenerateCommand(args.slice(1)), 'Regenerate');
+        return;
+    }
+
+    if (args[0] === 'doctor') {
+        await runWithErrorHandling(() => runDoctorCommand(args.slice(1)), 'Doctor');
+        return;
+    }
+
+    if (args[0] === 'test') {
+        await runWithErrorHandling(() => runConnectionTestCommand(args.slice(1)), 'Test');
+        return;
+    }
+
+    if (args[0] === 'shells') {
+        await runWithErrorHandling(() => runShellsCommand(args.slice(1)), 'Shells');
+        return;
+    }
+
+    if (args[0] === 'cost') {
+        await runWithErrorHandling(() => runCostCommand(args.slice(1)), 'Cost');
+        return;
+    }
+
+    if (args[0] === 'export') {
+        await runWithErrorHandling(() => runExportCommand(args.slice(1)), 'Export');
+        return;
+    }
+
+    if (args[0] === 'import') {
+        await runWithErrorHandling(() => runImportCommand(args.slice(1)), 'Import');
+        return;
+    }
+
+    if (args[0] === 'secrets') {
+        await runWithErrorHandling(() => runSecretsCommand(args.slice(1)), 'Secrets');
+        return;
+    }
+
+    if (args[0] === 'usage') {
+        await runWithErrorHandling(() => runUsageCommand(args.slice(1)), 'Usage');
+        return;
+    }
+
+    if (args[0] === 'budget') {
+        await runWithErrorHandling(() => runBudgetCommand(args.slice(1)), 'Budget');
+        return;
+    }
+
+    if (args[0] === 'failover') {
+        await runWithErrorHandling(() => runFailoverCommand(args.slice(1)), 'Failover');
+        return;
+    }
+
+    if (args[0] === 'registry') {
+        await runWithErrorHandling(() => runRegistryCommand(args.slice(1)), 'Registry');
+        return;
+    }
+
     if (args[0] === 'list') {
         showHeader();
-        showDetailedList();
+        await showDetailedList();
         return;
     }
 
@@ -266,6 +463,7 @@ export async function run(): Promise<void> {
                     { name: '➕  Add/Edit alias', value: 'add' },
                     { name: '➖  Remove aliases', value: 'remove' },
                     { name: '📂  List all aliases', value: 'list' },
+                    { name: '🔄  Regenerate scripts', value: 'regenerate' },
                     { name: '🔻  Exit', value: 'exit' }
                 ]
             });
@@ -273,7 +471,7 @@ export async function run(): Promise<void> {
             switch (choice) {
                 case 'add': {
                     // Command handles its own clearing and header
-                    const cancelled = await runWithErrorHandling(runAddCommand, 'Add/Edit');
+                    const cancelled = await runWithErrorHandling(() => runAddCommand(), 'Add/Edit');
                     if (cancelled) {
                         // User pressed Ctrl+C - go back to menu immediately
                         clearScreen();
@@ -308,13 +506,25 @@ export async function run(): Promise<void> {
                 case 'list':
                     clearScreen();
                     showHeader();
-                    showDetailedList();
+                    await showDetailedList();
                     // Wait for user to read list, then return to menu
                     await waitForEnter();
                     clearScreen();
                     showHeader();
                     showStatus();
                     break;
+                case 'regenerate': {
+                    clearScreen();
+                    showHeader();
+                    const cancelled = await runWithErrorHandling(() => runRegenerateCommand(), 'Regenerate');
+                    if (!cancelled) {
+                        await waitForEnter();
+                    }
+                    clearScreen();
+                    showHeader();
+                    showStatus();
+                    break;
+                }
                 case 'exit':
                     shouldContinue = false;
                     break;
@@ -0,0 +1,224 @@
+import * as litellm from './litellm.js';
+import * as pricing from './pricing.js';
+import * as usage from './usage.js';
+import type { BudgetCap, BudgetCapStatus, BudgetPeriod, ClaudeAliasConfig, UsageRecord } from '../types/index.js';
+
+const TOKEN_SUFFIXES: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'monthly'];
+
+/**
+ * Parse a cap such as 50usd, $50, 2M, 500k tokens or 1000000 (null if invalid).
+ * Amounts without a currency are token counts.
+ */
+export function parseCap(value: string): Pick<BudgetCap, 'limit' | 'unit'> | null {
+    const normalized = value.trim().toLowerCase().replace(/\s+/g, '');
+    const usd = normalized.match(/^(?:\$(\d+(?:\.\d+)?)|(\d+(?:\.\d+)?)(?:usd|\$))$/);
+    if (usd) {
+        const limit = parseFloat(usd[1] ?? usd[2]);
+        return limit > 0 ? { limit, unit: 'usd' } : null;
+    }
+    const tokens = normalized.match(/^(\d+(?:\.\d+)?)([kmb])?(?:tokens?)?$/);
+    if (tokens) {
+        const limit = Math.round(parseFloat(tokens[1]) * (tokens[2] ? TOKEN_SUFFIXES[tokens[2]] : 1));
+        return limit > 0 ? { limit, unit: 'tokens' } : null;
+    }
+    return null;
+}
+
+/**
+ * Format an amount in a cap's unit ($12.30, 1.5M tokens)
+ */
+export function formatAmount(amount: number, unit: BudgetCap['unit']): string {
+    if (unit === 'usd') return litellm.formatUsd(amount);
+    if (amount >= 1e6) return `${Number((amount / 1e6).toFixed(2))}M tokens`;
+    if (amount >= 1e3) return `${Number((amount / 1e3).toFixed(1))}k tokens`;
+    return `${amount} tokens`;
+}
+
+/**
+ * Describe a cap, e.g. "monthly hard cap of $50"
+ */
+export function describeCap(cap: BudgetCap): string {
+    return `${cap.period} ${cap.hard ? 'hard' : 'soft'} cap of ${formatAmount(cap.limit, cap.unit)}`;
+}
+
+/**
+ * Get when the current period started (local midnight, or the 1st of the month)
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+    return period === 'daily'
+        ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+        : new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * Count every token a request used: input, output and cache reads and writes
+ */
+function countTokens(record: UsageRecord): number {
+    return (record.inputTokens || 0) + (record.outputTokens || 0)
+        + (record.cacheReadInputTokens || 0) + (record.cacheCreationInputTokens || 0);
+}
+
+/**
+ * Load registry prices for spend. The cached registry is used as is when there is one,
+ * so launching an alias is not held up by a download.
+ */
+export async function loadPrices(): Promise<void> {
+    await litellm.fetchRegistry({ cacheOnly: litellm.readCacheMeta() !== null });
+}
+
+/**
+ * Get the models an alias (or one of its fallbacks) may use that have no registry price.
+ * Dollar caps count their requests as $0, so they cannot hold such an alias back.
+ * Call loadPrices first.
+ */
+export async function findUnpricedModels(config: ClaudeAliasConfig): Promise<string[]> {
+    const unpriced = new Set<string>();
+    for (const upstream of [config, ...(config.failover || [])]) {
+        for (const tier of pricing.MODEL_TIERS) {
+            const model = pricing.getTierModel(upstream, tier);
+            if (!model || unpriced.has(model)) continue;
+            const cost = await pricing.priceUsage({
+                model,
+                provider: upstream.provider,
+                inputTokens: 0,
+                outputTokens: 0,
+                cacheReadInputTokens: 0,
+                cacheCreationInputTokens: 0
+            });
+            if (cost === undefined) unpriced.add(model);
+        }
+    }
+    return [...unpriced];
+}
+
+interface PeriodTotals {
+    start: number;
+    usd: number;
+    tokens: number;
+}
+
+/**
+ * Check whether any cap is in dollars, so spend (and the price registry) is needed
+ */
+export function hasDollarCaps(caps: BudgetCap[]): boolean {
+    return caps.some(cap => cap.unit === 'usd');
+}
+
+/**
+ * Total an alias's usage for the current period of each budget period in use.
+ * Spend is only priced when `priced` is set, so token caps never need the registry.
+ */
+async function measure(alias: string, periods: BudgetPeriod[], now: Date, priced: boolean): Promise<Map<BudgetPeriod, PeriodTotals>> {
+    const totals = new Map<BudgetPeriod, PeriodTotals>();
+    const starts = periods.map(period => getPeriodStart(period, now));
+    const earliest = new Date(Math.min(...starts.map(d => d.getTime())));
+    const records = usage.readUsage(alias, earliest);
+
+    for (const [index, period] of periods.entries()) {
+        const start = starts[index].getTime();
+        const inPeriod = records.filter(r => new Date(r.timestamp).getTime() >= start && r.status < 400);
+        const [summary] = priced ? await usage.summarizeUsage(inPeriod.map(record => ({ alias, record })), 'alias') : [];
+        totals.set(period, {
+            start,
+            usd: summary?.cost ?? 0,
+            tokens: inPeriod.reduce((sum, record) => sum + countTokens(record), 0)
+        });
+    }
+    return totals;
+}
+
+/**
+ * Check an alias's caps against its usage this day / month
+ */
+export async function getBudgetStatus(alias: string, caps: BudgetCap[], now: Date = new Date()): Promise<BudgetCapStatus[]> {
+    const periods = BUDGET_PERIODS.filter(period => caps.some(cap => cap.period === period));
+    if (periods.length === 0) return [];
+
+    const totals = await measure(alias, periods, now, hasDollarCaps(caps));
+    return caps.map(cap => {
+        const used = totals.get(cap.period)![cap.unit];
+        return { cap, used, exceeded: used >= cap.limit };
+    });
+}
+
+export interface BudgetGuard {
+    /** Why new requests are refused (a hard cap is reached), or null */
+    check(): Promise<string | null>;
+    /** Count requests logged since the last look; resolves to descriptions of the caps they crossed */
+    update(): Promise<string[]>;
+}
+
+/**
+ * Track an alias's spend during a session from its usage log. Every look reads what was
+ * appended since the last one, so requests from other sessions of the alias count too.
+ * Totals start over when a new day or month begins.
+ */
+export async function createBudgetGuard(alias: string, caps: BudgetCap[]): Promise<BudgetGuard> {
+    const periods = BUDGET_PERIODS.filter(period => caps.some(cap => cap.period === period));
+    const priced = hasDollarCaps(caps);
+    const totals = new Map<BudgetPeriod, PeriodTotals>();
+    let offset = 0;
+
+    const current = (period: BudgetPeriod): PeriodTotals => {
+        const start = getPeriodStart(period).getTime();
+        let entry = totals.get(period);
+        if (!entry || entry.start < start) {
+            entry = { start, usd: 0, tokens: 0 };
+            totals.set(period, entry);
+        }
+        return entry;
+    };
+
+    const readNew = async (): Promise<string[]> => {
+        const read = usage.readUsageFrom(alias, offset);
+        offset = read.offset;
+        const crossed: string[] = [];
+        for (const record of read.records) {
+            if (record.status >= 400) continue;
+            const cost = priced ? await pricing.priceUsage(record) ?? 0 : 0;
+            for (const period of periods) {
+                const entry = current(period);
+                if (new Date(record.timestamp).getTime() < entry.start) continue;
+                const before = { ...entry };
+                entry.usd += cost;
+                entry.tokens += countTokens(record);
+                for (const cap of caps.filter(c => c.period === period)) {
+                    if (before[cap.unit] < cap.limit && entry[cap.unit] >= cap.limit) {
+                        crossed.push(describeCap(cap));
+                    }
+                }
+            }
+        }
+        return crossed;
+    };
+
+    // Looks run one at a time, so no part of the log is counted twice
+    let reading: Promise<string[]> = readNew();
+    const look = (): Promise<string[]> => {
+        reading = reading.then(readNew, readNew);
+        return reading;
+    };
+    // Caps the log already crossed before this session are not news
+    await reading;
+
+    // Crossings first seen by check() are reported by the next update()
+    let unreported: string[] = [];
+
+    return {
+        async check() {
+            unreported.push(...await look());
+            const reached = caps.find(cap => cap.hard && current(cap.period)[cap.unit] >= cap.limit);
+            if (!reached) return null;
+            const used = formatAmount(current(reached.period)[reached.unit], reached.unit);
+            return `Budget reached for '${alias}': ${used} used against its ${describeCap(reached)}. `
+                + `Raise it with "claude-alias budget set ${alias} --${reached.period} <cap>" or wait for the next ${reached.period === 'daily' ? 'day' : 'month'}.`;
+        },
+        async update() {
+            const crossed = [...unreported, ...await look()];
+            unreported = [];
+            return crossed;
+        }
+    };
+}
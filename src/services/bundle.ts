@@ -0,0 +1,221 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import * as profile from './profile.js';
+import type { AliasBundle, BudgetCap, ClaudeAliasConfig, FailoverUpstream, SecretsEnvelope } from '../types/index.js';
+
+const BUNDLE_FORMAT = 'claude-alias-bundle';
+export const BUNDLE_VERSION = 1;
+
+// Passphrase encryption settings
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Derive the envelope key from a passphrase
+ */
+function deriveKey(passphrase: string, salt: Buffer, params: SecretsEnvelope['kdfParams']): Buffer {
+    return scryptSync(passphrase, salt, KEY_LENGTH, {
+        ...params,
+        // scrypt needs 128 * N * r bytes; Node's default limit is 32 MiB
+        maxmem: 256 * params.N * params.r
+    });
+}
+
+/**
+ * Check a passphrase is long enough to protect exported keys
+ */
+export function validatePassphrase(passphrase: string): true | string {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`;
+    }
+    return true;
+}
+
+/**
+ * Encrypt API keys (alias → key) with a passphrase
+ */
+export function encryptSecrets(secrets: Record<string, string>, passphrase: string): SecretsEnvelope {
+    const salt = randomBytes(SALT_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER, deriveKey(passphrase, salt, SCRYPT_PARAMS), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()]);
+
+    return {
+        kdf: 'scrypt',
+        kdfParams: { ...SCRYPT_PARAMS },
+        cipher: CIPHER,
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        authTag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64')
+    };
+}
+
+/**
+ * Decrypt the API keys in a bundle.
+ * Throws if the passphrase is wrong or the envelope was modified.
+ */
+export function decryptSecrets(envelope: SecretsEnvelope, passphrase: string): Record<string, string> {
+    if (envelope.kdf !== 'scrypt' || envelope.cipher !== CIPHER) {
+        throw new Error(`Unsupported secrets encryption: ${envelope.kdf}/${envelope.cipher}`);
+    }
+
+    const { N, r, p } = envelope.kdfParams || {};
+    if (![N, r, p].every(n => Number.isInteger(n) && n > 0) || N > 2 ** 20) {
+        throw new Error('Invalid key derivation parameters in bundle');
+    }
+
+    const key = deriveKey(passphrase, Buffer.from(envelope.salt, 'base64'), { N, r, p });
+    const decipher = createDecipheriv(CIPHER, key, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(envelope.authTag, 'base64'));
+
+    let plaintext: string;
+    try {
+        plaintext = Buffer.concat([
+            decipher.update(Buffer.from(envelope.data, 'base64')),
+            decipher.final()
+        ]).toString('utf-8');
+    } catch {
+        throw new Error('Wrong passphrase, or the bundle\'s secrets were modified');
+    }
+    return JSON.parse(plaintext);
+}
+
+/**
+ * Build an export bundle. Secrets are only included when a passphrase is given.
+ */
+export function createBundle(
+    configs: ClaudeAliasConfig[],
+    secrets?: Record<string, string>,
+    passphrase?: string
+): AliasBundle {
+    return {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        aliases: configs,
+        ...(secrets && passphrase ? { secrets: encryptSecrets(secrets, passphrase) } : {})
+    };
+}
+
+/**
+ * Check a fallback upstream of an imported alias, returning an error message or null
+ */
+function validateFailoverUpstream(fallback: Partial<FailoverUpstream>): string | null {
+    if (typeof fallback.provider !== 'string' || !fallback.provider) return 'missing "provider"';
+    if (typeof fallback.keyAlias !== 'string' || profile.validateAliasName(fallback.keyAlias) !== true) return 'missing or invalid "keyAlias"';
+    if (typeof fallback.baseUrl !== 'string') return 'missing "baseUrl"';
+    try {
+        new URL(fallback.baseUrl);
+    } catch {
+        return `invalid base URL: ${fallback.baseUrl}`;
+    }
+    if (fallback.apiFormat !== undefined && fallback.apiFormat !== 'anthropic' && fallback.apiFormat !== 'openai') {
+        return '"apiFormat" must be "anthropic" or "openai"';
+    }
+    const stringFields = ['opusModel', 'sonnetModel', 'haikuModel', 'subagentModel'] as const;
+    for (const field of stringFields) {
+        if (fallback[field] !== undefined && typeof fallback[field] !== 'string') return `"${field}" must be a string`;
+    }
+    return null;
+}
+
+/**
+ * Check a budget cap of an imported alias, returning an error message or null
+ */
+function validateBudgetCap(cap: Partial<BudgetCap>): string | null {
+    if (cap.period !== 'daily' && cap.period !== 'monthly') return '"period" must be "daily" or "monthly"';
+    if (cap.unit !== 'usd' && cap.unit !== 'tokens') return '"unit" must be "usd" or "tokens"';
+    if (typeof cap.limit !== 'number' || !(cap.limit > 0)) return '"limit" must be a positive number';
+    if (typeof cap.hard !== 'boolean') return '"hard" must be true or false';
+    return null;
+}
+
+/**
+ * Check that an imported alias record is a usable config, returning an error message or null
+ */
+function validateBundleConfig(config: Partial<ClaudeAliasConfig>): string | null {
+    if (typeof config.alias !== 'string') return 'missing "alias"';
+    const aliasCheck = profile.validateAliasName(config.alias);
+    if (aliasCheck !== true) return aliasCheck;
+    if (typeof config.provider !== 'string' || !config.provider) return 'missing "provider"';
+    if (typeof config.baseUrl !== 'string') return 'missing "baseUrl"';
+    try {
+        new URL(config.baseUrl);
+    } catch {
+        return `invalid base URL: ${config.baseUrl}`;
+    }
+
+    const stringFields = ['opusModel', 'sonnetModel', 'haikuModel', 'subagentModel', 'model', 'smallFastModel'] as const;
+    for (const field of stringFields) {
+        if (config[field] !== undefined && typeof config[field] !== 'string') return `"${field}" must be a string`;
+    }
+    if (config.apiFormat !== undefined && config.apiFormat !== 'anthropic' && config.apiFormat !== 'openai') {
+        return '"apiFormat" must be "anthropic" or "openai"';
+    }
+    if (config.trackUsage !== undefined && typeof config.trackUsage !== 'boolean') return '"trackUsage" must be true or false';
+    if (config.failover !== undefined) {
+        if (!Array.isArray(config.failover)) return '"failover" must be a list';
+        for (const [index, fallback] of config.failover.entries()) {
+            const error = validateFailoverUpstream(fallback ?? {});
+            if (error) return `failover #${index + 1}: ${error}`;
+        }
+    }
+    if (config.budgets !== undefined) {
+        if (!Array.isArray(config.budgets)) return '"budgets" must be a list';
+        for (const [index, cap] of config.budgets.entries()) {
+            const error = validateBudgetCap(cap ?? {});
+            if (error) return `budget #${index + 1}: ${error}`;
+        }
+    }
+    if (config.maxOutputTokens !== undefined && !(Number.isInteger(config.maxOutputTokens) && config.maxOutputTokens > 0)) {
+        return '"maxOutputTokens" must be a positive integer';
+    }
+    if (config.defaultArgs !== undefined && !(Array.isArray(config.defaultArgs) && config.defaultArgs.every(a => typeof a === 'string'))) {
+        return '"defaultArgs" must be a list of strings';
+    }
+    for (const [name, value] of Object.entries(config.customEnv || {})) {
+        const nameCheck = profile.validateEnvVarName(name);
+        if (nameCheck !== true) return nameCheck;
+        if (typeof value !== 'string') return `customEnv ${name} must be a string`;
+        const valueCheck = profile.validateEnvVarValue(value);
+        if (valueCheck !== true) return `${name}: ${valueCheck}`;
+    }
+    return null;
+}
+
+/**
+ * Parse and validate a bundle file's contents. Throws with a readable message if invalid.
+ */
+export function parseBundle(content: string): AliasBundle {
+    let raw: Partial<AliasBundle>;
+    try {
+        raw = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!raw || raw.format !== BUNDLE_FORMAT || !Array.isArray(raw.aliases)) {
+        throw new Error('Not a claude-alias bundle (create one with "claude-alias export")');
+    }
+    if (typeof raw.version !== 'number' || raw.version > BUNDLE_VERSION) {
+        throw new Error(`Bundle was written by a newer claude-alias (format v${raw.version}). Please upgrade claude-alias.`);
+    }
+
+    const seen = new Set<string>();
+    for (const [index, config] of raw.aliases.entries()) {
+        const error = validateBundleConfig(config ?? {});
+        if (error) {
+            throw new Error(`Alias #${index + 1}${config?.alias ? ` (${config.alias})` : ''}: ${error}`);
+        }
+        if (seen.has(config.alias)) {
+            throw new Error(`Alias '${config.alias}' appears more than once`);
+        }
+        seen.add(config.alias);
+    }
+
+    return raw as AliasBundle;
+}
@@ -0,0 +1,183 @@
+import { mkdirSync, writeFileSync, existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import * as profile from './profile.js';
+import type { AliasConfigStore, ClaudeAliasConfig } from '../types/index.js';
+
+const CONFIG_DIR = join(homedir(), '.config', 'claude-alias');
+const ALIASES_FILE = join(CONFIG_DIR, 'aliases.json');
+
+// Bump when the stored shape changes and add a matching entry to MIGRATIONS
+export const CONFIG_SCHEMA_VERSION = 1;
+
+/**
+ * Schema migrations, keyed by the version they upgrade FROM.
+ * Each step receives the raw store at that version and returns the next version.
+ */
+const MIGRATIONS: Record<number, (store: AliasConfigStore) => AliasConfigStore> = {};
+
+/**
+ * Get the claude-alias config directory (~/.config/claude-alias)
+ */
+export function getConfigDir(): string {
+    return CONFIG_DIR;
+}
+
+/**
+ * Get the path of the canonical alias config file
+ */
+export function getConfigPath(): string {
+    return ALIASES_FILE;
+}
+
+/**
+ * Ensure the config directory exists
+ */
+function ensureConfigDir(): void {
+    if (!existsSync(CONFIG_DIR)) {
+        mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
+    }
+}
+
+/**
+ * Apply schema migrations until the store reaches the current version
+ */
+function migrateStore(store: AliasConfigStore): AliasConfigStore {
+    if (store.version > CONFIG_SCHEMA_VERSION) {
+        throw new Error(
+            `${ALIASES_FILE} was written by a newer claude-alias (schema v${store.version}). Please upgrade claude-alias.`
+        );
+    }
+
+    let migrated = store;
+    while (migrated.version < CONFIG_SCHEMA_VERSION) {
+        const migrate = MIGRATIONS[migrated.version];
+        if (!migrate) {
+            throw new Error(`No migration from config schema v${migrated.version}`);
+        }
+        migrated = migrate(migrated);
+    }
+    return migrated;
+}
+
+/**
+ * Import configs from existing profile scripts (one-time migration).
+ * Only scripts managed by claude-alias with a parseable base URL are imported.
+ */
+export function importFromScripts(): Record<string, ClaudeAliasConfig> {
+    const imported: Record<string, ClaudeAliasConfig> = {};
+    const now = new Date().toISOString();
+
+    for (const p of profile.listProfiles()) {
+        if (!profile.isManagedScript(p.content)) continue;
+
+        const parsed = profile.parseScriptConfig(p.content);
+        if (!parsed.baseUrl) continue;
+
+        imported[p.alias] = {
+            ...parsed,
+            alias: p.alias,
+            provider: p.provider,
+            baseUrl: parsed.baseUrl,
+            createdAt: parsed.createdAt || now,
+            updatedAt: parsed.updatedAt || now
+        };
+    }
+
+    return imported;
+}
+
+/**
+ * Write the store to disk
+ */
+function writeStore(store: AliasConfigStore): void {
+    ensureConfigDir();
+    writeFileSync(ALIASES_FILE, JSON.stringify(store, null, 2) + '\n', { mode: 0o600 });
+}
+
+/**
+ * Load the alias config store, creating it from existing scripts on first use
+ * and migrating older schema versions in place.
+ */
+export function loadStore(): AliasConfigStore {
+    if (!existsSync(ALIASES_FILE)) {
+        const store: AliasConfigStore = {
+            version: CONFIG_SCHEMA_VERSION,
+            aliases: importFromScripts()
+        };
+        writeStore(store);
+        return store;
+    }
+
+    let raw: AliasConfigStore;
+    try {
+        raw = JSON.parse(readFileSync(ALIASES_FILE, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Failed to read ${ALIASES_FILE}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const store = migrateStore({
+        version: typeof raw.version === 'number' ? raw.version : CONFIG_SCHEMA_VERSION,
+        aliases: raw.aliases || {}
+    });
+
+    if (store.version !== raw.version) {
+        writeStore(store);
+    }
+
+    return store;
+}
+
+/**
+ * Get the stored config for an alias
+ */
+export function getAliasConfig(alias: string): ClaudeAliasConfig | null {
+    return loadStore().aliases[alias] || null;
+}
+
+/**
+ * List all stored alias configs
+ */
+export function listAliasConfigs(): ClaudeAliasConfig[] {
+    return Object.values(loadStore().aliases);
+}
+
+/**
+ * Save (create or replace) the config for an alias
+ */
+export function saveAliasConfig(config: ClaudeAliasConfig): void {
+    const store = loadStore();
+    store.aliases[config.alias] = config;
+    writeStore(store);
+}
+
+/**
+ * Delete the stored config for an alias
+ */
+export function deleteAliasConfig(alias: string): boolean {
+    try {
+        const store = loadStore();
+        if (store.aliases[alias]) {
+            delete store.aliases[alias];
+            writeStore(store);
+        }
+        return true;
+    } catch (error) {
+        console.error('Failed to delete alias config:', error);
+        return false;
+    }
+}
+
+/**
+ * Resolve the best known config for an alias: the stored config if present,
+ * otherwise whatever can be recovered from its profile script.
+ */
+export function resolveAliasConfig(alias: string): Partial<ClaudeAliasConfig> {
+    const stored = getAliasConfig(alias);
+    if (stored) return stored;
+
+    const script = profile.listProfiles().find(p => p.alias === alias);
+    if (!script) return {};
+
+    return { ...profile.parseScriptConfig(script.content), alias, provider: script.provider };
+}
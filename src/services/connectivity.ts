@@ -0,0 +1,288 @@
+import type { ClaudeAliasConfig, ProbeFailureKind, ProbeResult, ProviderModel } from '../types/index.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_TIMEOUT_MS = 30000;
+// Anthropic's models endpoint is paginated; stop following has_more after this many pages
+const MAX_MODEL_PAGES = 20;
+
+// Used when no tier model is configured (Claude Code then sends its own defaults)
+export const DEFAULT_PROBE_MODEL = 'claude-sonnet-4-5';
+
+export interface ProbeOptions {
+    baseUrl: string;
+    apiKey: string;
+    useAuthToken?: boolean;
+    model: string;
+    timeoutMs?: number;
+}
+
+/**
+ * Build the Messages endpoint URL the way Claude Code does (base URL + /v1/messages)
+ */
+export function getMessagesUrl(baseUrl: string): string {
+    return `${baseUrl.replace(/\/+$/, '')}/v1/messages`;
+}
+
+/**
+ * Build the models endpoint URL: base URL + /v1/models, or + /models when the
+ * base already ends in an API version (OpenAI-style, e.g. https://openrouter.ai/api/v1)
+ */
+export function getModelsUrl(baseUrl: string): string {
+    const base = baseUrl.replace(/\/+$/, '');
+    return /\/v\d+[a-z0-9]*$/.test(base) ? `${base}/models` : `${base}/v1/models`;
+}
+
+/**
+ * Build the OpenAI Chat Completions URL for an OpenAI-compatible base URL
+ * (base + /chat/completions when it ends in an API version, otherwise + /v1/chat/completions)
+ */
+export function getChatCompletionsUrl(baseUrl: string): string {
+    const base = baseUrl.replace(/\/+$/, '');
+    return /\/v\d+[a-z0-9]*$/.test(base) ? `${base}/chat/completions` : `${base}/v1/chat/completions`;
+}
+
+/**
+ * Build auth headers for the chosen token type
+ */
+export function getAuthHeaders(apiKey: string, useAuthToken?: boolean): Record<string, string> {
+    return useAuthToken
+        ? { 'Authorization': `Bearer ${apiKey}` }
+        : { 'x-api-key': apiKey };
+}
+
+/**
+ * Extract an error message from an Anthropic- or OpenAI-style error body
+ */
+function extractErrorMessage(body: string): string {
+    try {
+        const parsed = JSON.parse(body);
+        const message = parsed?.error?.message ?? parsed?.message ?? parsed?.error;
+        if (typeof message === 'string') return message;
+    } catch {
+        // Not JSON
+    }
+    return body.trim().substring(0, 200);
+}
+
+/**
+ * Classify a failed HTTP response
+ */
+export function classifyFailure(status: number, body: string, baseUrl: string): { failure: ProbeFailureKind; message: string } {
+    const providerMessage = extractErrorMessage(body);
+    const mentionsModel = /model/i.test(providerMessage);
+    const isJson = (() => {
+        try {
+            JSON.parse(body);
+            return true;
+        } catch {
+            return false;
+        }
+    })();
+
+    if (status === 401 || status === 403) {
+        return { failure: 'auth', message: `API key rejected${providerMessage ? `: ${providerMessage}` : ''}` };
+    }
+
+    if ((status === 400 || status === 404 || status === 422) && mentionsModel) {
+        return { failure: 'model', message: `Unknown or unavailable model: ${providerMessage}` };
+    }
+
+    if (status === 404 || status === 405 || (!isJson && status < 500)) {
+        const hint = /\/anthropic\/?$/.test(baseUrl)
+            ? 'check the base URL path'
+            : 'check the base URL path (e.g. a missing /anthropic suffix)';
+        return { failure: 'path', message: `Endpoint ${getMessagesUrl(baseUrl)} not found - ${hint}` };
+    }
+
+    if (status === 429) {
+        return { failure: 'rate_limit', message: `Rate limited${providerMessage ? `: ${providerMessage}` : ''}` };
+    }
+
+    if (status >= 500) {
+        return { failure: 'server', message: `Provider error${providerMessage ? `: ${providerMessage}` : ''}` };
+    }
+
+    return { failure: 'other', message: providerMessage || `HTTP ${status}` };
+}
+
+/**
+ * Send a minimal Anthropic Messages request for one model
+ */
+export async function probeModel(options: ProbeOptions): Promise<Omit<ProbeResult, 'tiers'>> {
+    const started = Date.now();
+
+    try {
+        const response = await fetch(getMessagesUrl(options.baseUrl), {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                'anthropic-version': ANTHROPIC_VERSION,
+                ...getAuthHeaders(options.apiKey, options.useAuthToken)
+            },
+            body: JSON.stringify({
+                model: options.model,
+                max_tokens: 1,
+                messages: [{ role: 'user', content: 'ping' }]
+            }),
+            signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+        });
+
+        const body = await response.text();
+        const latencyMs = Date.now() - started;
+
+        if (response.ok) {
+            return { model: options.model, ok: true, status: response.status, latencyMs };
+        }
+
+        return {
+            model: options.model,
+            ok: false,
+            status: response.status,
+            latencyMs,
+            ...classifyFailure(response.status, body, options.baseUrl)
+        };
+    } catch (error) {
+        const latencyMs = Date.now() - started;
+        const isTimeout = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+        const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : '';
+
+        return {
+            model: options.model,
+            ok: false,
+            latencyMs,
+            failure: isTimeout ? 'timeout' : 'network',
+            message: isTimeout
+                ? `No response within ${options.timeoutMs ?? DEFAULT_TIMEOUT_MS}ms`
+                : `Could not connect to ${options.baseUrl}${cause ? `: ${cause}` : ''}`
+        };
+    }
+}
+
+/**
+ * Group the configured tier models so each distinct model is probed once
+ */
+export function getTierModels(config: Partial<ClaudeAliasConfig>): Map<string, string[]> {
+    const tiers: [string, string | undefined][] = [
+        ['opus', config.opusModel || config.model],
+        ['sonnet', config.sonnetModel],
+        ['haiku', config.haikuModel || config.smallFastModel],
+        ['subagent', config.subagentModel]
+    ];
+
+    const models = new Map<string, string[]>();
+    for (const [tier, model] of tiers) {
+        if (!model) continue;
+        models.set(model, [...(models.get(model) || []), tier]);
+    }
+
+    if (models.size === 0) {
+        models.set(DEFAULT_PROBE_MODEL, ['default']);
+    }
+
+    return models;
+}
+
+/**
+ * Probe every configured tier model of an alias sequentially
+ */
+export async function testAlias(
+    config: Partial<ClaudeAliasConfig> & { baseUrl: string },
+    apiKey: string,
+    timeoutMs?: number
+): Promise<ProbeResult[]> {
+    const results: ProbeResult[] = [];
+
+    for (const [model, tiers] of getTierModels(config)) {
+        const result = await probeModel({
+            baseUrl: config.baseUrl,
+            apiKey,
+            useAuthToken: config.useAuthToken,
+            model,
+            timeoutMs
+        });
+        results.push({ ...result, tiers });
+    }
+
+    return results;
+}
+
+/**
+ * Parse a models list response. Accepts Anthropic ({ data: [{ id, display_name }] }),
+ * OpenAI ({ data: [{ id, owned_by }] }) and bare ({ models: [...] } or [...]) shapes.
+ */
+export function parseModelList(body: unknown): ProviderModel[] {
+    const record = body as Record<string, unknown> | null;
+    const entries = Array.isArray(body) ? body
+        : Array.isArray(record?.data) ? record!.data as unknown[]
+        : Array.isArray(record?.models) ? record!.models as unknown[]
+        : [];
+
+    const models: ProviderModel[] = [];
+    for (const entry of entries) {
+        const item = (typeof entry === 'string' ? { id: entry } : entry) as Record<string, unknown>;
+        const id = item?.id ?? item?.name;
+        if (typeof id !== 'string' || !id) continue;
+        models.push({
+            id,
+            displayName: typeof item.display_name === 'string' ? item.display_name : undefined,
+            ownedBy: typeof item.owned_by === 'string' ? item.owned_by : undefined
+        });
+    }
+    return models;
+}
+
+/**
+ * List the models a provider exposes via GET /v1/models, following Anthropic-style
+ * pagination. Throws with a readable message if the endpoint is unavailable.
+ */
+export async function listProviderModels(options: Omit<ProbeOptions, 'model'>): Promise<ProviderModel[]> {
+    const url = getModelsUrl(options.baseUrl);
+    const models: ProviderModel[] = [];
+    let afterId: string | undefined;
+
+    for (let page = 0; page < MAX_MODEL_PAGES; page++) {
+        const pageUrl = afterId ? `${url}?limit=1000&after_id=${encodeURIComponent(afterId)}` : url;
+        let response: Response;
+        try {
+            response = await fetch(pageUrl, {
+                headers: {
+                    'anthropic-version': ANTHROPIC_VERSION,
+                    ...getAuthHeaders(options.apiKey, options.useAuthToken)
+                },
+                signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+            });
+        } catch (error) {
+            const isTimeout = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+            const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : '';
+            throw new Error(isTimeout
+                ? `No response from ${url} within ${options.timeoutMs ?? DEFAULT_TIMEOUT_MS}ms`
+                : `Could not connect to ${options.baseUrl}${cause ? `: ${cause}` : ''}`);
+        }
+
+        const body = await response.text();
+        if (response.status === 401 || response.status === 403) {
+            throw new Error(`API key rejected: ${extractErrorMessage(body) || `HTTP ${response.status}`}`);
+        }
+        if (response.status === 404 || response.status === 405) {
+            throw new Error(`${url} not found - this provider may not offer a models endpoint`);
+        }
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${extractErrorMessage(body)}`);
+        }
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(body);
+        } catch {
+            throw new Error(`${url} did not return JSON`);
+        }
+
+        models.push(...parseModelList(parsed));
+
+        const record = parsed as { has_more?: boolean; last_id?: string };
+        if (!record?.has_more || !record.last_id) break;
+        afterId = record.last_id;
+    }
+
+    return models;
+}
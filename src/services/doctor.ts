@@ -0,0 +1,331 @@
+import { spawnSync } from 'child_process';
+import { existsSync, lstatSync, unlinkSync } from 'fs';
+import { delimiter, join, resolve } from 'path';
+import * as configStore from './config.js';
+import * as profile from './profile.js';
+import * as secrets from './secrets/index.js';
+import * as encryptedFile from './secrets/encrypted-file.js';
+import * as shell from './shell.js';
+import type { DoctorFinding } from '../types/index.js';
+
+// Files the generated script symlinks into CLAUDE_HOME
+const CLAUDE_HOME_SYMLINKS = ['settings.json', '.claude.json'];
+
+/**
+ * Check whether a command is available on PATH
+ */
+function commandExists(command: string): boolean {
+    try {
+        const result = spawnSync('which', [command], { stdio: 'pipe' });
+        return result.status === 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get the alias arguments an alias should have according to its config
+ */
+function expectedAliasArgs(alias: string): string[] {
+    return shell.getAliasArgs(configStore.resolveAliasConfig(alias));
+}
+
+/**
+ * Check that ~/.local/bin is on PATH and that Claude Code is installed
+ */
+function checkEnvironment(): DoctorFinding[] {
+    const findings: DoctorFinding[] = [];
+    const localBin = profile.getLocalBinDir();
+    const pathEntries = (process.env.PATH || '').split(delimiter).map(p => resolve(p));
+
+    if (!pathEntries.includes(resolve(localBin))) {
+        const inProfile = shell.profileAddsLocalBinToPath();
+        findings.push({
+            check: 'path',
+            severity: 'error',
+            message: inProfile
+                ? `${localBin} is not on PATH in this shell (your shell profile adds it - source ${shell.getProfilePath()})`
+                : `${localBin} is not on PATH, so profile scripts cannot be found`,
+            fix: inProfile ? undefined : {
+                description: `Add ${localBin} to PATH in ${shell.getProfilePath()}`,
+                apply: async () => shell.addLocalBinToPath()
+            }
+        });
+    }
+
+    if (!commandExists('claude')) {
+        findings.push({
+            check: 'claude-missing',
+            severity: 'error',
+            message: "'claude' command not found - install Claude Code and make sure it is on PATH"
+        });
+    }
+
+    if (secrets.getPlatform() === 'unsupported') {
+        findings.push({
+            check: 'platform',
+            severity: 'error',
+            message: `Unsupported platform: ${process.platform}. Only macOS and Linux are supported.`
+        });
+    } else if (secrets.isUsingFallback()) {
+        let passphraseProtected = false;
+        try {
+            passphraseProtected = encryptedFile.getFileInfo()?.mode === 'passphrase';
+        } catch {
+            // Unreadable header: report as unprotected
+        }
+        findings.push({
+            check: 'secret-fallback',
+            severity: passphraseProtected ? 'info' : 'warning',
+            message: passphraseProtected
+                ? 'secret-tool is not installed; API keys are stored in the encrypted file fallback, protected by a master passphrase'
+                : 'secret-tool is not installed; API keys are stored in the encrypted file fallback, protected only by a machine key (install libsecret-tools, or run "claude-alias secrets migrate --passphrase")'
+        });
+    }
+
+    return findings;
+}
+
+/**
+ * Cross-check profile scripts, stored configs and shell aliases
+ */
+function checkAliases(): DoctorFinding[] {
+    const findings: DoctorFinding[] = [];
+    const scripts = profile.listProfiles().filter(p => profile.isManagedScript(p.content));
+    const configs = configStore.listAliasConfigs();
+    const allAliases = shell.listAllClaudeAliases();
+    const managedAliases = shell.listManagedAliases();
+
+    // Scripts with no alias pointing at them
+    for (const script of scripts) {
+        const scriptName = `claude-${script.alias}`;
+        const pointing = allAliases.filter(a => shell.getScriptNameFromCommand(a.command) === scriptName);
+        if (pointing.length === 0) {
+            findings.push({
+                check: 'orphaned-script',
+                severity: 'warning',
+                message: `Script ${script.path} has no shell alias pointing to it`,
+                fix: {
+                    description: `Add shell alias '${script.alias}' → ${scriptName}`,
+                    apply: async () => shell.addAlias(script.alias, script.path, expectedAliasArgs(script.alias))
+                }
+            });
+        }
+
+        if (profile.isScriptModified(script.content)) {
+            findings.push({
+                check: 'hand-edited',
+                severity: 'info',
+                message: `Script for '${script.alias}' was edited by hand; "claude-alias regenerate" would overwrite it`
+            });
+        }
+    }
+
+    // Stored configs whose script is missing
+    for (const config of configs) {
+        if (!profile.profileExists(config.alias)) {
+            findings.push({
+                check: 'missing-script',
+                severity: 'error',
+                message: `Alias '${config.alias}' has a stored config but no script at ${profile.getScriptPath(config.alias)}`,
+                fix: {
+                    description: `Regenerate ${profile.getScriptPath(config.alias)} from stored config`,
+                    apply: async () => {
+                        profile.writeScript(config);
+                        return true;
+                    }
+                }
+            });
+        }
+    }
+
+    // Managed aliases whose target script does not exist, or points at the wrong script
+    for (const alias of managedAliases) {
+        const scriptName = shell.getScriptNameFromCommand(alias.command);
+        const scriptPath = join(profile.getLocalBinDir(), scriptName);
+        const expectedScript = `claude-${alias.name}`;
+        const hasOwnScript = profile.profileExists(alias.name);
+
+        if (!existsSync(scriptPath)) {
+            // Already reported (and fixable) as a missing script above
+            if (scriptName === expectedScript && configStore.getAliasConfig(alias.name)) continue;
+
+            findings.push({
+                check: 'alias-without-script',
+                severity: 'error',
+                message: `Alias '${alias.name}' points to ${scriptName}, which does not exist`,
+                fix: hasOwnScript ? {
+                    description: `Point alias '${alias.name}' at ${expectedScript}`,
+                    apply: async () => shell.addAlias(alias.name, profile.getScriptPath(alias.name), expectedAliasArgs(alias.name))
+                } : {
+                    description: `Remove alias '${alias.name}'`,
+                    apply: async () => shell.removeAlias(alias.name)
+                }
+            });
+        } else if (scriptName !== expectedScript && hasOwnScript) {
+            findings.push({
+                check: 'alias-mismatch',
+                severity: 'warning',
+                message: `Alias '${alias.name}' points to ${scriptName} instead of ${expectedScript}`,
+                fix: {
+                    description: `Point alias '${alias.name}' at ${expectedScript}`,
+                    apply: async () => shell.addAlias(alias.name, profile.getScriptPath(alias.name), expectedAliasArgs(alias.name))
+                }
+            });
+        } else if (scriptName === expectedScript && configStore.getAliasConfig(alias.name)) {
+            // Alias arguments should match the stored config (older versions always added --dangerously-skip-permissions)
+            const expectedArgs = expectedAliasArgs(alias.name);
+            if (JSON.stringify(alias.args || []) !== JSON.stringify(expectedArgs)) {
+                findings.push({
+                    check: 'alias-args-mismatch',
+                    severity: 'warning',
+                    message: `Alias '${alias.name}' passes [${(alias.args || []).join(' ')}] but its config expects [${expectedArgs.join(' ')}]`,
+                    fix: {
+                        description: `Rewrite alias '${alias.name}' from stored config`,
+                        apply: async () => shell.addAlias(alias.name, scriptPath, expectedArgs)
+                    }
+                });
+            }
+        }
+    }
+
+    // Managed block out of sync between target shell profiles
+    for (const drift of shell.detectDrift()) {
+        const problems = [
+            ...(drift.missing.length > 0 ? [`missing ${drift.missing.join(', ')}`] : []),
+            ...(drift.different.length > 0 ? [`different ${drift.different.join(', ')}`] : [])
+        ];
+        findings.push({
+            check: 'profile-drift',
+            severity: 'warning',
+            message: `${drift.path} is out of sync with other shell profiles (${problems.join('; ')})`,
+            fix: {
+                description: 'Sync managed aliases across all shell profiles',
+                apply: async () => shell.syncProfiles()
+            }
+        });
+    }
+
+    return findings;
+}
+
+/**
+ * Check that every managed alias has an API key stored
+ */
+async function checkSecrets(): Promise<DoctorFinding[]> {
+    const findings: DoctorFinding[] = [];
+
+    const scripts = profile.listProfiles().filter(p => profile.isManagedScript(p.content));
+    for (const script of scripts) {
+        const backend = secrets.getAliasBackend(script.alias);
+        if (backend === 'system' && secrets.getPlatform() === 'unsupported') continue;
+        if (await secrets.verifyApiKey(script.alias, backend)) continue;
+
+        // Keys read from the environment may simply not be exported in this shell
+        findings.push(secrets.isReadOnly(backend)
+            ? {
+                check: 'missing-key',
+                severity: 'warning',
+                message: `${secrets.getEnvVarName(script.alias)} is not set - '${script.alias}' reads its API key from it`
+            }
+            : {
+                check: 'missing-key',
+                severity: 'error',
+                message: `No API key stored for '${script.alias}' in ${secrets.getBackendLabel(backend)} - run "claude-alias add ${script.alias}" to set one`
+            });
+    }
+
+    return findings;
+}
+
+/**
+ * Check for stored API keys whose alias no longer has a profile
+ */
+async function checkOrphanedSecrets(): Promise<DoctorFinding[]> {
+    const findings: DoctorFinding[] = [];
+    const scan = await secrets.scanStoredKeys([], await secrets.getBackendsInUse());
+
+    for (const [alias, backends] of Object.entries(scan.locations)) {
+        if (profile.profileExists(alias)) continue;
+        for (const backend of backends) {
+            const label = secrets.getBackendLabel(backend);
+            findings.push({
+                check: 'orphaned-secret',
+                severity: 'warning',
+                message: `${label} holds an API key for '${alias}', which has no profile`,
+                fix: {
+                    description: `Delete the key for '${alias}' from ${label}`,
+                    apply: async () => {
+                        await secrets.deleteApiKey(alias, backend);
+                        return !await secrets.verifyApiKey(alias, backend);
+                    }
+                }
+            });
+        }
+    }
+
+    for (const failure of scan.failures) {
+        findings.push({
+            check: 'orphaned-secret',
+            severity: 'info',
+            message: `Could not list the keys in ${secrets.getBackendLabel(failure.backend)}: ${failure.error}`
+        });
+    }
+
+    return findings;
+}
+
+/**
+ * Check for dangling settings symlinks in each alias's CLAUDE_HOME
+ */
+function checkClaudeHomes(): DoctorFinding[] {
+    const findings: DoctorFinding[] = [];
+    const aliases = new Set([
+        ...profile.listProfiles().filter(p => profile.isManagedScript(p.content)).map(p => p.alias),
+        ...configStore.listAliasConfigs().map(c => c.alias)
+    ]);
+
+    for (const alias of aliases) {
+        const homeDir = profile.getProfileHomeDir(alias);
+        for (const file of CLAUDE_HOME_SYMLINKS) {
+            const linkPath = join(homeDir, file);
+            let isLink = false;
+            try {
+                isLink = lstatSync(linkPath).isSymbolicLink();
+            } catch {
+                continue;
+            }
+
+            // existsSync follows the link, so false means the target is gone
+            if (isLink && !existsSync(linkPath)) {
+                findings.push({
+                    check: 'stale-symlink',
+                    severity: 'warning',
+                    message: `${linkPath} is a broken symlink`,
+                    fix: {
+                        description: `Remove broken symlink ${linkPath}`,
+                        apply: async () => {
+                            unlinkSync(linkPath);
+                            return true;
+                        }
+                    }
+                });
+            }
+        }
+    }
+
+    return findings;
+}
+
+/**
+ * Run all health checks
+ */
+export async function runChecks(): Promise<DoctorFinding[]> {
+    return [
+        ...checkEnvironment(),
+        ...checkAliases(),
+        ...await checkSecrets(),
+        ...await checkOrphanedSecrets(),
+        ...checkClaudeHomes()
+    ];
+}
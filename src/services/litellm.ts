@@ -1,51 +1,230 @@
-import type { LiteLLMModel, LiteLLMRegistry } from '../types/index.js';
+import { mkdirSync, writeFileSync, existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import * as configStore from './config.js';
+import * as settings from './settings.js';
+import type { LiteLLMModel, LiteLLMRegistry, RegistryCacheMeta, RegistryStatus } from '../types/index.js';
 
 const LITELLM_REGISTRY_URL = 'https://raw.githubusercontent.com/BerriAI/litellm/main/model_prices_and_context_window.json';
+const REGISTRY_FILE_ENV = 'CLAUDE_ALIAS_REGISTRY_FILE';
+const DEFAULT_TTL_HOURS = 24;
+const FETCH_TIMEOUT_MS = 15000;
+
+// Claude Code's system prompt and tool definitions alone take ~20k tokens
+const MIN_CONTEXT_TOKENS = 64000;
 
 let cachedRegistry: LiteLLMRegistry | null = null;
+let registryStatus: RegistryStatus = { source: 'none', modelCount: 0, stale: false };
+let registryFileOverride: string | null = null;
 
 /**
- * Fetch the LiteLLM model registry from GitHub
+ * Get the directory holding cached downloads
  */
-export async function fetchRegistry(): Promise<LiteLLMRegistry> {
-    if (cachedRegistry) {
-        return cachedRegistry;
+export function getCacheDir(): string {
+    return join(configStore.getConfigDir(), 'cache');
+}
+
+/**
+ * Get the path of the cached registry JSON
+ */
+export function getCachePath(): string {
+    return join(getCacheDir(), 'litellm-registry.json');
+}
+
+/**
+ * Get the path of the cache metadata (ETag, Last-Modified, fetch time)
+ */
+function getCacheMetaPath(): string {
+    return join(getCacheDir(), 'litellm-registry.meta.json');
+}
+
+/**
+ * Use a local registry JSON instead of the network (--registry-file)
+ */
+export function setRegistryFile(path: string): void {
+    registryFileOverride = resolve(path);
+    cachedRegistry = null;
+}
+
+/**
+ * Get the local registry file override, if any (--registry-file or CLAUDE_ALIAS_REGISTRY_FILE)
+ */
+export function getRegistryFile(): string | null {
+    if (registryFileOverride) return registryFileOverride;
+    const fromEnv = process.env[REGISTRY_FILE_ENV];
+    return fromEnv ? resolve(fromEnv) : null;
+}
+
+/**
+ * Get the cache TTL in hours (settings.json registryTtlHours, default 24)
+ */
+export function getTtlHours(): number {
+    const ttl = settings.loadSettings().registryTtlHours;
+    return typeof ttl === 'number' && ttl >= 0 ? ttl : DEFAULT_TTL_HOURS;
+}
+
+/**
+ * Get where the last loaded registry came from
+ */
+export function getRegistryStatus(): RegistryStatus {
+    return registryStatus;
+}
+
+/**
+ * Keep only chat models, dropping the sample_spec entry
+ */
+function filterRegistry(data: LiteLLMRegistry): LiteLLMRegistry {
+    const filtered: LiteLLMRegistry = {};
+    for (const [name, model] of Object.entries(data)) {
+        if (name === 'sample_spec') continue;
+        if (model.mode !== 'chat') continue;
+        filtered[name] = model;
     }
+    return filtered;
+}
 
+/**
+ * Read cache metadata (null if missing, unreadable or for another URL)
+ */
+export function readCacheMeta(): RegistryCacheMeta | null {
     try {
-        const response = await fetch(LITELLM_REGISTRY_URL);
-        if (!response.ok) {
-            throw new Error(`Failed to fetch registry: ${response.status}`);
+        const meta = JSON.parse(readFileSync(getCacheMetaPath(), 'utf-8')) as RegistryCacheMeta;
+        return meta.url === LITELLM_REGISTRY_URL && existsSync(getCachePath()) ? meta : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Write cache metadata
+ */
+function writeCacheMeta(meta: RegistryCacheMeta): void {
+    writeFileSync(getCacheMetaPath(), JSON.stringify(meta, null, 2) + '\n');
+}
+
+/**
+ * Read the cached registry JSON
+ */
+function readCache(): LiteLLMRegistry {
+    return JSON.parse(readFileSync(getCachePath(), 'utf-8')) as LiteLLMRegistry;
+}
+
+/**
+ * Download the registry, revalidating the cache with ETag/Last-Modified
+ */
+async function downloadRegistry(meta: RegistryCacheMeta | null): Promise<LiteLLMRegistry> {
+    const headers: Record<string, string> = {};
+    if (meta?.etag) headers['If-None-Match'] = meta.etag;
+    if (meta?.lastModified) headers['If-Modified-Since'] = meta.lastModified;
+
+    const response = await fetch(LITELLM_REGISTRY_URL, {
+        headers,
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+    });
+    const fetchedAt = new Date().toISOString();
+
+    if (response.status === 304 && meta) {
+        writeCacheMeta({ ...meta, fetchedAt });
+        return readCache();
+    }
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+    }
+
+    const body = await response.text();
+    const data = JSON.parse(body) as LiteLLMRegistry;
+
+    mkdirSync(getCacheDir(), { recursive: true, mode: 0o700 });
+    writeFileSync(getCachePath(), body);
+    writeCacheMeta({
+        url: LITELLM_REGISTRY_URL,
+        etag: response.headers.get('etag') || undefined,
+        lastModified: response.headers.get('last-modified') || undefined,
+        fetchedAt
+    });
+
+    return data;
+}
+
+/**
+ * Load the registry from the override file, the disk cache or the network.
+ * Never throws: on failure a stale cache is served, or an empty registry.
+ */
+async function loadRegistry(forceRefresh: boolean, cacheOnly: boolean): Promise<{ data: LiteLLMRegistry; status: Omit<RegistryStatus, 'modelCount'> }> {
+    const overridePath = getRegistryFile();
+    if (overridePath) {
+        try {
+            const data = JSON.parse(readFileSync(overridePath, 'utf-8')) as LiteLLMRegistry;
+            return { data, status: { source: 'file', path: overridePath, stale: false } };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { data: {}, status: { source: 'none', path: overridePath, stale: false, error: message } };
         }
+    }
 
-        const data = await response.json() as LiteLLMRegistry;
+    const meta = readCacheMeta();
+    const cachePath = getCachePath();
+    const ageMs = meta ? Date.now() - new Date(meta.fetchedAt).getTime() : Infinity;
 
-        // Filter out the sample_spec and non-chat models
-        const filtered: LiteLLMRegistry = {};
-        for (const [name, model] of Object.entries(data)) {
-            if (name === 'sample_spec') continue;
-            if (model.mode !== 'chat') continue;
-            filtered[name] = model;
+    if (meta && !forceRefresh && (cacheOnly || ageMs < getTtlHours() * 3600 * 1000)) {
+        try {
+            return { data: readCache(), status: { source: 'cache', path: cachePath, fetchedAt: meta.fetchedAt, stale: false } };
+        } catch {
+            // Corrupt cache - download again
         }
+    }
+
+    if (cacheOnly) {
+        return { data: {}, status: { source: 'none', stale: false, error: 'no cached registry' } };
+    }
 
-        cachedRegistry = filtered;
-        return filtered;
+    try {
+        const data = await downloadRegistry(meta);
+        const fetchedAt = readCacheMeta()?.fetchedAt;
+        return { data, status: { source: 'network', path: cachePath, fetchedAt, stale: false } };
     } catch (error) {
-        console.error('Failed to fetch LiteLLM registry:', error);
-        return {};
+        const message = error instanceof Error ? error.message : String(error);
+        if (meta) {
+            try {
+                return { data: readCache(), status: { source: 'cache', path: cachePath, fetchedAt: meta.fetchedAt, stale: true, error: message } };
+            } catch {
+                // Fall through to an empty registry
+            }
+        }
+        return { data: {}, status: { source: 'none', stale: false, error: message } };
     }
 }
 
 /**
- * Search models by name or provider
+ * Fetch the LiteLLM model registry (cached on disk, see loadRegistry).
+ * Pass refresh to revalidate with GitHub even if the cache is fresh,
+ * or cacheOnly to use whatever is on disk without touching the network.
  */
-export async function searchModels(query: string, limit: number = 20): Promise<LiteLLMModel[]> {
+export async function fetchRegistry(options: { refresh?: boolean; cacheOnly?: boolean } = {}): Promise<LiteLLMRegistry> {
+    if (cachedRegistry && !options.refresh) {
+        return cachedRegistry;
+    }
+
+    const { data, status } = await loadRegistry(options.refresh === true, options.cacheOnly === true);
+    const filtered = filterRegistry(data);
+
+    cachedRegistry = filtered;
+    registryStatus = { ...status, modelCount: Object.keys(filtered).length };
+    return filtered;
+}
+
+/**
+ * Search models by name or provider, optionally only within one LiteLLM provider
+ */
+export async function searchModels(query: string, limit: number = 20, provider?: string): Promise<LiteLLMModel[]> {
     const registry = await fetchRegistry();
     const queryLower = query.toLowerCase();
+    const providerLower = provider?.toLowerCase();
 
     const results: LiteLLMModel[] = [];
 
     for (const [name, model] of Object.entries(registry)) {
+        if (providerLower && model.litellm_provider?.toLowerCase() !== providerLower) continue;
+
         if (name.toLowerCase().includes(queryLower) ||
             model.litellm_provider?.toLowerCase().includes(queryLower)) {
             results.push({
@@ -61,24 +240,36 @@ export async function searchModels(query: string, limit: number = 20): Promise<L
 }
 
 /**
- * Get model info by exact name
+ * Get model info by exact name (case-insensitive as a fallback).
+ * With a LiteLLM provider, provider IDs like "deepseek-chat" also match
+ * registry names like "deepseek/deepseek-chat".
  */
-export async function getModelInfo(name: string): Promise<LiteLLMModel | null> {
+export async function getModelInfo(name: string, provider?: string): Promise<LiteLLMModel | null> {
     const registry = await fetchRegistry();
-    const model = registry[name];
-
-    if (!model) {
-        // Try to find a partial match
-        const normalized = name.toLowerCase();
-        for (const [modelName, modelData] of Object.entries(registry)) {
-            if (modelName.toLowerCase() === normalized) {
-                return { name: modelName, ...modelData };
-            }
+    const candidates = provider && !name.startsWith(`${provider}/`) ? [`${provider}/${name}`, name] : [name];
+
+    for (const candidate of candidates) {
+        const model = registry[candidate];
+        if (model) return { name: candidate, ...model };
+    }
+
+    // Try a case-insensitive match
+    const normalized = candidates.map(c => c.toLowerCase());
+    for (const [modelName, modelData] of Object.entries(registry)) {
+        if (normalized.includes(modelName.toLowerCase())) {
+            return { name: modelName, ...modelData };
         }
-        return null;
     }
+    return null;
+}
 
-    return { name, ...model };
+/**
+ * Get the model ID a provider's API expects, stripping LiteLLM's provider
+ * prefix (e.g. "openrouter/anthropic/claude-sonnet-4" → "anthropic/claude-sonnet-4")
+ */
+export function getProviderModelId(model: LiteLLMModel): string {
+    const prefix = `${model.litellm_provider}/`;
+    return model.name.startsWith(prefix) ? model.name.substring(prefix.length) : model.name;
 }
 
 /**
@@ -123,3 +314,60 @@ export async function getModelsByProvider(provider: string, limit: number = 50):
 export function getMaxOutputTokens(model: LiteLLMModel): number | undefined {
     return model.max_output_tokens || model.max_tokens;
 }
+
+/**
+ * Check whether a model is suitable as a Claude Code tier model.
+ * Returns human-readable warnings (empty if nothing is wrong).
+ */
+export function getCapabilityWarnings(model: LiteLLMModel): string[] {
+    const warnings: string[] = [];
+
+    if (!model.supports_function_calling) {
+        warnings.push(`${model.name} is not listed as supporting tool calling, which Claude Code needs for file edits and commands`);
+    }
+    if (model.max_input_tokens !== undefined && model.max_input_tokens < MIN_CONTEXT_TOKENS) {
+        warnings.push(`${model.name} has a context window of ${model.max_input_tokens.toLocaleString()} tokens; Claude Code needs at least ${MIN_CONTEXT_TOKENS.toLocaleString()}`);
+    }
+    if (model.supports_vision === false) {
+        warnings.push(`${model.name} does not accept images, so screenshots and image files cannot be read`);
+    }
+
+    return warnings;
+}
+
+/**
+ * Check a max output tokens setting against a model's limit (null if within it or unknown)
+ */
+export function getOutputTokenWarning(model: LiteLLMModel, maxOutputTokens: number): string | null {
+    const limit = getMaxOutputTokens(model);
+    if (limit === undefined || maxOutputTokens <= limit) return null;
+    return `Max output tokens (${maxOutputTokens.toLocaleString()}) exceeds ${model.name}'s limit of ${limit.toLocaleString()}`;
+}
+
+/**
+ * Get a model's input and output price in USD per million tokens
+ */
+export function getPricePerMillion(model: LiteLLMModel): { input?: number; output?: number } {
+    return {
+        input: model.input_cost_per_token !== undefined ? model.input_cost_per_token * 1e6 : undefined,
+        output: model.output_cost_per_token !== undefined ? model.output_cost_per_token * 1e6 : undefined
+    };
+}
+
+/**
+ * Format a USD amount, keeping precision for sub-cent prices
+ */
+export function formatUsd(amount: number): string {
+    if (amount === 0) return '$0';
+    return amount >= 0.01 ? `$${amount.toFixed(2)}` : `$${Number(amount.toPrecision(2))}`;
+}
+
+/**
+ * Format a model's price as "$in/$out per 1M" (null if the registry has no pricing)
+ */
+export function formatPrice(model: LiteLLMModel): string | null {
+    const { input, output } = getPricePerMillion(model);
+    if (input === undefined && output === undefined) return null;
+    const format = (value?: number) => value === undefined ? '?' : formatUsd(value);
+    return `${format(input)}/${format(output)} per 1M`;
+}
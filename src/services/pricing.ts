@@ -0,0 +1,84 @@
+import * as litellm from './litellm.js';
+import { getLitellmProvider } from './providers.js';
+import type { ClaudeAliasConfig, CostEstimate, ModelTier, TierCostEstimate, UsageRecord } from '../types/index.js';
+
+export const MODEL_TIERS: ModelTier[] = ['opus', 'sonnet', 'haiku', 'subagent'];
+
+// Rough Claude Code traffic split: Sonnet does most work, Haiku handles background tasks
+export const DEFAULT_TIER_MIX: Record<ModelTier, number> = { opus: 10, sonnet: 70, haiku: 20, subagent: 0 };
+
+/**
+ * Get the model each tier uses (falling back to the legacy fields)
+ */
+export function getTierModel(config: Partial<ClaudeAliasConfig>, tier: ModelTier): string | undefined {
+    switch (tier) {
+        case 'opus': return config.opusModel || config.model;
+        case 'sonnet': return config.sonnetModel;
+        case 'haiku': return config.haikuModel || config.smallFastModel;
+        case 'subagent': return config.subagentModel;
+    }
+}
+
+/**
+ * Estimate the cost of a token volume for an alias, split across tiers by the mix.
+ * Tiers without a model are left out and the mix is renormalized over the rest.
+ */
+export async function estimateCost(
+    config: Partial<ClaudeAliasConfig> & { alias: string },
+    inputTokens: number,
+    outputTokens: number,
+    mix: Record<ModelTier, number> = DEFAULT_TIER_MIX
+): Promise<CostEstimate> {
+    const litellmProvider = getLitellmProvider(config.provider || '');
+    const activeTiers = MODEL_TIERS.filter(tier => mix[tier] > 0);
+    const configured = activeTiers.filter(tier => getTierModel(config, tier));
+    const totalWeight = configured.reduce((sum, tier) => sum + mix[tier], 0);
+
+    const tiers: TierCostEstimate[] = [];
+    for (const tier of configured) {
+        const model = getTierModel(config, tier)!;
+        const share = mix[tier] / totalWeight;
+        const info = await litellm.getModelInfo(model, litellmProvider);
+        const price = info ? litellm.getPricePerMillion(info) : {};
+        const cost = price.input !== undefined && price.output !== undefined
+            ? share * (inputTokens * price.input + outputTokens * price.output) / 1e6
+            : undefined;
+
+        tiers.push({
+            tier,
+            model,
+            share,
+            inputCostPerMillion: price.input,
+            outputCostPerMillion: price.output,
+            cost
+        });
+    }
+
+    return {
+        alias: config.alias,
+        inputTokens,
+        outputTokens,
+        tiers,
+        total: tiers.reduce((sum, t) => sum + (t.cost ?? 0), 0),
+        unpricedShare: tiers.filter(t => t.cost === undefined).reduce((sum, t) => sum + t.share, 0),
+        unconfiguredTiers: activeTiers.filter(tier => !configured.includes(tier))
+    };
+}
+
+/**
+ * Price recorded token usage from the registry (undefined if the model has no pricing).
+ * Cache reads and writes use their own prices when the registry lists them, else the input price.
+ */
+export async function priceUsage(
+    record: Pick<UsageRecord, 'model' | 'provider' | 'inputTokens' | 'outputTokens' | 'cacheReadInputTokens' | 'cacheCreationInputTokens'>
+): Promise<number | undefined> {
+    const info = await litellm.getModelInfo(record.model, getLitellmProvider(record.provider || ''));
+    const input = info?.input_cost_per_token;
+    const output = info?.output_cost_per_token;
+    if (input === undefined || output === undefined) return undefined;
+
+    return record.inputTokens * input
+        + record.outputTokens * output
+        + record.cacheReadInputTokens * (info!.cache_read_input_token_cost ?? input)
+        + record.cacheCreationInputTokens * (info!.cache_creation_input_token_cost ?? input);
+}
@@ -1,10 +1,64 @@
-import { mkdirSync, writeFileSync, existsSync, unlinkSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { mkdirSync, writeFileSync, existsSync, unlinkSync, readdirSync, readFileSync, rmSync, symlinkSync, statSync, renameSync } from 'fs';
 import { homedir } from 'os';
 import { join } from 'path';
+import { createHash } from 'crypto';
+import * as secrets from './secrets/index.js';
+import { shellQuote, shellUnquote } from '../utils/quote.js';
 import type { ClaudeAliasConfig, ProfileScript } from '../types/index.js';
 
 const LOCAL_BIN_DIR = join(homedir(), '.local', 'bin');
 const PROFILE_PREFIX = 'claude-';
+const MANAGED_MARKER = '# Managed by claude-alias';
+const CHECKSUM_PREFIX = '# Checksum: ';
+const CHECKSUM_LINE_REGEX = /^# Checksum: ([0-9a-f]+)\n/m;
+
+// Variables set by the generated script itself; custom env may not override them
+export const RESERVED_ENV_VARS = [
+    'ANTHROPIC_BASE_URL',
+    'ANTHROPIC_AUTH_TOKEN',
+    'ANTHROPIC_API_KEY',
+    'ANTHROPIC_DEFAULT_OPUS_MODEL',
+    'ANTHROPIC_DEFAULT_SONNET_MODEL',
+    'ANTHROPIC_DEFAULT_HAIKU_MODEL',
+    'CLAUDE_CODE_SUBAGENT_MODEL',
+    'ANTHROPIC_MODEL',
+    'ANTHROPIC_SMALL_FAST_MODEL',
+    'CLAUDE_CODE_MAX_OUTPUT_TOKENS',
+    'CLAUDE_HOME',
+    'API_KEY',
+    'HOME',
+    'PATH',
+    'SHELL',
+    'IFS',
+    'OSTYPE'
+];
+
+// Model settings and the variables scripts export them as, in script order
+const MODEL_ENV_VARS = [
+    // Tier models (recommended)
+    ['opusModel', 'ANTHROPIC_DEFAULT_OPUS_MODEL'],
+    ['sonnetModel', 'ANTHROPIC_DEFAULT_SONNET_MODEL'],
+    ['haikuModel', 'ANTHROPIC_DEFAULT_HAIKU_MODEL'],
+    ['subagentModel', 'CLAUDE_CODE_SUBAGENT_MODEL'],
+    // Legacy model fields (for backward compatibility)
+    ['model', 'ANTHROPIC_MODEL'],
+    ['smallFastModel', 'ANTHROPIC_SMALL_FAST_MODEL']
+] as const;
+
+// Global Claude Code files linked into each alias's CLAUDE_HOME (settings, MCP servers)
+const SHARED_CLAUDE_FILES = [
+    { source: ['.claude', 'settings.json'], name: 'settings.json' },
+    { source: ['.claude.json'], name: '.claude.json' }
+];
+
+// The proxy log is moved to proxy.log.1 once it grows past this, so it never outgrows two files
+const PROXY_LOG_MAX_BYTES = 1024 * 1024;
+
+// POSIX portable environment variable name
+const ENV_VAR_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Alias names end up in file names, shell alias names and keychain lookups
+const ALIAS_NAME_REGEX = /^[a-zA-Z][a-zA-Z0-9_-]*$/;
 
 /**
  * Ensure the local bin directory exists
@@ -15,6 +69,13 @@ function ensureLocalBinDir(): void {
     }
 }
 
+/**
+ * Get the directory holding profile scripts (~/.local/bin)
+ */
+export function getLocalBinDir(): string {
+    return LOCAL_BIN_DIR;
+}
+
 /**
  * Get the path to a profile script
  */
@@ -29,91 +90,203 @@ export function getProfileHomeDir(alias: string): string {
     return join(homedir(), `.claude-${alias}`);
 }
 
+/**
+ * Validate an alias name.
+ * Returns true if valid, otherwise an error message.
+ */
+export function validateAliasName(name: string): true | string {
+    if (!name) return 'Alias name is required';
+    if (!ALIAS_NAME_REGEX.test(name)) {
+        return 'Alias must start with a letter and contain only letters, numbers, underscores, or hyphens';
+    }
+    return true;
+}
+
+/**
+ * Validate a custom environment variable name.
+ * Returns true if valid, otherwise an error message.
+ */
+export function validateEnvVarName(name: string): true | string {
+    if (!name) return 'Variable name is required';
+    if (!ENV_VAR_NAME_REGEX.test(name)) {
+        return 'Variable name must start with a letter or underscore and contain only letters, numbers, and underscores';
+    }
+    if (RESERVED_ENV_VARS.includes(name)) {
+        return `${name} is managed by claude-alias and cannot be set as a custom variable`;
+    }
+    return true;
+}
+
+/**
+ * Validate a custom environment variable value.
+ * Returns true if valid, otherwise an error message.
+ */
+export function validateEnvVarValue(value: string): true | string {
+    if (/[\r\n\0]/.test(value)) return 'Value cannot contain newlines or NUL characters';
+    return true;
+}
+
+/**
+ * Check whether a script was generated by claude-alias
+ */
+export function isManagedScript(content: string): boolean {
+    return content.includes(MANAGED_MARKER);
+}
+
+/**
+ * Compute the checksum of a script, ignoring its own checksum line
+ */
+function computeChecksum(content: string): string {
+    const body = content.replace(CHECKSUM_LINE_REGEX, '');
+    return createHash('sha256').update(body).digest('hex').substring(0, 16);
+}
+
+/**
+ * Check whether a generated script was edited by hand since it was written.
+ * Returns null if the script has no checksum (written by an older version).
+ */
+export function isScriptModified(content: string): boolean | null {
+    const match = content.match(CHECKSUM_LINE_REGEX);
+    if (!match) return null;
+    return match[1] !== computeChecksum(content);
+}
+
+/**
+ * Format an export line with a single-quoted value
+ */
+function exportLine(name: string, value: string): string {
+    const valueCheck = validateEnvVarValue(value);
+    if (valueCheck !== true) throw new Error(`${name}: ${valueCheck}`);
+    return `export ${name}=${shellQuote(value)}`;
+}
+
+/**
+ * Flatten a value for use in a comment line
+ */
+function commentText(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ');
+}
+
 /**
  * Generate the shell script content for a profile
  */
 export function generateScript(config: ClaudeAliasConfig): string {
+    const aliasCheck = validateAliasName(config.alias);
+    if (aliasCheck !== true) throw new Error(aliasCheck);
+
     const apiKeyVar = config.useAuthToken ? 'ANTHROPIC_AUTH_TOKEN' : 'ANTHROPIC_API_KEY';
     // Keychain service uses only alias (not provider) since alias is unique
     const keychainService = `claude-alias-${config.alias}`;
+    const quotedAlias = shellQuote(config.alias);
 
     let envVars = `
 # Set environment variables
-export ANTHROPIC_BASE_URL="${config.baseUrl}"
+${exportLine('ANTHROPIC_BASE_URL', config.baseUrl)}
 export ${apiKeyVar}="$API_KEY"`;
 
-    // New model configuration (recommended)
-    if (config.opusModel) {
-        envVars += `
-export ANTHROPIC_DEFAULT_OPUS_MODEL="${config.opusModel}"`;
-    }
-
-    if (config.sonnetModel) {
-        envVars += `
-export ANTHROPIC_DEFAULT_SONNET_MODEL="${config.sonnetModel}"`;
-    }
-
-    if (config.haikuModel) {
-        envVars += `
-export ANTHROPIC_DEFAULT_HAIKU_MODEL="${config.haikuModel}"`;
-    }
-
-    if (config.subagentModel) {
-        envVars += `
-export CLAUDE_CODE_SUBAGENT_MODEL="${config.subagentModel}"`;
-    }
-
-    // Legacy model fields (for backward compatibility)
-    if (config.model) {
-        envVars += `
-export ANTHROPIC_MODEL="${config.model}"`;
+    for (const [field, name] of MODEL_ENV_VARS) {
+        const value = config[field];
+        if (value) {
+            envVars += `
+${exportLine(name, value)}`;
+        }
     }
 
-    if (config.smallFastModel) {
+    if (config.maxOutputTokens) {
         envVars += `
-export ANTHROPIC_SMALL_FAST_MODEL="${config.smallFastModel}"`;
+export CLAUDE_CODE_MAX_OUTPUT_TOKENS=${Math.floor(Number(config.maxOutputTokens))}`;
     }
 
-    if (config.maxOutputTokens) {
+    // Add custom environment variables (values single-quoted, so never expanded)
+    const customEnv = Object.entries(config.customEnv || {});
+    if (customEnv.length > 0) {
         envVars += `
-export CLAUDE_CODE_MAX_OUTPUT_TOKENS=${config.maxOutputTokens}`;
-    }
 
-    // Add custom environment variables
-    if (config.customEnv) {
-        for (const [key, value] of Object.entries(config.customEnv)) {
+# Custom environment variables`;
+        for (const [key, value] of customEnv) {
+            const nameCheck = validateEnvVarName(key);
+            if (nameCheck !== true) throw new Error(nameCheck);
             envVars += `
-export ${key}="${value}"`;
+${exportLine(key, value)}`;
         }
     }
 
-    const script = `#!/bin/bash
-# ${PROFILE_PREFIX}${config.alias} - Claude Code with ${config.provider}
-# Managed by claude-alias
-# Created: ${config.createdAt}
-# Updated: ${config.updatedAt}
-
-# Platform-aware API key retrieval
+    // Key lookup: the alias's secret backend, or the platform-aware system keychain
+    const keyRetrieval = config.secretBackend && config.secretBackend !== 'system'
+        ? `# API key retrieval (${config.secretBackend} backend)
+get_api_key() {
+    ${secrets.getRetrievalCommand(config.alias, config.secretBackend)}
+}
+`
+        : `# Platform-aware API key retrieval
 get_api_key() {
     if [[ "$OSTYPE" == "darwin"* ]]; then
         # macOS: Use Keychain
-        security find-generic-password -s "${keychainService}" -a "${config.alias}" -w 2>/dev/null
+        security find-generic-password -s ${shellQuote(keychainService)} -a ${quotedAlias} -w 2>/dev/null
     elif [[ "$OSTYPE" == "linux-gnu"* ]]; then
         # Linux: Try secret-tool first, then encrypted file
         local key=""
         if command -v secret-tool &>/dev/null; then
-            key=$(secret-tool lookup service "claude-alias" alias "${config.alias}" 2>/dev/null)
+            key=$(secret-tool lookup service 'claude-alias' alias ${quotedAlias} 2>/dev/null)
         fi
         if [ -z "$key" ] && [ -f "$HOME/.config/claude-alias/secrets.enc" ]; then
             # Fallback: Use claude-alias tool to decrypt
-            key=$(claude-alias get-key "${config.alias}" 2>/dev/null)
+            key=$(claude-alias get-key ${quotedAlias} 2>/dev/null)
         fi
         echo "$key"
     else
         echo ""
     fi
 }
+`;
 
+    // OpenAI-compatible providers, failover, usage tracking and budgets are handled by the local proxy
+    const proxyReasons = [
+        ...(config.apiFormat === 'openai' ? [`${config.provider} speaks the OpenAI Chat Completions API`] : []),
+        ...(config.failover?.length ? [`fails over to ${config.failover.map(f => f.provider).join(', ')}`] : []),
+        ...(config.trackUsage ? ['records token usage'] : []),
+        ...(config.budgets?.length ? ['enforces a budget'] : [])
+    ];
+    const proxyBlock = usesProxy(config) ? `
+# Start the local proxy (${commentText(proxyReasons.join('; '))})
+if ! command -v claude-alias &> /dev/null; then
+    echo "❌ Error: 'claude-alias' command not found (needed for the local proxy)"
+    exit 1
+fi${config.budgets?.length ? `
+# Refuse to start once a hard budget cap is reached (soft caps only warn)
+claude-alias budget check ${quotedAlias} || exit 1` : ''}
+if [ -f "$CLAUDE_HOME/proxy.log" ] && [ "$(wc -c <"$CLAUDE_HOME/proxy.log")" -gt ${PROXY_LOG_MAX_BYTES} ]; then
+    mv -f "$CLAUDE_HOME/proxy.log" "$CLAUDE_HOME/proxy.log.1"
+fi
+PROXY_TOKEN=$(od -An -N16 -tx1 /dev/urandom | tr -d ' \\n')
+PROXY_PORT_FILE=$(mktemp)
+# Messages for the user (e.g. a budget cap crossed), shown when Claude Code exits
+PROXY_NOTICE_FILE=$(mktemp)
+CLAUDE_ALIAS_PROXY_KEY="$API_KEY" CLAUDE_ALIAS_PROXY_TOKEN="$PROXY_TOKEN" \\
+    claude-alias proxy ${quotedAlias} --port-file "$PROXY_PORT_FILE" --notice-file "$PROXY_NOTICE_FILE" --parent-pid $$ >>"$CLAUDE_HOME/proxy.log" 2>&1 &
+PROXY_PID=$!
+trap 'kill $PROXY_PID 2>/dev/null; sed "s/^/⚠️  /" "$PROXY_NOTICE_FILE" >&2; rm -f "$PROXY_PORT_FILE" "$PROXY_NOTICE_FILE"' EXIT
+for _ in $(seq 100); do
+    [ -s "$PROXY_PORT_FILE" ] && break
+    kill -0 $PROXY_PID 2>/dev/null || break
+    sleep 0.1
+done
+if [ ! -s "$PROXY_PORT_FILE" ]; then
+    echo "❌ Error: The local proxy did not start (see $CLAUDE_HOME/proxy.log)"
+    exit 1
+fi
+# Point Claude Code at the proxy (both are exported above; assigned here so the script's exports keep the provider's settings)
+ANTHROPIC_BASE_URL="http://127.0.0.1:$(cat "$PROXY_PORT_FILE")"
+${apiKeyVar}="$PROXY_TOKEN"
+` : '';
+
+    const script = `#!/bin/bash
+# ${PROFILE_PREFIX}${config.alias} - Claude Code with ${commentText(config.provider)}
+${MANAGED_MARKER}
+# Created: ${commentText(config.createdAt)}
+# Updated: ${commentText(config.updatedAt)}
+
+${keyRetrieval}
 API_KEY=$(get_api_key)
 if [ -z "$API_KEY" ]; then
     echo "❌ Error: API key not found for '${config.alias}'"
@@ -144,13 +317,84 @@ if ! command -v claude &> /dev/null; then
     echo "   Please ensure Claude Code is installed and in your PATH"
     exit 1
 fi
-
+${proxyBlock}
 # Launch Claude Code${config.skipPermissions ? `
 claude --dangerously-skip-permissions "$@"` : `
 claude "$@"`}
 `;
 
-    return script;
+    // Stamp a checksum so hand edits can be detected on regenerate
+    const checksum = computeChecksum(script);
+    return script.replace(`${MANAGED_MARKER}\n`, `${MANAGED_MARKER}\n${CHECKSUM_PREFIX}${checksum}\n`);
+}
+
+/**
+ * Get the environment an alias's script gives Claude Code, for launching it without a script.
+ * With the local proxy, the caller points ANTHROPIC_BASE_URL and the key variable at it instead.
+ */
+export function getLaunchEnv(
+    config: ClaudeAliasConfig,
+    apiKey: string,
+    homeDir: string = getProfileHomeDir(config.alias)
+): Record<string, string> {
+    const env: Record<string, string> = {
+        ANTHROPIC_BASE_URL: config.baseUrl,
+        [config.useAuthToken ? 'ANTHROPIC_AUTH_TOKEN' : 'ANTHROPIC_API_KEY']: apiKey
+    };
+    for (const [field, name] of MODEL_ENV_VARS) {
+        const value = config[field];
+        if (value) env[name] = value;
+    }
+    if (config.maxOutputTokens) {
+        env.CLAUDE_CODE_MAX_OUTPUT_TOKENS = String(Math.floor(Number(config.maxOutputTokens)));
+    }
+    for (const [key, value] of Object.entries(config.customEnv || {})) {
+        const nameCheck = validateEnvVarName(key);
+        if (nameCheck !== true) throw new Error(nameCheck);
+        env[key] = value;
+    }
+    env.CLAUDE_HOME = homeDir;
+    return env;
+}
+
+/**
+ * Create a CLAUDE_HOME directory and link the global settings into it, as scripts do
+ */
+export function prepareProfileHome(homeDir: string): void {
+    mkdirSync(homeDir, { recursive: true });
+    for (const { source, name } of SHARED_CLAUDE_FILES) {
+        const sourcePath = join(homedir(), ...source);
+        const target = join(homeDir, name);
+        if (existsSync(sourcePath) && !existsSync(target)) {
+            try {
+                symlinkSync(sourcePath, target);
+            } catch {
+                // Same as the script: a missing link only loses shared settings
+            }
+        }
+    }
+}
+
+/**
+ * Rotate a CLAUDE_HOME's proxy log as scripts do at launch, and return its path
+ */
+export function prepareProxyLog(homeDir: string): string {
+    const logPath = join(homeDir, 'proxy.log');
+    try {
+        if (statSync(logPath).size > PROXY_LOG_MAX_BYTES) {
+            renameSync(logPath, `${logPath}.1`);
+        }
+    } catch {
+        // No log yet
+    }
+    return logPath;
+}
+
+/**
+ * Check whether an alias's script runs Claude Code through the local proxy
+ */
+export function usesProxy(config: ClaudeAliasConfig): boolean {
+    return config.apiFormat === 'openai' || !!config.failover?.length || !!config.trackUsage || !!config.budgets?.length;
 }
 
 /**
@@ -250,33 +494,37 @@ export function profileExists(alias: string): boolean {
 export function parseScriptConfig(content: string): Partial<ClaudeAliasConfig> {
     const config: Partial<ClaudeAliasConfig> = {};
 
+    // Read every export; values may be single-quoted (current) or double-quoted (older versions)
+    const exports: Record<string, string> = {};
+    for (const match of content.matchAll(/^export ([A-Za-z_][A-Za-z0-9_]*)=(.*)$/gm)) {
+        exports[match[1]] = shellUnquote(match[2].trim());
+    }
+
     // Parse base URL
-    const baseUrlMatch = content.match(/export ANTHROPIC_BASE_URL="([^"]+)"/);
-    if (baseUrlMatch) config.baseUrl = baseUrlMatch[1];
+    if (exports.ANTHROPIC_BASE_URL) config.baseUrl = exports.ANTHROPIC_BASE_URL;
 
     // Parse new model configuration
-    const opusMatch = content.match(/export ANTHROPIC_DEFAULT_OPUS_MODEL="([^"]+)"/);
-    if (opusMatch) config.opusModel = opusMatch[1];
-
-    const sonnetMatch = content.match(/export ANTHROPIC_DEFAULT_SONNET_MODEL="([^"]+)"/);
-    if (sonnetMatch) config.sonnetModel = sonnetMatch[1];
-
-    const haikuMatch = content.match(/export ANTHROPIC_DEFAULT_HAIKU_MODEL="([^"]+)"/);
-    if (haikuMatch) config.haikuModel = haikuMatch[1];
-
-    const subagentMatch = content.match(/export CLAUDE_CODE_SUBAGENT_MODEL="([^"]+)"/);
-    if (subagentMatch) config.subagentModel = subagentMatch[1];
+    if (exports.ANTHROPIC_DEFAULT_OPUS_MODEL) config.opusModel = exports.ANTHROPIC_DEFAULT_OPUS_MODEL;
+    if (exports.ANTHROPIC_DEFAULT_SONNET_MODEL) config.sonnetModel = exports.ANTHROPIC_DEFAULT_SONNET_MODEL;
+    if (exports.ANTHROPIC_DEFAULT_HAIKU_MODEL) config.haikuModel = exports.ANTHROPIC_DEFAULT_HAIKU_MODEL;
+    if (exports.CLAUDE_CODE_SUBAGENT_MODEL) config.subagentModel = exports.CLAUDE_CODE_SUBAGENT_MODEL;
 
     // Parse legacy model fields
-    const modelMatch = content.match(/export ANTHROPIC_MODEL="([^"]+)"/);
-    if (modelMatch) config.model = modelMatch[1];
-
-    const smallModelMatch = content.match(/export ANTHROPIC_SMALL_FAST_MODEL="([^"]+)"/);
-    if (smallModelMatch) config.smallFastModel = smallModelMatch[1];
+    if (exports.ANTHROPIC_MODEL) config.model = exports.ANTHROPIC_MODEL;
+    if (exports.ANTHROPIC_SMALL_FAST_MODEL) config.smallFastModel = exports.ANTHROPIC_SMALL_FAST_MODEL;
 
     // Parse max output tokens
-    const maxTokensMatch = content.match(/export CLAUDE_CODE_MAX_OUTPUT_TOKENS=(\d+)/);
-    if (maxTokensMatch) config.maxOutputTokens = parseInt(maxTokensMatch[1], 10);
+    if (/^\d+$/.test(exports.CLAUDE_CODE_MAX_OUTPUT_TOKENS || '')) {
+        config.maxOutputTokens = parseInt(exports.CLAUDE_CODE_MAX_OUTPUT_TOKENS, 10);
+    }
+
+    // Parse custom environment variables: any export not generated by claude-alias
+    const customEnv: Record<string, string> = {};
+    for (const [name, value] of Object.entries(exports)) {
+        if (RESERVED_ENV_VARS.includes(name)) continue;
+        customEnv[name] = value;
+    }
+    if (Object.keys(customEnv).length > 0) config.customEnv = customEnv;
 
     // Detect auth token vs api key
     config.useAuthToken = content.includes('ANTHROPIC_AUTH_TOKEN');
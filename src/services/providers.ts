@@ -0,0 +1,131 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import * as configStore from './config.js';
+import * as profile from './profile.js';
+import type { ModelTier, ProviderPreset, ProviderPresetFile } from '../types/index.js';
+
+const MODEL_TIERS: ModelTier[] = ['opus', 'sonnet', 'haiku', 'subagent'];
+
+// Presets shipped with the package (emitted next to the compiled services)
+const BUILTIN_PRESETS_FILE = new URL('../presets/providers.json', import.meta.url);
+
+/**
+ * Load the presets shipped with the package
+ */
+function loadBuiltinPresets(): ProviderPresetFile {
+    return JSON.parse(readFileSync(BUILTIN_PRESETS_FILE, 'utf-8'));
+}
+
+/**
+ * Get the path of the user provider presets file (~/.config/claude-alias/providers.json)
+ */
+export function getProvidersPath(): string {
+    return join(configStore.getConfigDir(), 'providers.json');
+}
+
+/**
+ * Check a merged preset, returning an error message or null if it is usable
+ */
+function validatePreset(preset: ProviderPreset): string | null {
+    if (!/^[\w-]+$/.test(preset.value) || preset.value === '__custom__') {
+        return 'preset keys must contain only letters, numbers, hyphens, and underscores';
+    }
+    if (typeof preset.name !== 'string' || !preset.name) return '"name" is required';
+    if (typeof preset.baseUrl !== 'string' || !preset.baseUrl) return '"baseUrl" is required';
+    try {
+        new URL(preset.baseUrl);
+    } catch {
+        return `"baseUrl" is not a valid URL: ${preset.baseUrl}`;
+    }
+    if (preset.authHeader !== undefined && preset.authHeader !== 'auth-token' && preset.authHeader !== 'api-key') {
+        return '"authHeader" must be "auth-token" or "api-key"';
+    }
+    if (preset.apiFormat !== undefined && preset.apiFormat !== 'anthropic' && preset.apiFormat !== 'openai') {
+        return '"apiFormat" must be "anthropic" or "openai"';
+    }
+    for (const tier of Object.keys(preset.models || {})) {
+        if (!MODEL_TIERS.includes(tier as ModelTier)) return `unknown model tier "${tier}"`;
+        if (typeof preset.models![tier as ModelTier] !== 'string') return `"models.${tier}" must be a string`;
+    }
+    if (preset.maxOutputTokens !== undefined && !(Number.isInteger(preset.maxOutputTokens) && preset.maxOutputTokens > 0)) {
+        return '"maxOutputTokens" must be a positive integer';
+    }
+    for (const [key, value] of Object.entries(preset.requiredEnv || {})) {
+        const nameCheck = profile.validateEnvVarName(key);
+        if (nameCheck !== true) return `requiredEnv: ${nameCheck}`;
+        if (typeof value !== 'string') return `"requiredEnv.${key}" must be a string (use "" for no default)`;
+    }
+    return null;
+}
+
+/**
+ * Load the user's provider presets file (empty if it does not exist)
+ */
+function loadUserPresets(): ProviderPresetFile {
+    const path = getProvidersPath();
+    if (!existsSync(path)) return {};
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Failed to read ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`${path} must contain an object of presets keyed by provider name`);
+    }
+    return raw as ProviderPresetFile;
+}
+
+/**
+ * Get all provider presets: the built-in presets with the user's providers.json
+ * merged on top. User entries override built-in fields; new entries are appended.
+ */
+export function getPresets(): ProviderPreset[] {
+    const merged: Record<string, Partial<ProviderPreset>> = {};
+    for (const [value, preset] of Object.entries(loadBuiltinPresets())) {
+        merged[value] = { ...preset, value };
+    }
+
+    const path = getProvidersPath();
+    for (const [value, overrides] of Object.entries(loadUserPresets())) {
+        if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+            throw new Error(`Invalid provider preset '${value}' in ${path}: expected an object`);
+        }
+        const base = merged[value] || {};
+        merged[value] = {
+            ...base,
+            ...overrides,
+            // Tier models and env are merged so an override can change a single entry
+            models: { ...base.models, ...overrides.models },
+            requiredEnv: { ...base.requiredEnv, ...overrides.requiredEnv },
+            value
+        };
+
+        const error = validatePreset(merged[value] as ProviderPreset);
+        if (error) {
+            throw new Error(`Invalid provider preset '${value}' in ${path}: ${error}`);
+        }
+    }
+
+    return Object.values(merged) as ProviderPreset[];
+}
+
+/**
+ * Get the preset for a provider value (undefined for custom providers)
+ */
+export function getPreset(provider: string): ProviderPreset | undefined {
+    return getPresets().find(p => p.value === provider);
+}
+
+/**
+ * Get the LiteLLM registry provider name for a preset value (undefined for custom providers)
+ */
+export function getLitellmProvider(provider: string): string | undefined {
+    // Only scopes registry lookups, so a broken providers.json falls back to the built-in presets
+    try {
+        return getPreset(provider)?.litellmProvider;
+    } catch {
+        return loadBuiltinPresets()[provider]?.litellmProvider;
+    }
+}
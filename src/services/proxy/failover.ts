@@ -0,0 +1,84 @@
+/**
+ * Failover between an alias's provider and its fallback upstreams:
+ * which upstream to try next, which failures move on, and tier model mapping.
+ */
+
+import type { ClaudeAliasConfig } from '../../types/index.js';
+
+// Consecutive failures before an upstream is skipped, and for how long
+const FAILURE_THRESHOLD = 3;
+const OPEN_MS = 60_000;
+
+type TierModels = Partial<Pick<ClaudeAliasConfig,
+    'opusModel' | 'sonnetModel' | 'haikuModel' | 'subagentModel' | 'model' | 'smallFastModel'>>;
+
+interface CircuitState {
+    failures: number;
+    openUntil: number;
+}
+
+export interface CircuitBreaker {
+    /** Upstream indexes in the order to try them: healthy ones first, then open circuits as a last resort */
+    order(): number[];
+    isOpen(index: number): boolean;
+    recordSuccess(index: number): void;
+    /** Returns true if this failure opened the circuit */
+    recordFailure(index: number): boolean;
+}
+
+/**
+ * Create circuit breaker state for a number of upstreams.
+ * After FAILURE_THRESHOLD consecutive failures an upstream is skipped for OPEN_MS,
+ * then given one request again (a failure re-opens it straight away).
+ */
+export function createCircuitBreaker(count: number): CircuitBreaker {
+    const states: CircuitState[] = Array.from({ length: count }, () => ({ failures: 0, openUntil: 0 }));
+
+    const isOpen = (index: number) => states[index].openUntil > Date.now();
+
+    return {
+        order() {
+            const indexes = states.map((_, i) => i);
+            return [...indexes.filter(i => !isOpen(i)), ...indexes.filter(i => isOpen(i))];
+        },
+        isOpen,
+        recordSuccess(index) {
+            states[index] = { failures: 0, openUntil: 0 };
+        },
+        recordFailure(index) {
+            const state = states[index];
+            const wasOpen = isOpen(index);
+            state.failures++;
+            if (state.failures >= FAILURE_THRESHOLD) {
+                state.openUntil = Date.now() + OPEN_MS;
+                return !wasOpen;
+            }
+            return false;
+        }
+    };
+}
+
+/**
+ * Whether a provider response should be retried against the next upstream
+ * (rate limited, overloaded or a server error; client errors would fail everywhere)
+ */
+export function isRetryableStatus(status: number): boolean {
+    return status === 429 || status === 529 || status >= 500;
+}
+
+/**
+ * Map a requested model to an upstream's equivalent by tier.
+ * Claude Code asks for the alias's tier models; a model matching none of them is sent unchanged.
+ */
+export function mapModel(model: string, from: TierModels, to: TierModels): string {
+    const tiers: [string | undefined, string | undefined][] = [
+        [from.opusModel || from.model, to.opusModel || to.model],
+        [from.sonnetModel, to.sonnetModel],
+        [from.haikuModel || from.smallFastModel, to.haikuModel || to.smallFastModel],
+        [from.subagentModel, to.subagentModel]
+    ];
+    for (const [source, target] of tiers) {
+        if (source === model) return target || to.sonnetModel || model;
+    }
+    return model;
+}
@@ -0,0 +1,413 @@
+/**
+ * Local proxy Claude Code talks to instead of the provider.
+ * For OpenAI-compatible providers it translates Anthropic Messages requests
+ * to Chat Completions and maps the responses (and streamed events) back.
+ * With fallback upstreams it fails over to the next one when a provider is down,
+ * and it can report each request's token usage and refuse requests over budget.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import type { AddressInfo } from 'net';
+import * as connectivity from '../connectivity.js';
+import * as failover from './failover.js';
+import * as translate from './translate.js';
+import type { ClaudeAliasConfig, UsageRecord } from '../../types/index.js';
+
+// Requests can carry base64 images and long conversations
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+const DEFAULT_HOST = '127.0.0.1';
+const ANTHROPIC_VERSION = '2023-06-01';
+const MESSAGES_PATH = '/v1/messages';
+const COUNT_TOKENS_PATH = '/v1/messages/count_tokens';
+
+export interface ProxyUpstream {
+    name: string;               // Shown in the log
+    config: Partial<ClaudeAliasConfig> & { baseUrl: string };  // Base URL, token type, API format and tier models
+    apiKey: string;
+}
+
+export interface ProxyOptions {
+    upstreams: ProxyUpstream[]; // Tried in order; the first is the alias's own provider
+    token?: string;             // Clients must send this as x-api-key or Bearer token (unchecked if unset)
+    port?: number;              // 0 or unset: any free port
+    host?: string;
+    log?: (line: string) => void;
+    onUsage?: (record: UsageRecord) => void;    // Called after each Messages request
+    checkBudget?: () => Promise<string | null>; // Why Messages requests are refused, or null to let them through
+}
+
+interface ProxyState {
+    options: ProxyOptions;
+    breaker: failover.CircuitBreaker;
+}
+
+interface RelayResult {
+    status: number;
+    usage: translate.AnthropicUsage;
+}
+
+interface ForwardResult extends RelayResult {
+    upstream: string;           // Name of the upstream that answered
+    model: string;              // Model sent to it
+    failures: string[];         // Upstreams tried before it, with why they were skipped
+}
+
+export interface ProxyHandle {
+    port: number;
+    url: string;
+    close(): Promise<void>;
+}
+
+/**
+ * Error raised while handling a request, sent to the client in Anthropic format
+ */
+class ProxyError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Read a request body, enforcing the size limit
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new ProxyError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        }
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Check the client's token (x-api-key or Authorization: Bearer) in constant time
+ */
+function isAuthorized(req: IncomingMessage, token: string | undefined): boolean {
+    if (!token) return true;
+    const bearer = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+    const sent = (req.headers['x-api-key'] as string | undefined) ?? bearer ?? '';
+    const expected = Buffer.from(token);
+    const actual = Buffer.from(sent);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: object): void {
+    if (res.headersSent) {
+        res.end();
+        return;
+    }
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Parse an Anthropic Messages request body
+ */
+function parseMessagesRequest(body: string): translate.AnthropicRequest {
+    let request: translate.AnthropicRequest;
+    try {
+        request = JSON.parse(body);
+    } catch {
+        throw new ProxyError(400, 'Request body is not valid JSON');
+    }
+    if (!request || typeof request.model !== 'string' || !Array.isArray(request.messages)) {
+        throw new ProxyError(400, 'Expected a Messages request with "model" and "messages"');
+    }
+    return request;
+}
+
+/**
+ * Send a request to one upstream in the API format it speaks.
+ * Throws a ProxyError if the provider cannot be reached.
+ */
+async function sendUpstream(
+    upstream: ProxyUpstream,
+    request: translate.AnthropicRequest,
+    path: string,
+    req: IncomingMessage,
+    signal: AbortSignal
+): Promise<Response> {
+    const { baseUrl, apiFormat, useAuthToken } = upstream.config;
+    const init: RequestInit = apiFormat === 'openai'
+        ? {
+            headers: { 'content-type': 'application/json', 'authorization': `Bearer ${upstream.apiKey}` },
+            body: JSON.stringify(translate.toOpenAIRequest(request))
+        }
+        : {
+            headers: {
+                'content-type': 'application/json',
+                'anthropic-version': (req.headers['anthropic-version'] as string | undefined) ?? ANTHROPIC_VERSION,
+                ...(req.headers['anthropic-beta'] ? { 'anthropic-beta': req.headers['anthropic-beta'] as string } : {}),
+                ...connectivity.getAuthHeaders(upstream.apiKey, useAuthToken)
+            },
+            body: JSON.stringify(request)
+        };
+    const url = apiFormat === 'openai'
+        ? connectivity.getChatCompletionsUrl(baseUrl)
+        : connectivity.getMessagesUrl(baseUrl) + path.substring(MESSAGES_PATH.length);
+
+    try {
+        return await fetch(url, { ...init, method: 'POST', signal });
+    } catch (error) {
+        const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : '';
+        throw new ProxyError(502, `Could not connect to ${baseUrl}${cause ? `: ${cause}` : ''}`);
+    }
+}
+
+/**
+ * Relay an Anthropic-format provider response (JSON or an SSE stream) unchanged
+ */
+async function relayAnthropicResponse(upstream: Response, res: ServerResponse, signal: AbortSignal): Promise<RelayResult> {
+    const contentType = upstream.headers.get('content-type') ?? 'application/json';
+    res.writeHead(upstream.status, {
+        'content-type': contentType,
+        'cache-control': 'no-cache'
+    });
+
+    const usage = translate.createUsageReader(contentType.includes('text/event-stream'));
+    const decoder = new TextDecoder();
+    try {
+        for await (const chunk of (upstream.body ?? []) as unknown as AsyncIterable<Uint8Array>) {
+            res.write(chunk);
+            usage.push(decoder.decode(chunk, { stream: true }));
+        }
+    } catch (error) {
+        if (!signal.aborted) {
+            const message = `Provider stream failed: ${error instanceof Error ? error.message : error}`;
+            res.write(`event: error\ndata: ${JSON.stringify(translate.anthropicError(502, message))}\n\n`);
+        }
+    }
+    res.end();
+    return { status: upstream.status, usage: usage.getUsage() };
+}
+
+/**
+ * Translate an OpenAI Chat Completions response (JSON or an SSE stream) to the Messages format.
+ */
+async function relayOpenAIResponse(
+    request: translate.AnthropicRequest,
+    upstream: Response,
+    res: ServerResponse,
+    signal: AbortSignal
+): Promise<RelayResult> {
+    if (!upstream.ok) {
+        sendJson(res, upstream.status, translate.fromOpenAIError(upstream.status, await upstream.text()));
+        return { status: upstream.status, usage: translate.toAnthropicUsage(null) };
+    }
+
+    if (!request.stream) {
+        let body: translate.OpenAIResponse;
+        try {
+            body = await upstream.json() as translate.OpenAIResponse;
+        } catch {
+            throw new ProxyError(502, 'Provider returned a response that is not JSON');
+        }
+        sendJson(res, 200, translate.fromOpenAIResponse(body, request.model));
+        return { status: 200, usage: translate.toAnthropicUsage(body.usage) };
+    }
+
+    res.writeHead(200, {
+        'content-type': 'text/event-stream',
+        'cache-control': 'no-cache',
+        'connection': 'keep-alive'
+    });
+
+    const translator = translate.createStreamTranslator(request.model);
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    try {
+        for await (const chunk of upstream.body as unknown as AsyncIterable<Uint8Array>) {
+            buffered += decoder.decode(chunk, { stream: true });
+            const lines = buffered.split('\n');
+            buffered = lines.pop() ?? '';
+
+            for (const line of lines) {
+                if (!line.startsWith('data:')) continue;
+                const data = line.slice(5).trim();
+                if (data === '[DONE]') {
+                    res.write(translator.finish());
+                    continue;
+                }
+                try {
+                    res.write(translator.push(JSON.parse(data)));
+                } catch {
+                    // Skip keep-alive comments and malformed chunks
+                }
+            }
+        }
+        res.write(translator.finish());
+    } catch (error) {
+        if (!signal.aborted) {
+            const message = `Provider stream failed: ${error instanceof Error ? error.message : error}`;
+            res.write(`event: error\ndata: ${JSON.stringify(translate.anthropicError(502, message))}\n\n`);
+        }
+    }
+    res.end();
+    return { status: 200, usage: translator.getUsage() };
+}
+
+/**
+ * Forward a request to the first upstream that answers, moving on to the next one on
+ * connection errors, rate limits and server errors. Once a response is being relayed
+ * it is not retried (the client may already have part of it).
+ */
+async function forwardWithFailover(
+    request: translate.AnthropicRequest,
+    path: string,
+    req: IncomingMessage,
+    res: ServerResponse,
+    state: ProxyState,
+    signal: AbortSignal
+): Promise<ForwardResult> {
+    const { upstreams, log } = state.options;
+    const failures: string[] = [];
+    const order = state.breaker.order();
+
+    const recordFailure = (index: number) => {
+        if (state.breaker.recordFailure(index)) {
+            log?.(`${new Date().toISOString()} ${upstreams[index].name} keeps failing, skipping it for now`);
+        }
+    };
+    const failOver = (index: number, reason: string) => {
+        failures.push(`${upstreams[index].name}: ${reason}`);
+        recordFailure(index);
+    };
+
+    for (const [position, index] of order.entries()) {
+        const upstream = upstreams[index];
+        const isLast = position === order.length - 1;
+        // Claude Code asks for the alias's own tier models
+        const upstreamRequest = { ...request, model: failover.mapModel(request.model, upstreams[0].config, upstream.config) };
+
+        if (path === COUNT_TOKENS_PATH && upstream.config.apiFormat === 'openai') {
+            // Chat Completions has no token counting endpoint
+            sendJson(res, 200, { input_tokens: translate.estimateInputTokens(upstreamRequest) });
+            return { status: 200, usage: translate.toAnthropicUsage(null), upstream: upstream.name, model: upstreamRequest.model, failures };
+        }
+
+        let response: Response;
+        try {
+            response = await sendUpstream(upstream, upstreamRequest, path, req, signal);
+        } catch (error) {
+            if (signal.aborted) throw error;
+            if (isLast) {
+                recordFailure(index);
+                if (failures.length === 0 || !(error instanceof ProxyError)) throw error;
+                throw new ProxyError(error.status, `${error.message} (after ${failures.join('; ')})`);
+            }
+            failOver(index, 'connection failed');
+            continue;
+        }
+
+        if (failover.isRetryableStatus(response.status)) {
+            if (!isLast) {
+                await response.body?.cancel();
+                failOver(index, `HTTP ${response.status}`);
+                continue;
+            }
+            recordFailure(index);
+        } else {
+            state.breaker.recordSuccess(index);
+        }
+
+        const result = upstream.config.apiFormat === 'openai'
+            ? await relayOpenAIResponse({ ...upstreamRequest, model: request.model }, response, res, signal)
+            : await relayAnthropicResponse(response, res, signal);
+        return { ...result, upstream: upstream.name, model: upstreamRequest.model, failures };
+    }
+
+    throw new ProxyError(502, 'No upstream configured');
+}
+
+/**
+ * Handle one client request
+ */
+async function handleRequest(req: IncomingMessage, res: ServerResponse, state: ProxyState): Promise<void> {
+    const started = Date.now();
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    let status = 500;
+    let request: translate.AnthropicRequest | undefined;
+    let result: ForwardResult | undefined;
+
+    // Stop the upstream request if Claude Code goes away (e.g. the user pressed Esc)
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+        if (!isAuthorized(req, state.options.token)) {
+            throw new ProxyError(401, 'Invalid proxy token');
+        }
+        if (req.method !== 'POST' || (path !== MESSAGES_PATH && path !== COUNT_TOKENS_PATH)) {
+            throw new ProxyError(404, `${req.method} ${path} is not supported by the claude-alias proxy`);
+        }
+
+        request = parseMessagesRequest(await readBody(req));
+        const refusal = path === MESSAGES_PATH ? await state.options.checkBudget?.() : null;
+        if (refusal) {
+            throw new ProxyError(402, refusal);
+        }
+        result = await forwardWithFailover(request, path, req, res, state, controller.signal);
+        status = result.status;
+    } catch (error) {
+        status = error instanceof ProxyError ? error.status : 500;
+        sendJson(res, status, translate.anthropicError(status, error instanceof Error ? error.message : String(error)));
+    }
+
+    const latencyMs = Date.now() - started;
+    const failures = result?.failures ?? [];
+    const failedOver = failures.length > 0 ? ` (failed over from ${failures.join('; ')})` : '';
+    state.options.log?.(`${new Date().toISOString()} ${req.method} ${path} model=${request?.model ?? '-'} upstream=${result?.upstream ?? '-'} status=${status} ${latencyMs}ms${failedOver}`);
+
+    if (request && path === MESSAGES_PATH) {
+        state.options.onUsage?.({
+            timestamp: new Date(started).toISOString(),
+            model: result?.model ?? request.model,
+            provider: result?.upstream,
+            status,
+            latencyMs,
+            inputTokens: result?.usage.input_tokens ?? 0,
+            outputTokens: result?.usage.output_tokens ?? 0,
+            cacheReadInputTokens: result?.usage.cache_read_input_tokens ?? 0,
+            cacheCreationInputTokens: result?.usage.cache_creation_input_tokens ?? 0
+        });
+    }
+}
+
+/**
+ * Start the proxy. Resolves once it is listening.
+ */
+export async function startProxy(options: ProxyOptions): Promise<ProxyHandle> {
+    const state: ProxyState = { options, breaker: failover.createCircuitBreaker(options.upstreams.length) };
+    const server = createServer((req, res) => {
+        handleRequest(req, res, state).catch(error => {
+            sendJson(res, 500, translate.anthropicError(500, error instanceof Error ? error.message : String(error)));
+        });
+    });
+
+    const host = options.host ?? DEFAULT_HOST;
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port ?? 0, host, () => resolve());
+    });
+
+    const { port } = server.address() as AddressInfo;
+    return {
+        port,
+        url: `http://${host}:${port}`,
+        close: () => new Promise(resolve => {
+            server.closeAllConnections?.();
+            server.close(() => resolve());
+        })
+    };
+}
@@ -0,0 +1,500 @@
+/**
+ * Anthropic Messages ⇄ OpenAI Chat Completions translation
+ * (requests, responses, streamed events and errors)
+ */
+
+// Anthropic wire format (the subset Claude Code sends and expects)
+interface AnthropicContentBlock {
+    type: string;
+    text?: string;
+    id?: string;
+    name?: string;
+    input?: unknown;
+    tool_use_id?: string;
+    content?: string | AnthropicContentBlock[];
+    is_error?: boolean;
+    source?: { type: string; media_type?: string; data?: string; url?: string };
+}
+
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicRequest {
+    model: string;
+    max_tokens?: number;
+    system?: string | AnthropicContentBlock[];
+    messages: AnthropicMessage[];
+    tools?: { name: string; description?: string; input_schema?: unknown; type?: string }[];
+    tool_choice?: { type: 'auto' | 'any' | 'tool' | 'none'; name?: string; disable_parallel_tool_use?: boolean };
+    temperature?: number;
+    top_p?: number;
+    stop_sequences?: string[];
+    stream?: boolean;
+}
+
+// OpenAI wire format
+interface OpenAIToolCall {
+    index?: number;
+    id?: string;
+    type?: 'function';
+    function?: { name?: string; arguments?: string };
+}
+
+type OpenAIContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string | OpenAIContentPart[] | null;
+    tool_calls?: OpenAIToolCall[];
+    tool_call_id?: string;
+}
+
+export interface OpenAIRequest {
+    model: string;
+    messages: OpenAIMessage[];
+    max_tokens?: number;
+    temperature?: number;
+    top_p?: number;
+    stop?: string[];
+    tools?: { type: 'function'; function: { name: string; description?: string; parameters: unknown } }[];
+    tool_choice?: 'auto' | 'required' | 'none' | { type: 'function'; function: { name: string } };
+    parallel_tool_calls?: boolean;
+    stream?: boolean;
+    stream_options?: { include_usage: boolean };
+}
+
+interface OpenAIUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+}
+
+export interface OpenAIResponse {
+    id?: string;
+    choices?: {
+        message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+        finish_reason?: string | null;
+    }[];
+    usage?: OpenAIUsage;
+}
+
+export interface OpenAIStreamChunk {
+    id?: string;
+    choices?: {
+        delta?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+        finish_reason?: string | null;
+    }[];
+    usage?: OpenAIUsage | null;
+}
+
+export interface AnthropicUsage {
+    input_tokens: number;
+    output_tokens: number;
+    cache_read_input_tokens?: number;
+    cache_creation_input_tokens?: number;
+}
+
+/**
+ * Flatten text blocks (system prompt, tool results) to a string
+ */
+function blocksToText(content: string | AnthropicContentBlock[] | undefined): string {
+    if (content === undefined) return '';
+    if (typeof content === 'string') return content;
+    return content
+        .map(block => block.type === 'text' ? block.text ?? '' : block.type === 'image' ? '[image]' : '')
+        .filter(Boolean)
+        .join('\n');
+}
+
+/**
+ * Convert an Anthropic image source to a URL OpenAI accepts
+ */
+function imageUrl(block: AnthropicContentBlock): string | null {
+    const source = block.source;
+    if (!source) return null;
+    if (source.type === 'base64' && source.data) return `data:${source.media_type};base64,${source.data}`;
+    if (source.type === 'url' && source.url) return source.url;
+    return null;
+}
+
+/**
+ * Convert one Anthropic message to OpenAI messages. Tool results become
+ * separate "tool" messages, which must directly follow the assistant's tool calls.
+ */
+function convertMessage(message: AnthropicMessage): OpenAIMessage[] {
+    if (typeof message.content === 'string') {
+        return [{ role: message.role, content: message.content }];
+    }
+
+    if (message.role === 'assistant') {
+        const text = message.content.filter(b => b.type === 'text').map(b => b.text ?? '').join('');
+        const toolCalls: OpenAIToolCall[] = message.content
+            .filter(b => b.type === 'tool_use')
+            .map(b => ({
+                id: b.id,
+                type: 'function',
+                function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) }
+            }));
+        return [{
+            role: 'assistant',
+            content: text || null,
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        }];
+    }
+
+    const messages: OpenAIMessage[] = [];
+    const parts: OpenAIContentPart[] = [];
+    for (const block of message.content) {
+        if (block.type === 'tool_result') {
+            const text = blocksToText(block.content);
+            messages.push({
+                role: 'tool',
+                tool_call_id: block.tool_use_id,
+                content: block.is_error ? `Error: ${text}` : text
+            });
+        } else if (block.type === 'text' && block.text) {
+            parts.push({ type: 'text', text: block.text });
+        } else if (block.type === 'image') {
+            const url = imageUrl(block);
+            if (url) parts.push({ type: 'image_url', image_url: { url } });
+        }
+    }
+
+    if (parts.length > 0) {
+        // Plain text stays a string for providers without multi-part support
+        const textOnly = parts.every(p => p.type === 'text');
+        messages.push({
+            role: 'user',
+            content: textOnly ? parts.map(p => (p as { text: string }).text).join('\n') : parts
+        });
+    }
+    return messages;
+}
+
+/**
+ * Translate an Anthropic Messages request to an OpenAI Chat Completions request
+ */
+export function toOpenAIRequest(request: AnthropicRequest): OpenAIRequest {
+    const messages: OpenAIMessage[] = [];
+    const system = blocksToText(request.system);
+    if (system) {
+        messages.push({ role: 'system', content: system });
+    }
+    for (const message of request.messages) {
+        messages.push(...convertMessage(message));
+    }
+
+    const result: OpenAIRequest = {
+        model: request.model,
+        messages,
+        max_tokens: request.max_tokens,
+        temperature: request.temperature,
+        top_p: request.top_p,
+        stop: request.stop_sequences?.length ? request.stop_sequences : undefined
+    };
+
+    // Server tools (web search etc.) have a type and no input schema; providers cannot run them
+    const tools = (request.tools || []).filter(tool => tool.input_schema);
+    if (tools.length > 0) {
+        result.tools = tools.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.input_schema }
+        }));
+
+        const choice = request.tool_choice;
+        if (choice?.type === 'any') result.tool_choice = 'required';
+        else if (choice?.type === 'none') result.tool_choice = 'none';
+        else if (choice?.type === 'tool' && choice.name) result.tool_choice = { type: 'function', function: { name: choice.name } };
+        if (choice?.disable_parallel_tool_use) result.parallel_tool_calls = false;
+    }
+
+    if (request.stream) {
+        result.stream = true;
+        result.stream_options = { include_usage: true };
+    }
+    return result;
+}
+
+/**
+ * Map an OpenAI finish reason to an Anthropic stop reason
+ */
+function toStopReason(finishReason: string | null | undefined): string {
+    switch (finishReason) {
+        case 'length': return 'max_tokens';
+        case 'tool_calls':
+        case 'function_call': return 'tool_use';
+        default: return 'end_turn';
+    }
+}
+
+/**
+ * Map OpenAI usage to Anthropic usage (Anthropic's input_tokens excludes cache reads)
+ */
+export function toAnthropicUsage(usage: OpenAIUsage | null | undefined): AnthropicUsage {
+    const cached = usage?.prompt_tokens_details?.cached_tokens ?? 0;
+    return {
+        input_tokens: Math.max(0, (usage?.prompt_tokens ?? 0) - cached),
+        output_tokens: usage?.completion_tokens ?? 0,
+        ...(cached > 0 ? { cache_read_input_tokens: cached } : {})
+    };
+}
+
+export interface UsageReader {
+    push(text: string): void;   // Response body text as it is relayed
+    getUsage(): AnthropicUsage;
+}
+
+/**
+ * Create a reader for the usage in an Anthropic Messages response: the JSON body's
+ * "usage", or for a stream the usage in message_start and message_delta events
+ * (later events carry the running totals)
+ */
+export function createUsageReader(streaming: boolean): UsageReader {
+    const usage: AnthropicUsage = { input_tokens: 0, output_tokens: 0 };
+    let buffered = '';
+
+    const merge = (value: unknown) => {
+        if (!value || typeof value !== 'object') return;
+        for (const [field, count] of Object.entries(value)) {
+            if (typeof count === 'number') (usage as unknown as Record<string, number>)[field] = count;
+        }
+    };
+
+    return {
+        push(text) {
+            buffered += text;
+            if (!streaming) return;
+            const lines = buffered.split('\n');
+            buffered = lines.pop() ?? '';
+            for (const line of lines) {
+                if (!line.startsWith('data:')) continue;
+                try {
+                    const event = JSON.parse(line.slice(5));
+                    merge(event.type === 'message_start' ? event.message?.usage : event.usage);
+                } catch {
+                    // Not JSON
+                }
+            }
+        },
+        getUsage() {
+            if (!streaming) {
+                try {
+                    merge(JSON.parse(buffered).usage);
+                } catch {
+                    // Error pages and truncated bodies carry no usage
+                }
+                buffered = '';
+            }
+            return { ...usage };
+        }
+    };
+}
+
+/**
+ * Parse tool call arguments, which providers occasionally send malformed
+ */
+function parseArguments(args: string | undefined): unknown {
+    try {
+        return args ? JSON.parse(args) : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Get an Anthropic-style message id for an OpenAI completion id
+ */
+function messageId(id: string | undefined): string {
+    return `msg_${(id || Date.now().toString(36)).replace(/[^\w-]/g, '')}`;
+}
+
+/**
+ * Translate an OpenAI Chat Completions response to an Anthropic Messages response
+ */
+export function fromOpenAIResponse(response: OpenAIResponse, model: string): object {
+    const choice = response.choices?.[0];
+    const content: object[] = [];
+    if (choice?.message?.content) {
+        content.push({ type: 'text', text: choice.message.content });
+    }
+    for (const call of choice?.message?.tool_calls || []) {
+        content.push({
+            type: 'tool_use',
+            id: call.id,
+            name: call.function?.name,
+            input: parseArguments(call.function?.arguments)
+        });
+    }
+
+    return {
+        id: messageId(response.id),
+        type: 'message',
+        role: 'assistant',
+        model,
+        content,
+        stop_reason: toStopReason(choice?.finish_reason),
+        stop_sequence: null,
+        usage: toAnthropicUsage(response.usage)
+    };
+}
+
+/**
+ * Format a server-sent event
+ */
+function sseEvent(event: string, data: object): string {
+    return `event: ${event}\ndata: ${JSON.stringify({ type: event, ...data })}\n\n`;
+}
+
+export interface StreamTranslator {
+    push(chunk: OpenAIStreamChunk): string;   // Anthropic SSE text for one OpenAI chunk
+    finish(): string;                         // Closing events (once the upstream stream ends)
+    getUsage(): AnthropicUsage;
+}
+
+/**
+ * Create a translator from OpenAI stream chunks to Anthropic stream events.
+ * Text and each tool call become their own content blocks, in order.
+ */
+export function createStreamTranslator(model: string): StreamTranslator {
+    let started = false;
+    let finished = false;
+    let blockIndex = -1;
+    let openBlock: 'text' | 'tool_use' | null = null;
+    // OpenAI tool call index → Anthropic content block index
+    const toolBlocks = new Map<number, number>();
+    let stopReason: string | null = null;
+    let usage: OpenAIUsage | null = null;
+
+    const start = (id: string | undefined): string => {
+        if (started) return '';
+        started = true;
+        return sseEvent('message_start', {
+            message: {
+                id: messageId(id),
+                type: 'message',
+                role: 'assistant',
+                model,
+                content: [],
+                stop_reason: null,
+                stop_sequence: null,
+                usage: { input_tokens: 0, output_tokens: 0 }
+            }
+        });
+    };
+
+    const closeBlock = (): string => {
+        if (openBlock === null) return '';
+        openBlock = null;
+        return sseEvent('content_block_stop', { index: blockIndex });
+    };
+
+    return {
+        push(chunk) {
+            let out = start(chunk.id);
+            if (chunk.usage) usage = chunk.usage;
+
+            const choice = chunk.choices?.[0];
+            const delta = choice?.delta;
+
+            if (delta?.content) {
+                if (openBlock !== 'text') {
+                    out += closeBlock();
+                    blockIndex++;
+                    openBlock = 'text';
+                    out += sseEvent('content_block_start', { index: blockIndex, content_block: { type: 'text', text: '' } });
+                }
+                out += sseEvent('content_block_delta', { index: blockIndex, delta: { type: 'text_delta', text: delta.content } });
+            }
+
+            for (const call of delta?.tool_calls || []) {
+                const toolIndex = call.index ?? 0;
+                if (!toolBlocks.has(toolIndex)) {
+                    out += closeBlock();
+                    blockIndex++;
+                    openBlock = 'tool_use';
+                    toolBlocks.set(toolIndex, blockIndex);
+                    out += sseEvent('content_block_start', {
+                        index: blockIndex,
+                        content_block: { type: 'tool_use', id: call.id || `toolu_${blockIndex}`, name: call.function?.name ?? '', input: {} }
+                    });
+                }
+                if (call.function?.arguments) {
+                    out += sseEvent('content_block_delta', {
+                        index: toolBlocks.get(toolIndex),
+                        delta: { type: 'input_json_delta', partial_json: call.function.arguments }
+                    });
+                }
+            }
+
+            if (choice?.finish_reason) {
+                stopReason = toStopReason(choice.finish_reason);
+            }
+            return out;
+        },
+
+        finish() {
+            if (finished) return '';
+            finished = true;
+            return start(undefined)
+                + closeBlock()
+                + sseEvent('message_delta', {
+                    delta: { stop_reason: stopReason ?? 'end_turn', stop_sequence: null },
+                    usage: toAnthropicUsage(usage)
+                })
+                + sseEvent('message_stop', {});
+        },
+
+        getUsage() {
+            return toAnthropicUsage(usage);
+        }
+    };
+}
+
+/**
+ * Map an HTTP status to an Anthropic error type
+ */
+export function errorType(status: number): string {
+    if (status === 401) return 'authentication_error';
+    if (status === 402) return 'billing_error';
+    if (status === 403) return 'permission_error';
+    if (status === 404) return 'not_found_error';
+    if (status === 413) return 'request_too_large';
+    if (status === 429) return 'rate_limit_error';
+    if (status === 529) return 'overloaded_error';
+    if (status >= 500) return 'api_error';
+    return 'invalid_request_error';
+}
+
+/**
+ * Build an Anthropic-format error body
+ */
+export function anthropicError(status: number, message: string): object {
+    return { type: 'error', error: { type: errorType(status), message } };
+}
+
+/**
+ * Translate an upstream error body (OpenAI or otherwise) to an Anthropic error
+ */
+export function fromOpenAIError(status: number, body: string): object {
+    let message = body.trim().substring(0, 500) || `Upstream returned HTTP ${status}`;
+    try {
+        const parsed = JSON.parse(body);
+        const candidate = parsed?.error?.message ?? parsed?.message ?? parsed?.error;
+        if (typeof candidate === 'string') message = candidate;
+    } catch {
+        // Not JSON
+    }
+    return anthropicError(status, message);
+}
+
+/**
+ * Rough token count for /v1/messages/count_tokens (about four characters per token)
+ */
+export function estimateInputTokens(request: AnthropicRequest): number {
+    const text = JSON.stringify([request.system ?? '', request.messages, request.tools ?? []]);
+    return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,148 @@
+import { spawnSync } from 'child_process';
+import { shellQuote } from '../../utils/quote.js';
+
+const ITEM_PREFIX = 'claude-alias';
+// Bitwarden item type for logins
+const LOGIN_ITEM_TYPE = 1;
+
+interface BitwardenItem {
+    id: string;
+    name?: string;
+    login?: { username?: string; password?: string };
+    [key: string]: unknown;
+}
+
+/**
+ * Get the Bitwarden item name for an alias
+ */
+function getItemName(alias: string): string {
+    return `${ITEM_PREFIX}-${alias}`;
+}
+
+/**
+ * Run the Bitwarden CLI with an argument vector (no shell involved).
+ * The vault must be unlocked (BW_SESSION set).
+ */
+function bw(args: string[], input?: string): { ok: boolean; stdout: string; stderr: string } {
+    const result = spawnSync('bw', args, { input, stdio: 'pipe', encoding: 'utf-8' });
+    return { ok: result.status === 0, stdout: result.stdout || '', stderr: result.stderr || '' };
+}
+
+/**
+ * Find the stored item for an alias. "bw get" matches by search, so claude-alias-foo
+ * could also find claude-alias-foo2; list the matches and keep the exact name.
+ */
+function findItem(alias: string): BitwardenItem | null {
+    const result = bw(['list', 'items', '--search', getItemName(alias)]);
+    if (!result.ok) return null;
+    try {
+        const items: BitwardenItem[] = JSON.parse(result.stdout);
+        return items.find(item => item?.name === getItemName(alias) && typeof item.id === 'string') ?? null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Encode an item the way "bw encode" does (base64 JSON)
+ */
+function encodeItem(item: object): string {
+    return Buffer.from(JSON.stringify(item), 'utf-8').toString('base64');
+}
+
+/**
+ * Check if the Bitwarden CLI (bw) is installed
+ */
+export async function isAvailable(): Promise<boolean> {
+    try {
+        const result = spawnSync('which', ['bw'], { stdio: 'pipe' });
+        return result.status === 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get API key from Bitwarden (the login item's password)
+ */
+export async function getApiKey(alias: string): Promise<string | null> {
+    try {
+        return findItem(alias)?.login?.password?.trim() || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Save API key to Bitwarden, updating the existing item if there is one.
+ * The encoded item is passed on stdin so the key never appears in argv.
+ */
+export async function setApiKey(alias: string, apiKey: string): Promise<boolean> {
+    try {
+        const existing = findItem(alias);
+        const result = existing
+            ? bw(['edit', 'item', existing.id], encodeItem({
+                ...existing,
+                login: { ...existing.login, password: apiKey }
+            }))
+            : bw(['create', 'item'], encodeItem({
+                type: LOGIN_ITEM_TYPE,
+                name: getItemName(alias),
+                notes: null,
+                login: { username: alias, password: apiKey }
+            }));
+        if (!result.ok) {
+            throw new Error(result.stderr.trim() || 'bw failed');
+        }
+        return true;
+    } catch (error) {
+        console.error('Failed to save API key to Bitwarden:', error instanceof Error ? error.message : error);
+        return false;
+    }
+}
+
+/**
+ * Delete API key from Bitwarden
+ */
+export async function deleteApiKey(alias: string): Promise<boolean> {
+    try {
+        const existing = findItem(alias);
+        if (existing) {
+            bw(['delete', 'item', existing.id]);
+        }
+    } catch {
+        // If it doesn't exist, consider it a success
+    }
+    return true;
+}
+
+/**
+ * Verify an API key exists
+ */
+export async function verifyApiKey(alias: string): Promise<boolean> {
+    const key = await getApiKey(alias);
+    return key !== null && key.length > 0;
+}
+
+/**
+ * List aliases with an item in the vault (throws if bw cannot list items, e.g. locked)
+ */
+export async function listAliases(): Promise<string[]> {
+    const result = bw(['list', 'items', '--search', `${ITEM_PREFIX}-`]);
+    if (!result.ok) {
+        throw new Error(result.stderr.trim() || 'bw list items failed');
+    }
+    const items: { name?: string }[] = JSON.parse(result.stdout);
+    return items
+        .map(item => item.name ?? '')
+        .filter(name => name.startsWith(`${ITEM_PREFIX}-`))
+        .map(name => name.slice(ITEM_PREFIX.length + 1));
+}
+
+/**
+ * Get the command to retrieve API key (for generated scripts).
+ * "bw get password" would match by search, so the exact lookup goes through claude-alias.
+ */
+export function getRetrievalCommand(alias: string): string {
+    return `claude-alias get-key ${shellQuote(alias)} 2>/dev/null`;
+}
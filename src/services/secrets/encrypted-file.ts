@@ -0,0 +1,479 @@
+/**
+ * Encrypted secrets file (~/.config/claude-alias/secrets.enc), used on Linux
+ * when secret-tool is not available.
+ *
+ * File format v2 is a header line followed by the payload:
+ *
+ *   # claude-alias-secrets v2 mode=passphrase N=131072 r=8 p=1 salt=<base64>
+ *   <iv hex>:<auth tag hex>:<ciphertext hex>
+ *
+ * The header is authenticated as AES-GCM additional data. In "machine" mode
+ * the key is derived from /etc/machine-id and the UID, which only obfuscates;
+ * in "passphrase" mode it is derived from a master passphrase with scrypt.
+ * Files without a header (v1) use the machine key and are still read.
+ */
+
+import { spawnSync } from 'child_process';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, openSync, fsyncSync, closeSync, renameSync, rmSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { ReadStream, WriteStream } from 'tty';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { password } from '@inquirer/prompts';
+import * as settings from '../settings.js';
+import type { ScryptParams, SecretsFileInfo, SecretsFileMode } from '../../types/index.js';
+
+const CONFIG_DIR = join(homedir(), '.config', 'claude-alias');
+const SECRETS_FILE = join(CONFIG_DIR, 'secrets.enc');
+
+const HEADER_PREFIX = '# claude-alias-secrets ';
+export const SECRETS_FILE_VERSION = 2;
+
+// Encryption settings
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 16;
+const SALT_LENGTH = 16;
+
+// Default scrypt cost for passphrase mode (~128 MiB, a fraction of a second)
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 2 ** 17, r: 8, p: 1 };
+const MAX_SCRYPT_N = 2 ** 22;
+// Headers are read from disk, so cap the memory scrypt may use for them (128 * N * r bytes)
+const MAX_SCRYPT_MEMORY = 256 * 2 ** 20;
+const MIN_PASSPHRASE_LENGTH = 8;
+const MAX_PASSPHRASE_ATTEMPTS = 3;
+
+// Minutes an unlocked key stays cached in the kernel keyring (settings.json secretsUnlockMinutes)
+const DEFAULT_UNLOCK_MINUTES = 15;
+
+interface FileHeader {
+    version: number;
+    mode: SecretsFileMode;
+    params?: ScryptParams;
+    salt?: Buffer;
+    line?: string;  // Raw header line (authenticated data), absent for v1 files
+}
+
+// Key of the file read or written last, so one command unlocks only once
+let unlockedKey: { salt: string; key: Buffer } | null = null;
+
+/**
+ * Get the path of the encrypted secrets file
+ */
+export function getSecretsFilePath(): string {
+    return SECRETS_FILE;
+}
+
+/**
+ * Get a machine-specific key for encryption ("machine" mode and v1 files).
+ * This is NOT truly secure - just obfuscation for when no keyring is available
+ */
+function getMachineKey(): Buffer {
+    // Use machine ID + user ID as key source
+    let machineId = 'default-machine-id';
+    try {
+        if (existsSync('/etc/machine-id')) {
+            machineId = readFileSync('/etc/machine-id', 'utf-8').trim();
+        } else if (existsSync('/var/lib/dbus/machine-id')) {
+            machineId = readFileSync('/var/lib/dbus/machine-id', 'utf-8').trim();
+        }
+    } catch {
+        // Use fallback
+    }
+
+    const salt = `claude-alias-${process.getuid?.() || 'user'}`;
+    return scryptSync(machineId, salt, KEY_LENGTH);
+}
+
+/**
+ * Derive a key from the master passphrase
+ */
+function derivePassphraseKey(passphrase: string, salt: Buffer, params: ScryptParams): Buffer {
+    // OpenSSL needs 128 * r * (N + p + 2) bytes; Node's default limit is 32 MiB
+    const { N, r, p } = params;
+    return scryptSync(passphrase, salt, KEY_LENGTH, { N, r, p, maxmem: 128 * r * (N + p + 2) });
+}
+
+/**
+ * Check scrypt parameters are sane (N a power of two, bounded memory)
+ */
+export function validateScryptParams(params: ScryptParams): true | string {
+    const { N, r, p } = params;
+    if (!Number.isInteger(N) || N < 2 ** 14 || N > MAX_SCRYPT_N || (N & (N - 1)) !== 0) {
+        return `scrypt N must be a power of two between ${2 ** 14} and ${MAX_SCRYPT_N}`;
+    }
+    if (!Number.isInteger(r) || r < 1 || r > 32 || !Number.isInteger(p) || p < 1 || p > 16) {
+        return 'scrypt r must be 1-32 and p must be 1-16';
+    }
+    if (128 * N * r > MAX_SCRYPT_MEMORY) {
+        return `scrypt N=${N} r=${r} needs ${128 * N * r / 2 ** 20} MiB; the limit is ${MAX_SCRYPT_MEMORY / 2 ** 20} MiB`;
+    }
+    return true;
+}
+
+/**
+ * Check a master passphrase is long enough
+ */
+export function validatePassphrase(passphrase: string): true | string {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`;
+    }
+    return true;
+}
+
+/**
+ * Build the header line for a v2 file
+ */
+function formatHeader(mode: SecretsFileMode, params?: ScryptParams, salt?: Buffer): string {
+    const fields = [`v${SECRETS_FILE_VERSION}`, `mode=${mode}`];
+    if (mode === 'passphrase') {
+        fields.push(`N=${params!.N}`, `r=${params!.r}`, `p=${params!.p}`, `salt=${salt!.toString('base64')}`);
+    }
+    return HEADER_PREFIX + fields.join(' ');
+}
+
+/**
+ * Split file content into header and payload. Files without a header are v1.
+ */
+function parseFile(content: string): { header: FileHeader; payload: string } {
+    if (!content.startsWith(HEADER_PREFIX)) {
+        return { header: { version: 1, mode: 'machine' }, payload: content.trim() };
+    }
+
+    const newline = content.indexOf('\n');
+    const line = newline === -1 ? content : content.substring(0, newline);
+    const [versionField, ...rest] = line.substring(HEADER_PREFIX.length).trim().split(/\s+/);
+    const version = parseInt(versionField.replace(/^v/, ''), 10);
+    if (isNaN(version)) {
+        throw new Error(`${SECRETS_FILE} has an invalid header`);
+    }
+    if (version > SECRETS_FILE_VERSION) {
+        throw new Error(`${SECRETS_FILE} was written by a newer claude-alias (format v${version}). Please upgrade claude-alias.`);
+    }
+
+    const fields = Object.fromEntries(rest.map(f => [f.substring(0, f.indexOf('=')), f.substring(f.indexOf('=') + 1)]));
+    const header: FileHeader = { version, mode: fields.mode === 'passphrase' ? 'passphrase' : 'machine', line };
+    if (header.mode === 'passphrase') {
+        header.params = { N: Number(fields.N), r: Number(fields.r), p: Number(fields.p) };
+        const check = validateScryptParams(header.params);
+        if (check !== true || !fields.salt) {
+            throw new Error(`${SECRETS_FILE} has invalid key derivation settings`);
+        }
+        header.salt = Buffer.from(fields.salt, 'base64');
+    }
+
+    return { header, payload: newline === -1 ? '' : content.substring(newline + 1).trim() };
+}
+
+/**
+ * Encrypt data, authenticating the header line if given.
+ * Format: iv:authTag:encrypted
+ */
+function encrypt(data: string, key: Buffer, headerLine?: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    if (headerLine) cipher.setAAD(Buffer.from(headerLine, 'utf-8'));
+
+    let encrypted = cipher.update(data, 'utf-8', 'hex');
+    encrypted += cipher.final('hex');
+
+    return `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted}`;
+}
+
+/**
+ * Decrypt a payload. Throws if the key is wrong or the file was modified.
+ */
+function decrypt(payload: string, key: Buffer, headerLine?: string): string {
+    const [ivHex, authTagHex, encrypted] = payload.split(':');
+
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(ivHex || '', 'hex'));
+    decipher.setAuthTag(Buffer.from(authTagHex || '', 'hex'));
+    if (headerLine) decipher.setAAD(Buffer.from(headerLine, 'utf-8'));
+
+    let decrypted = decipher.update(encrypted || '', 'hex', 'utf-8');
+    decrypted += decipher.final('utf-8');
+
+    return decrypted;
+}
+
+/**
+ * Check if keyctl (keyutils) is available for caching the unlocked key
+ */
+function hasKeyctl(): boolean {
+    try {
+        return spawnSync('which', ['keyctl'], { stdio: 'pipe' }).status === 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Keyring description for a file's cached key (tied to its salt, so re-keying invalidates it)
+ */
+function keyringDescription(salt: Buffer): string {
+    return `claude-alias:secrets:${salt.toString('hex').substring(0, 16)}`;
+}
+
+/**
+ * Look up a cached key in the user keyring
+ */
+function findKeyringEntry(salt: Buffer): string | null {
+    if (!hasKeyctl()) return null;
+    const result = spawnSync('keyctl', ['search', '@u', 'user', keyringDescription(salt)], { stdio: 'pipe', encoding: 'utf-8' });
+    return result.status === 0 && result.stdout.trim() ? result.stdout.trim() : null;
+}
+
+/**
+ * Read a cached key from the user keyring
+ */
+function readCachedKey(salt: Buffer): Buffer | null {
+    const id = findKeyringEntry(salt);
+    if (!id) return null;
+    const result = spawnSync('keyctl', ['pipe', id], { stdio: 'pipe', encoding: 'utf-8' });
+    return result.status === 0 && result.stdout.trim() ? Buffer.from(result.stdout.trim(), 'hex') : null;
+}
+
+/**
+ * Get how long an unlocked key stays cached (0 disables the cache)
+ */
+export function getUnlockMinutes(): number {
+    const minutes = settings.loadSettings().secretsUnlockMinutes;
+    return typeof minutes === 'number' && minutes >= 0 ? minutes : DEFAULT_UNLOCK_MINUTES;
+}
+
+/**
+ * Cache an unlocked key in the user keyring with a timeout.
+ * Returns false if keyctl is unavailable or caching is disabled.
+ */
+function cacheKey(salt: Buffer, key: Buffer): boolean {
+    const minutes = getUnlockMinutes();
+    if (minutes === 0 || !hasKeyctl()) return false;
+
+    const added = spawnSync('keyctl', ['padd', 'user', keyringDescription(salt), '@u'], {
+        input: key.toString('hex'),
+        stdio: ['pipe', 'pipe', 'pipe'],
+        encoding: 'utf-8'
+    });
+    const id = added.status === 0 ? added.stdout.trim() : '';
+    if (!id) return false;
+
+    spawnSync('keyctl', ['timeout', id, String(Math.round(minutes * 60))], { stdio: 'pipe' });
+    return true;
+}
+
+/**
+ * Prompt for the master passphrase on the terminal. Uses /dev/tty so it also
+ * works from generated scripts, where stdout is captured.
+ * Returns null if there is no terminal.
+ */
+async function promptPassphrase(message: string): Promise<string | null> {
+    let input: ReadStream;
+    let output: WriteStream;
+    try {
+        input = new ReadStream(openSync('/dev/tty', 'r'));
+        output = new WriteStream(openSync('/dev/tty', 'w'));
+    } catch {
+        return null;
+    }
+
+    try {
+        return await password({ message, mask: true }, { input, output });
+    } finally {
+        input.destroy();
+        output.destroy();
+    }
+}
+
+/**
+ * Get the key for a passphrase-mode file: this process's unlocked key,
+ * CLAUDE_ALIAS_MASTER_PASSPHRASE, the keyring cache, or a prompt.
+ * `verify` decrypts the payload to check a candidate key.
+ */
+async function unlockPassphraseKey(header: FileHeader, verify: (key: Buffer) => boolean): Promise<Buffer> {
+    const salt = header.salt!;
+    const saltId = salt.toString('base64');
+
+    if (unlockedKey?.salt === saltId && verify(unlockedKey.key)) {
+        return unlockedKey.key;
+    }
+
+    const remember = (key: Buffer): Buffer => {
+        unlockedKey = { salt: saltId, key };
+        return key;
+    };
+
+    const fromEnv = process.env.CLAUDE_ALIAS_MASTER_PASSPHRASE;
+    if (fromEnv) {
+        const key = derivePassphraseKey(fromEnv, salt, header.params!);
+        if (!verify(key)) throw new Error('CLAUDE_ALIAS_MASTER_PASSPHRASE does not unlock the secrets file');
+        return remember(key);
+    }
+
+    const cached = readCachedKey(salt);
+    if (cached && verify(cached)) {
+        return remember(cached);
+    }
+
+    for (let attempt = 1; attempt <= MAX_PASSPHRASE_ATTEMPTS; attempt++) {
+        const passphrase = await promptPassphrase('claude-alias master passphrase:');
+        if (passphrase === null) {
+            throw new Error('The secrets file is locked: run "claude-alias secrets unlock" or set CLAUDE_ALIAS_MASTER_PASSPHRASE');
+        }
+        const key = derivePassphraseKey(passphrase, salt, header.params!);
+        if (verify(key)) {
+            cacheKey(salt, key);
+            return remember(key);
+        }
+        process.stderr.write('Wrong passphrase\n');
+    }
+    throw new Error('Wrong master passphrase');
+}
+
+/**
+ * Read the file and return its header, key and decrypted secrets
+ */
+async function openFile(): Promise<{ header: FileHeader; key: Buffer; secrets: Record<string, string> }> {
+    const { header, payload } = parseFile(readFileSync(SECRETS_FILE, 'utf-8'));
+
+    if (header.mode === 'machine') {
+        const key = getMachineKey();
+        return { header, key, secrets: JSON.parse(decrypt(payload, key, header.line)) };
+    }
+
+    const tryKey = (key: Buffer): boolean => {
+        try {
+            decrypt(payload, key, header.line);
+            return true;
+        } catch {
+            return false;
+        }
+    };
+    const key = await unlockPassphraseKey(header, tryKey);
+    return { header, key, secrets: JSON.parse(decrypt(payload, key, header.line)) };
+}
+
+/**
+ * Get the file's format and protection mode (null if there is no file)
+ */
+export function getFileInfo(): SecretsFileInfo | null {
+    if (!existsSync(SECRETS_FILE)) return null;
+    const { header } = parseFile(readFileSync(SECRETS_FILE, 'utf-8'));
+    return {
+        path: SECRETS_FILE,
+        version: header.version,
+        mode: header.mode,
+        params: header.params,
+        cached: header.mode === 'passphrase' && !!findKeyringEntry(header.salt!)
+    };
+}
+
+/**
+ * Read all secrets (empty if the file does not exist).
+ * Throws if the file cannot be decrypted, so callers never overwrite it by mistake.
+ */
+export async function readSecrets(): Promise<Record<string, string>> {
+    if (!existsSync(SECRETS_FILE)) {
+        return {};
+    }
+    return (await openFile()).secrets;
+}
+
+/**
+ * Encrypt and write secrets with the given mode and key.
+ * Writes a temporary file and renames it over the old one, so a failed write never truncates it.
+ */
+function writeFile(secrets: Record<string, string>, mode: SecretsFileMode, key: Buffer, params?: ScryptParams, salt?: Buffer): void {
+    if (!existsSync(CONFIG_DIR)) {
+        mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
+    }
+
+    const headerLine = formatHeader(mode, params, salt);
+    const tempFile = `${SECRETS_FILE}.${process.pid}.tmp`;
+    const fd = openSync(tempFile, 'w', 0o600);
+    try {
+        try {
+            writeFileSync(fd, `${headerLine}\n${encrypt(JSON.stringify(secrets), key, headerLine)}\n`);
+            fsyncSync(fd);
+        } finally {
+            closeSync(fd);
+        }
+        renameSync(tempFile, SECRETS_FILE);
+    } catch (error) {
+        rmSync(tempFile, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Write all secrets, keeping the file's current protection mode (machine key for new files)
+ */
+export async function writeSecrets(secrets: Record<string, string>): Promise<void> {
+    if (!existsSync(SECRETS_FILE)) {
+        writeFile(secrets, 'machine', getMachineKey());
+        return;
+    }
+
+    const { header, key } = await openFile();
+    if (header.mode === 'passphrase') {
+        writeFile(secrets, 'passphrase', key, header.params, header.salt);
+    } else {
+        writeFile(secrets, 'machine', key);
+    }
+}
+
+/**
+ * Re-encrypt the file in the current format, switching to a master passphrase
+ * (with a fresh salt) or back to the machine key. Also upgrades v1 files.
+ * Returns the number of secrets re-encrypted.
+ */
+export async function migrate(mode: SecretsFileMode, passphrase?: string, params: ScryptParams = DEFAULT_SCRYPT_PARAMS): Promise<number> {
+    const paramsCheck = mode === 'passphrase' ? validateScryptParams(params) : true;
+    if (paramsCheck !== true) throw new Error(paramsCheck);
+    if (mode === 'passphrase' && !passphrase) throw new Error('A master passphrase is required');
+
+    const secrets = await readSecrets();
+    lock();
+
+    if (mode === 'passphrase') {
+        const salt = randomBytes(SALT_LENGTH);
+        const key = derivePassphraseKey(passphrase!, salt, params);
+        writeFile(secrets, 'passphrase', key, params, salt);
+        unlockedKey = { salt: salt.toString('base64'), key };
+        cacheKey(salt, key);
+    } else {
+        writeFile(secrets, 'machine', getMachineKey());
+    }
+
+    return Object.keys(secrets).length;
+}
+
+/**
+ * Unlock a passphrase-protected file and cache the key in the keyring.
+ * Returns false if keyctl is not available to hold the cache.
+ */
+export async function unlock(): Promise<boolean> {
+    const { header, key } = await openFile();
+    if (header.mode !== 'passphrase') return true;
+    return !!findKeyringEntry(header.salt!) || cacheKey(header.salt!, key);
+}
+
+/**
+ * Forget the unlocked key (this process and the keyring cache)
+ */
+export function lock(): void {
+    unlockedKey = null;
+    if (!existsSync(SECRETS_FILE)) return;
+
+    let header: FileHeader;
+    try {
+        header = parseFile(readFileSync(SECRETS_FILE, 'utf-8')).header;
+    } catch {
+        return;
+    }
+    if (header.mode !== 'passphrase') return;
+
+    const id = findKeyringEntry(header.salt!);
+    if (id) {
+        spawnSync('keyctl', ['unlink', id, '@u'], { stdio: 'pipe' });
+    }
+}
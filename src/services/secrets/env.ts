@@ -0,0 +1,55 @@
+import { shellQuote } from '../../utils/quote.js';
+
+// Keys come from the environment (e.g. CI secrets) and cannot be stored
+export const readOnly = true;
+
+/**
+ * Get the environment variable holding an alias's key (ccd → CLAUDE_ALIAS_KEY_CCD)
+ */
+export function getEnvVarName(alias: string): string {
+    return `CLAUDE_ALIAS_KEY_${alias.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+/**
+ * Environment variables are always available
+ */
+export async function isAvailable(): Promise<boolean> {
+    return true;
+}
+
+/**
+ * Get API key from the alias's environment variable
+ */
+export async function getApiKey(alias: string): Promise<string | null> {
+    return process.env[getEnvVarName(alias)]?.trim() || null;
+}
+
+/**
+ * Keys cannot be saved to the environment; export the variable instead
+ */
+export async function setApiKey(alias: string, _apiKey: string): Promise<boolean> {
+    console.error(`The env backend is read-only: export ${getEnvVarName(alias)} instead`);
+    return false;
+}
+
+/**
+ * Nothing is stored, so there is nothing to delete
+ */
+export async function deleteApiKey(_alias: string): Promise<boolean> {
+    return true;
+}
+
+/**
+ * Verify the alias's environment variable is set
+ */
+export async function verifyApiKey(alias: string): Promise<boolean> {
+    const key = await getApiKey(alias);
+    return key !== null && key.length > 0;
+}
+
+/**
+ * Get the command to retrieve API key (for generated scripts)
+ */
+export function getRetrievalCommand(alias: string): string {
+    return `printenv ${shellQuote(getEnvVarName(alias))}`;
+}
@@ -0,0 +1,76 @@
+import * as encryptedFile from './encrypted-file.js';
+import { shellQuote } from '../../utils/quote.js';
+
+/**
+ * The encrypted file works anywhere
+ */
+export async function isAvailable(): Promise<boolean> {
+    return true;
+}
+
+/**
+ * Get API key from the encrypted secrets file
+ */
+export async function getApiKey(alias: string): Promise<string | null> {
+    try {
+        const secrets = await encryptedFile.readSecrets();
+        return secrets[alias] || null;
+    } catch (error) {
+        process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+        return null;
+    }
+}
+
+/**
+ * Save API key to the encrypted secrets file
+ */
+export async function setApiKey(alias: string, apiKey: string): Promise<boolean> {
+    try {
+        const secrets = await encryptedFile.readSecrets();
+        secrets[alias] = apiKey;
+        await encryptedFile.writeSecrets(secrets);
+        return true;
+    } catch (error) {
+        console.error('Failed to save API key:', error instanceof Error ? error.message : error);
+        return false;
+    }
+}
+
+/**
+ * Delete API key from the encrypted secrets file
+ */
+export async function deleteApiKey(alias: string): Promise<boolean> {
+    try {
+        const secrets = await encryptedFile.readSecrets();
+        if (secrets[alias]) {
+            delete secrets[alias];
+            await encryptedFile.writeSecrets(secrets);
+        }
+    } catch {
+        // Ignore errors
+    }
+    return true;
+}
+
+/**
+ * Verify an API key exists
+ */
+export async function verifyApiKey(alias: string): Promise<boolean> {
+    const key = await getApiKey(alias);
+    return key !== null && key.length > 0;
+}
+
+/**
+ * List aliases with a key in the encrypted secrets file
+ */
+export async function listAliases(): Promise<string[]> {
+    return Object.keys(await encryptedFile.readSecrets());
+}
+
+/**
+ * Get the command to retrieve API key (for generated scripts).
+ * Decryption needs claude-alias itself.
+ */
+export function getRetrievalCommand(alias: string): string {
+    return `claude-alias get-key ${shellQuote(alias)} 2>/dev/null`;
+}
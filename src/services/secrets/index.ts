@@ -1,76 +1,253 @@
 /**
- * Platform-aware secret storage
- * Routes to appropriate backend based on OS
+ * Pluggable secret storage
+ * Routes each alias to its configured backend ('system' = the OS default)
  */
 
 import * as macosSecrets from './macos.js';
 import * as linuxSecrets from './linux.js';
+import * as secretToolSecrets from './secret-tool.js';
+import * as fileSecrets from './file.js';
+import * as passSecrets from './pass.js';
+import * as onePasswordSecrets from './onepassword.js';
+import * as bitwardenSecrets from './bitwarden.js';
+import * as envSecrets from './env.js';
+import * as configStore from '../config.js';
+import * as settings from '../settings.js';
+import type { SecretBackend, SecretBackendName, SecretKeyScan } from '../../types/index.js';
+
+export { getEnvVarName } from './env.js';
 
 const platform = process.platform;
 
-// Select the appropriate backend
-const backend = platform === 'darwin' ? macosSecrets :
+// The OS default backend
+const systemBackend: SecretBackend | null = platform === 'darwin' ? macosSecrets :
     platform === 'linux' ? linuxSecrets :
         null;
 
+const BACKENDS: Record<Exclude<SecretBackendName, 'system'>, SecretBackend> = {
+    keychain: macosSecrets,
+    'secret-tool': secretToolSecrets,
+    file: fileSecrets,
+    pass: passSecrets,
+    '1password': onePasswordSecrets,
+    bitwarden: bitwardenSecrets,
+    env: envSecrets
+};
+
+export const BACKEND_NAMES: SecretBackendName[] = ['system', ...Object.keys(BACKENDS) as SecretBackendName[]];
+
+// Backends that hold keys themselves ('system' stores into one of these)
+export const STORAGE_BACKENDS = Object.keys(BACKENDS) as Exclude<SecretBackendName, 'system'>[];
+
+const BACKEND_LABELS: Record<SecretBackendName, string> = {
+    system: 'System keychain',
+    keychain: 'macOS Keychain',
+    'secret-tool': 'GNOME Keyring/KDE Wallet (secret-tool)',
+    file: 'Encrypted file',
+    pass: 'pass (password-store)',
+    '1password': '1Password (op)',
+    bitwarden: 'Bitwarden (bw)',
+    env: 'Environment variable'
+};
+
 /**
- * Check if secret storage is available on this platform
+ * Check a name is a known backend
  */
-export async function isKeychainAvailable(): Promise<boolean> {
-    if (!backend) {
-        return false;
+export function isBackendName(name: string): name is SecretBackendName {
+    return (BACKEND_NAMES as string[]).includes(name);
+}
+
+/**
+ * Get a readable label for a backend
+ */
+export function getBackendLabel(name: SecretBackendName): string {
+    if (name === 'system') {
+        return platform === 'darwin' ? BACKEND_LABELS.keychain
+            : platform === 'linux' ? (isUsingFallback() ? BACKEND_LABELS.file : BACKEND_LABELS['secret-tool'])
+                : BACKEND_LABELS.system;
     }
-    return backend.isAvailable();
+    return BACKEND_LABELS[name];
 }
 
 /**
- * Get API key from platform secret storage
+ * Get the implementation of a backend (null for 'system' on unsupported platforms)
  */
-export async function getApiKey(alias: string): Promise<string | null> {
+function resolveBackend(name: SecretBackendName): SecretBackend | null {
+    return name === 'system' ? systemBackend : BACKENDS[name];
+}
+
+/**
+ * Get the implementation of a backend, throwing if it cannot be used on this platform
+ */
+function requireBackend(name: SecretBackendName): SecretBackend {
+    const backend = resolveBackend(name);
     if (!backend) {
-        throw new Error(`Unsupported platform: ${platform}. Only macOS and Linux are supported.`);
+        throw new Error(`Unsupported platform: ${platform}. Only macOS and Linux have a system keychain; choose another secret backend.`);
     }
-    return backend.getApiKey(alias);
+    return backend;
 }
 
 /**
- * Save API key to platform secret storage
+ * Get the backend new aliases use (settings.secretBackend, default 'system')
  */
-export async function setApiKey(alias: string, apiKey: string): Promise<boolean> {
-    if (!backend) {
-        throw new Error(`Unsupported platform: ${platform}. Only macOS and Linux are supported.`);
+export function getDefaultBackend(): SecretBackendName {
+    return settings.loadSettings().secretBackend ?? 'system';
+}
+
+/**
+ * Get the backend an alias's key lives in: its stored config's choice, or the
+ * default for aliases without a config yet
+ */
+export function getAliasBackend(alias: string): SecretBackendName {
+    const config = configStore.getAliasConfig(alias);
+    if (config) return config.secretBackend ?? 'system';
+    return getDefaultBackend();
+}
+
+/**
+ * Get the backend the system keychain stores new keys in (null on unsupported platforms)
+ */
+export function getSystemStorage(): SecretBackendName | null {
+    if (platform === 'darwin') return 'keychain';
+    if (platform === 'linux') return isUsingFallback() ? 'file' : 'secret-tool';
+    return null;
+}
+
+/**
+ * Get the backend an alias's key is actually read from. For 'system' on Linux this is
+ * the encrypted file when the key is still there but not yet in secret-tool.
+ */
+export async function resolveStorage(alias: string, backend: SecretBackendName): Promise<SecretBackendName | null> {
+    if (backend !== 'system') return backend;
+    if (platform === 'linux' && !isUsingFallback()
+        && !await secretToolSecrets.verifyApiKey(alias) && await fileSecrets.verifyApiKey(alias)) {
+        return 'file';
     }
-    return backend.setApiKey(alias, apiKey);
+    return getSystemStorage();
 }
 
 /**
- * Delete API key from platform secret storage
+ * List the aliases with a key stored in a backend (null if it cannot enumerate them)
  */
-export async function deleteApiKey(alias: string): Promise<boolean> {
-    if (!backend) {
-        throw new Error(`Unsupported platform: ${platform}. Only macOS and Linux are supported.`);
+export async function listStoredAliases(backend: SecretBackendName): Promise<string[] | null> {
+    const impl = resolveBackend(backend);
+    return impl?.listAliases ? impl.listAliases() : null;
+}
+
+/**
+ * Get the backends keys may be stored in: those behind 'system', the default,
+ * and any an alias is configured with (only those available here)
+ */
+export async function getBackendsInUse(): Promise<SecretBackendName[]> {
+    const names = new Set<SecretBackendName>([
+        ...[getDefaultBackend(), ...configStore.listAliasConfigs().map(c => c.secretBackend ?? 'system')]
+            .flatMap(name => name !== 'system' ? [name]
+                : platform === 'darwin' ? ['keychain' as const]
+                    : platform === 'linux' ? ['secret-tool' as const, 'file' as const] : [])
+    ]);
+
+    const available: SecretBackendName[] = [];
+    for (const name of STORAGE_BACKENDS) {
+        if (names.has(name) && await isKeychainAvailable(name)) available.push(name);
     }
-    return backend.deleteApiKey(alias);
+    return available;
+}
+
+/**
+ * Find which backends hold a key for each alias, without reading the keys where possible.
+ * Backends that cannot list their keys (env) are only checked for the given aliases.
+ */
+export async function scanStoredKeys(aliases: string[], backends: SecretBackendName[]): Promise<SecretKeyScan> {
+    const scan: SecretKeyScan = { locations: {}, failures: [] };
+    const record = (alias: string, backend: SecretBackendName) => {
+        (scan.locations[alias] ??= []).push(backend);
+    };
+
+    for (const backend of backends) {
+        try {
+            const stored = await listStoredAliases(backend);
+            if (stored) {
+                stored.forEach(alias => record(alias, backend));
+                continue;
+            }
+            for (const alias of aliases) {
+                if (await verifyApiKey(alias, backend)) record(alias, backend);
+            }
+        } catch (error) {
+            scan.failures.push({ backend, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    return scan;
+}
+
+/**
+ * Check an alias can use a backend. Env variable names fold case and punctuation,
+ * so two env-backed aliases (my-alias, My_Alias) could otherwise read the same key.
+ * Returns true if valid, otherwise an error message.
+ */
+export function validateAliasBackend(alias: string, backend: SecretBackendName): true | string {
+    if (backend !== 'env') return true;
+    const name = envSecrets.getEnvVarName(alias);
+    const other = configStore.listAliasConfigs()
+        .find(c => c.alias !== alias && c.secretBackend === 'env' && envSecrets.getEnvVarName(c.alias) === name);
+    return other ? `'${other.alias}' already reads its key from ${name}; choose an alias name that maps to a different variable` : true;
+}
+
+/**
+ * Check whether a backend cannot store keys (they are provided from outside)
+ */
+export function isReadOnly(name: SecretBackendName): boolean {
+    return !!resolveBackend(name)?.readOnly;
+}
+
+/**
+ * Check if a secret backend is available (default: the OS keychain)
+ */
+export async function isKeychainAvailable(backend: SecretBackendName = 'system'): Promise<boolean> {
+    const impl = resolveBackend(backend);
+    if (!impl) {
+        return false;
+    }
+    return impl.isAvailable();
+}
+
+/**
+ * Get API key from the alias's secret backend
+ */
+export async function getApiKey(alias: string, backend: SecretBackendName = getAliasBackend(alias)): Promise<string | null> {
+    return requireBackend(backend).getApiKey(alias);
+}
+
+/**
+ * Save API key to the alias's secret backend
+ */
+export async function setApiKey(alias: string, apiKey: string, backend: SecretBackendName = getAliasBackend(alias)): Promise<boolean> {
+    return requireBackend(backend).setApiKey(alias, apiKey);
+}
+
+/**
+ * Delete API key from the alias's secret backend
+ */
+export async function deleteApiKey(alias: string, backend: SecretBackendName = getAliasBackend(alias)): Promise<boolean> {
+    return requireBackend(backend).deleteApiKey(alias);
 }
 
 /**
  * Verify an API key exists
  */
-export async function verifyApiKey(alias: string): Promise<boolean> {
-    if (!backend) {
+export async function verifyApiKey(alias: string, backend: SecretBackendName = getAliasBackend(alias)): Promise<boolean> {
+    const impl = resolveBackend(backend);
+    if (!impl) {
         return false;
     }
-    return backend.verifyApiKey(alias);
+    return impl.verifyApiKey(alias);
 }
 
 /**
  * Get the shell command to retrieve API key (for generated scripts)
  */
-export function getRetrievalCommand(alias: string): string {
-    if (!backend) {
-        throw new Error(`Unsupported platform: ${platform}`);
-    }
-    return backend.getRetrievalCommand(alias);
+export function getRetrievalCommand(alias: string, backend: SecretBackendName = getAliasBackend(alias)): string {
+    return requireBackend(backend).getRetrievalCommand(alias);
 }
 
 /**
@@ -86,7 +263,7 @@ export function getPlatform(): 'macos' | 'linux' | 'unsupported' {
  * Check if using fallback storage (Linux only)
  */
 export function isUsingFallback(): boolean {
-    if (platform === 'linux' && 'isUsingFallback' in linuxSecrets) {
+    if (platform === 'linux') {
         return linuxSecrets.isUsingFallback();
     }
     return false;
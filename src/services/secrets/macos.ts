@@ -1,4 +1,5 @@
-import { execSync } from 'child_process';
+import { spawnSync } from 'child_process';
+import { shellQuote } from '../../utils/quote.js';
 
 const KEYCHAIN_SERVICE_PREFIX = 'claude-alias';
 
@@ -9,13 +10,21 @@ function getServiceName(alias: string): string {
     return `${KEYCHAIN_SERVICE_PREFIX}-${alias}`;
 }
 
+/**
+ * Run the security CLI with an argument vector (no shell involved)
+ */
+function security(args: string[]): { ok: boolean; stdout: string } {
+    const result = spawnSync('security', args, { stdio: 'pipe', encoding: 'utf-8' });
+    return { ok: result.status === 0, stdout: result.stdout || '' };
+}
+
 /**
  * Check if macOS Keychain is available
  */
 export async function isAvailable(): Promise<boolean> {
     try {
-        execSync('which security', { stdio: 'pipe' });
-        return true;
+        const result = spawnSync('which', ['security'], { stdio: 'pipe' });
+        return result.status === 0;
     } catch {
         return false;
     }
@@ -28,11 +37,8 @@ export async function getApiKey(alias: string): Promise<string | null> {
     const service = getServiceName(alias);
 
     try {
-        const result = execSync(
-            `security find-generic-password -s "${service}" -a "${alias}" -w`,
-            { stdio: 'pipe', encoding: 'utf-8' }
-        );
-        return result.trim();
+        const result = security(['find-generic-password', '-s', service, '-a', alias, '-w']);
+        return result.ok ? result.stdout.trim() : null;
     } catch {
         return null;
     }
@@ -45,21 +51,14 @@ export async function setApiKey(alias: string, apiKey: string): Promise<boolean>
     const service = getServiceName(alias);
 
     try {
-        // First try to delete any existing entry
-        try {
-            execSync(
-                `security delete-generic-password -s "${service}" -a "${alias}"`,
-                { stdio: 'pipe' }
-            );
-        } catch {
-            // Ignore if doesn't exist
-        }
+        // First delete any existing entry (fails harmlessly if there is none)
+        security(['delete-generic-password', '-s', service, '-a', alias]);
 
         // Add the new entry
-        execSync(
-            `security add-generic-password -s "${service}" -a "${alias}" -w "${apiKey}"`,
-            { stdio: 'pipe' }
-        );
+        const result = security(['add-generic-password', '-s', service, '-a', alias, '-w', apiKey]);
+        if (!result.ok) {
+            throw new Error('security add-generic-password failed');
+        }
         return true;
     } catch (error) {
         console.error('Failed to save API key to Keychain:', error);
@@ -74,15 +73,11 @@ export async function deleteApiKey(alias: string): Promise<boolean> {
     const service = getServiceName(alias);
 
     try {
-        execSync(
-            `security delete-generic-password -s "${service}" -a "${alias}"`,
-            { stdio: 'pipe' }
-        );
-        return true;
+        security(['delete-generic-password', '-s', service, '-a', alias]);
     } catch {
         // If it doesn't exist, consider it a success
-        return true;
     }
+    return true;
 }
 
 /**
@@ -93,10 +88,23 @@ export async function verifyApiKey(alias: string): Promise<boolean> {
     return key !== null && key.length > 0;
 }
 
+/**
+ * List aliases with a key in the Keychain (dump-keychain without -d prints no secrets)
+ */
+export async function listAliases(): Promise<string[]> {
+    try {
+        const result = security(['dump-keychain']);
+        const pattern = new RegExp(`"svce"<blob>="${KEYCHAIN_SERVICE_PREFIX}-([^"]+)"`, 'g');
+        return [...new Set([...result.stdout.matchAll(pattern)].map(m => m[1]))];
+    } catch {
+        return [];
+    }
+}
+
 /**
  * Get the command to retrieve API key (for generated scripts)
  */
 export function getRetrievalCommand(alias: string): string {
     const service = getServiceName(alias);
-    return `security find-generic-password -s "${service}" -a "${alias}" -w 2>/dev/null`;
+    return `security find-generic-password -s ${shellQuote(service)} -a ${shellQuote(alias)} -w 2>/dev/null`;
 }
@@ -0,0 +1,161 @@
+import { spawnSync } from 'child_process';
+import * as settings from '../settings.js';
+import { quoteWordIfNeeded } from '../../utils/quote.js';
+
+const ITEM_PREFIX = 'claude-alias';
+const FIELD_NAME = 'credential';
+const DEFAULT_VAULT = 'Private';
+
+/**
+ * Get the 1Password item title for an alias
+ */
+function getItemName(alias: string): string {
+    return `${ITEM_PREFIX}-${alias}`;
+}
+
+/**
+ * Get the vault new keys are stored in (settings.onePasswordVault).
+ * Items are looked up by title across vaults, so changing it does not lose older keys.
+ */
+export function getVault(): string {
+    return settings.loadSettings().onePasswordVault || DEFAULT_VAULT;
+}
+
+/**
+ * Get the op arguments that print an alias's key
+ */
+function getReadArgs(alias: string): string[] {
+    return ['item', 'get', getItemName(alias), '--fields', `label=${FIELD_NAME}`, '--reveal'];
+}
+
+/**
+ * Run the 1Password CLI with an argument vector (no shell involved)
+ */
+function op(args: string[], input?: string): { ok: boolean; stdout: string; stderr: string } {
+    const result = spawnSync('op', args, { input, stdio: 'pipe', encoding: 'utf-8' });
+    return { ok: result.status === 0, stdout: result.stdout || '', stderr: result.stderr || '' };
+}
+
+/**
+ * Check if the 1Password CLI (op) is installed
+ */
+export async function isAvailable(): Promise<boolean> {
+    try {
+        const result = spawnSync('which', ['op'], { stdio: 'pipe' });
+        return result.status === 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get API key from 1Password
+ */
+export async function getApiKey(alias: string): Promise<string | null> {
+    try {
+        const result = op(getReadArgs(alias));
+        return result.ok && result.stdout.trim() ? result.stdout.trim() : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Get the ids of the items holding an alias's key, in any vault
+ */
+function findItemIds(alias: string): string[] {
+    const result = op(['item', 'list', '--format', 'json']);
+    if (!result.ok) {
+        throw new Error(result.stderr.trim() || 'op item list failed');
+    }
+    const items: { id?: string; title?: string }[] = JSON.parse(result.stdout);
+    return items
+        .filter(item => item.title === getItemName(alias) && item.id)
+        .map(item => item.id!);
+}
+
+/**
+ * Save API key to 1Password as an API Credential item.
+ * The item is passed as a JSON template on stdin so the key never appears in argv.
+ * The new item is created before the old one is deleted, so a failed write keeps the old key.
+ */
+export async function setApiKey(alias: string, apiKey: string): Promise<boolean> {
+    const vault = getVault();
+    const template = {
+        title: getItemName(alias),
+        category: 'API_CREDENTIAL',
+        fields: [
+            { id: FIELD_NAME, label: FIELD_NAME, type: 'CONCEALED', value: apiKey }
+        ]
+    };
+
+    try {
+        const previous = findItemIds(alias);
+
+        const result = op(['item', 'create', '--vault', vault, '-'], JSON.stringify(template));
+        if (!result.ok) {
+            throw new Error(result.stderr.trim() || 'op item create failed');
+        }
+
+        // Lookups are by title, so the old item must go for the new one to be found
+        for (const id of previous) {
+            const deleted = op(['item', 'delete', id]);
+            if (!deleted.ok) {
+                throw new Error(`the new item was created, but the old one (${id}) could not be deleted: ${deleted.stderr.trim() || 'op item delete failed'}`);
+            }
+        }
+        return true;
+    } catch (error) {
+        console.error('Failed to save API key to 1Password:', error instanceof Error ? error.message : error);
+        return false;
+    }
+}
+
+/**
+ * Delete API key from 1Password: every item with the alias's title, by id
+ * (deleting by title fails once there is more than one). No item counts as success.
+ */
+export async function deleteApiKey(alias: string): Promise<boolean> {
+    try {
+        for (const id of findItemIds(alias)) {
+            const deleted = op(['item', 'delete', id]);
+            if (!deleted.ok) {
+                throw new Error(`item ${id}: ${deleted.stderr.trim() || 'op item delete failed'}`);
+            }
+        }
+        return true;
+    } catch (error) {
+        console.error('Failed to delete API key from 1Password:', error instanceof Error ? error.message : error);
+        return false;
+    }
+}
+
+/**
+ * Verify an API key exists
+ */
+export async function verifyApiKey(alias: string): Promise<boolean> {
+    const key = await getApiKey(alias);
+    return key !== null && key.length > 0;
+}
+
+/**
+ * List aliases with an item in any vault (throws if op cannot list items, e.g. signed out)
+ */
+export async function listAliases(): Promise<string[]> {
+    const result = op(['item', 'list', '--format', 'json']);
+    if (!result.ok) {
+        throw new Error(result.stderr.trim() || 'op item list failed');
+    }
+    const items: { title?: string }[] = JSON.parse(result.stdout);
+    return items
+        .map(item => item.title ?? '')
+        .filter(title => title.startsWith(`${ITEM_PREFIX}-`))
+        .map(title => title.slice(ITEM_PREFIX.length + 1));
+}
+
+/**
+ * Get the command to retrieve API key (for generated scripts)
+ */
+export function getRetrievalCommand(alias: string): string {
+    return `op ${getReadArgs(alias).map(arg => quoteWordIfNeeded(arg)).join(' ')} 2>/dev/null`;
+}
@@ -0,0 +1,97 @@
+import { spawnSync } from 'child_process';
+import { existsSync, readdirSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { shellQuote } from '../../utils/quote.js';
+
+// Entries live under claude-alias/<alias> in the password store
+const ENTRY_PREFIX = 'claude-alias';
+
+/**
+ * Get the password store entry for an alias
+ */
+function getEntryName(alias: string): string {
+    return `${ENTRY_PREFIX}/${alias}`;
+}
+
+/**
+ * Run the pass CLI with an argument vector (no shell involved)
+ */
+function pass(args: string[], input?: string): { ok: boolean; stdout: string } {
+    const result = spawnSync('pass', args, { input, stdio: 'pipe', encoding: 'utf-8' });
+    return { ok: result.status === 0, stdout: result.stdout || '' };
+}
+
+/**
+ * Check if pass (the standard Unix password manager) is installed
+ */
+export async function isAvailable(): Promise<boolean> {
+    try {
+        const result = spawnSync('which', ['pass'], { stdio: 'pipe' });
+        return result.status === 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get API key from the password store (first line of the entry)
+ */
+export async function getApiKey(alias: string): Promise<string | null> {
+    try {
+        const result = pass(['show', getEntryName(alias)]);
+        const key = result.ok ? result.stdout.split('\n')[0].trim() : '';
+        return key || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Save API key to the password store, replacing any existing entry
+ */
+export async function setApiKey(alias: string, apiKey: string): Promise<boolean> {
+    try {
+        return pass(['insert', '--multiline', '--force', getEntryName(alias)], `${apiKey}\n`).ok;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Delete API key from the password store
+ */
+export async function deleteApiKey(alias: string): Promise<boolean> {
+    try {
+        pass(['rm', '--force', getEntryName(alias)]);
+    } catch {
+        // If it doesn't exist, consider it a success
+    }
+    return true;
+}
+
+/**
+ * Verify an API key exists
+ */
+export async function verifyApiKey(alias: string): Promise<boolean> {
+    const key = await getApiKey(alias);
+    return key !== null && key.length > 0;
+}
+
+/**
+ * List aliases with an entry in the password store (read from its directory, nothing is decrypted)
+ */
+export async function listAliases(): Promise<string[]> {
+    const dir = join(process.env.PASSWORD_STORE_DIR || join(homedir(), '.password-store'), ENTRY_PREFIX);
+    if (!existsSync(dir)) return [];
+    return readdirSync(dir)
+        .filter(name => name.endsWith('.gpg'))
+        .map(name => name.slice(0, -'.gpg'.length));
+}
+
+/**
+ * Get the command to retrieve API key (for generated scripts)
+ */
+export function getRetrievalCommand(alias: string): string {
+    return `pass show ${shellQuote(getEntryName(alias))} 2>/dev/null | head -n 1`;
+}
@@ -0,0 +1,102 @@
+import { spawnSync } from 'child_process';
+import { shellQuote } from '../../utils/quote.js';
+
+const SERVICE_NAME = 'claude-alias';
+
+/**
+ * Check if secret-tool (libsecret) is installed
+ */
+export function hasSecretTool(): boolean {
+    try {
+        const result = spawnSync('which', ['secret-tool'], { stdio: 'pipe' });
+        return result.status === 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Check if secret-tool storage is available
+ */
+export async function isAvailable(): Promise<boolean> {
+    return hasSecretTool();
+}
+
+/**
+ * Get API key from the GNOME Keyring/KDE Wallet via secret-tool
+ */
+export async function getApiKey(alias: string): Promise<string | null> {
+    try {
+        const result = spawnSync('secret-tool', ['lookup', 'service', SERVICE_NAME, 'alias', alias], {
+            stdio: 'pipe',
+            encoding: 'utf-8'
+        });
+        return result.status === 0 && result.stdout.trim() ? result.stdout.trim() : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Save API key via secret-tool (which reads the secret from stdin)
+ */
+export async function setApiKey(alias: string, apiKey: string): Promise<boolean> {
+    try {
+        const result = spawnSync('secret-tool', [
+            'store',
+            '--label', `Claude Alias: ${alias}`,
+            'service', SERVICE_NAME,
+            'alias', alias
+        ], {
+            input: apiKey,
+            stdio: ['pipe', 'pipe', 'pipe']
+        });
+        return result.status === 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Delete API key from secret-tool storage
+ */
+export async function deleteApiKey(alias: string): Promise<boolean> {
+    try {
+        spawnSync('secret-tool', ['clear', 'service', SERVICE_NAME, 'alias', alias], { stdio: 'pipe' });
+    } catch {
+        // Nothing stored is fine
+    }
+    return true;
+}
+
+/**
+ * Verify an API key exists
+ */
+export async function verifyApiKey(alias: string): Promise<boolean> {
+    const key = await getApiKey(alias);
+    return key !== null && key.length > 0;
+}
+
+/**
+ * List aliases with a key in secret-tool storage
+ */
+export async function listAliases(): Promise<string[]> {
+    try {
+        const result = spawnSync('secret-tool', ['search', '--all', 'service', SERVICE_NAME], {
+            stdio: 'pipe',
+            encoding: 'utf-8'
+        });
+        // Attributes are printed as "attribute.alias = <name>" (on stdout or stderr, by version)
+        const output = `${result.stdout || ''}\n${result.stderr || ''}`;
+        return [...output.matchAll(/^attribute\.alias = (.+)$/gm)].map(m => m[1].trim());
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Get the command to retrieve API key (for generated scripts)
+ */
+export function getRetrievalCommand(alias: string): string {
+    return `secret-tool lookup service ${shellQuote(SERVICE_NAME)} alias ${shellQuote(alias)} 2>/dev/null`;
+}
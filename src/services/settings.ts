@@ -0,0 +1,45 @@
+import { mkdirSync, writeFileSync, existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import * as configStore from './config.js';
+import type { ClaudeAliasSettings } from '../types/index.js';
+
+/**
+ * Get the path of the global settings file
+ */
+export function getSettingsPath(): string {
+    return join(configStore.getConfigDir(), 'settings.json');
+}
+
+/**
+ * Load global settings (empty if the file does not exist)
+ */
+export function loadSettings(): ClaudeAliasSettings {
+    const path = getSettingsPath();
+    if (!existsSync(path)) return {};
+
+    try {
+        return JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Failed to read ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Save global settings
+ */
+export function saveSettings(settings: ClaudeAliasSettings): void {
+    const dir = configStore.getConfigDir();
+    if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+    writeFileSync(getSettingsPath(), JSON.stringify(settings, null, 2) + '\n', { mode: 0o600 });
+}
+
+/**
+ * Merge changes into the global settings and save them
+ */
+export function updateSettings(changes: Partial<ClaudeAliasSettings>): ClaudeAliasSettings {
+    const settings = { ...loadSettings(), ...changes };
+    saveSettings(settings);
+    return settings;
+}
@@ -1,17 +1,24 @@
-import { readFileSync, writeFileSync, existsSync, unlinkSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { homedir } from 'os';
-import { join } from 'path';
-import type { ShellType, ManagedAlias } from '../types/index.js';
+import { basename, dirname, join, resolve } from 'path';
+import * as profile from './profile.js';
+import * as settings from './settings.js';
+import { shellQuote, splitShellWords, quoteWordIfNeeded } from '../utils/quote.js';
+import type { ClaudeAliasConfig, ShellType, ManagedAlias, ShellProfileTarget, ShellProfileDrift } from '../types/index.js';
 
 const ALIAS_START_MARKER = '# >>> claude-alias managed aliases >>>';
 const ALIAS_END_MARKER = '# <<< claude-alias managed aliases <<<';
 
+// Fish loads every file in conf.d, so managed aliases get a file of their own
+const FISH_CONF_FILE = join('.config', 'fish', 'conf.d', 'claude-alias.fish');
+
 /**
  * Detect the current shell type
  */
 export function detectShell(): ShellType {
     const shell = process.env.SHELL || '';
     if (shell.includes('zsh')) return 'zsh';
+    if (shell.includes('fish')) return 'fish';
     return 'bash';
 }
 
@@ -23,26 +30,84 @@ export function getProfilePath(shell?: ShellType): string {
     const shellType = shell || detectShell();
 
     if (shellType === 'zsh') {
-        return join(home, '.zshrc');
+        // zsh reads its startup files from $ZDOTDIR when set
+        return join(process.env.ZDOTDIR || home, '.zshrc');
+    }
+    if (shellType === 'fish') {
+        return join(home, FISH_CONF_FILE);
     }
     return join(home, '.bashrc');
 }
 
+/**
+ * Expand a leading ~ in a profile path
+ */
+function expandHome(path: string): string {
+    if (path === '~') return homedir();
+    if (path.startsWith('~/')) return join(homedir(), path.substring(2));
+    return resolve(path);
+}
+
+/**
+ * Infer the shell type from a profile file name (null if unknown)
+ */
+export function inferShellFromPath(path: string): ShellType | null {
+    const name = basename(path);
+    if (name.endsWith('.fish')) return 'fish';
+    if (/^\.z(shrc|profile|shenv|login)$/.test(name)) return 'zsh';
+    if (/^\.(bashrc|bash_profile|bash_login|profile)$/.test(name)) return 'bash';
+    return null;
+}
+
+/**
+ * Get the shell profile files the managed block is kept in.
+ * Defaults to the detected shell's profile when none are configured.
+ */
+export function getTargetProfiles(): ShellProfileTarget[] {
+    const configured = settings.loadSettings().shellProfiles || [];
+    const targets: ShellProfileTarget[] = [];
+
+    for (const entry of configured) {
+        const path = expandHome(entry);
+        const shell = inferShellFromPath(path);
+        if (shell && !targets.some(t => t.path === path)) {
+            targets.push({ path, shell });
+        }
+    }
+
+    if (targets.length === 0) {
+        const shell = detectShell();
+        targets.push({ path: getProfilePath(shell), shell });
+    }
+
+    return targets;
+}
+
+/**
+ * Resolve which profiles an operation applies to: one shell's default profile
+ * if a shell is given, otherwise all configured target profiles
+ */
+function resolveTargets(shell?: ShellType): ShellProfileTarget[] {
+    return shell ? [{ path: getProfilePath(shell), shell }] : getTargetProfiles();
+}
+
 /**
  * Read the shell profile content
  */
-function readProfile(shell?: ShellType): string {
-    const path = getProfilePath(shell);
-    if (!existsSync(path)) return '';
-    return readFileSync(path, 'utf-8');
+function readProfile(target: ShellProfileTarget): string {
+    if (!existsSync(target.path)) return '';
+    return readFileSync(target.path, 'utf-8');
 }
 
 /**
  * Write content to shell profile
  */
-function writeProfile(content: string, shell?: ShellType): void {
-    const path = getProfilePath(shell);
-    writeFileSync(path, content, 'utf-8');
+function writeProfile(content: string, target: ShellProfileTarget): void {
+    const dir = dirname(target.path);
+    if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+    }
+    writeFileSync(target.path, content, 'utf-8');
 }
 
 /**
@@ -63,23 +128,120 @@ function extractManagedBlock(content: string): { before: string; managed: string
     return { before, managed, after };
 }
 
+/**
+ * Get the script path for an alias command (e.g., "claude-xxx --dangerously-skip-permissions")
+ */
+function getScriptPathFromCommand(command: string): string {
+    const scriptMatch = command.match(/^([\w-]+)/);
+    return scriptMatch ? join(homedir(), '.local', 'bin', scriptMatch[1]) : '';
+}
+
+/**
+ * Get the arguments an alias should pass to its script, derived from config
+ */
+export function getAliasArgs(config: Pick<ClaudeAliasConfig, 'skipPermissions' | 'defaultArgs'>): string[] {
+    return [
+        ...(config.skipPermissions ? ['--dangerously-skip-permissions'] : []),
+        ...(config.defaultArgs || [])
+    ];
+}
+
+/**
+ * Build an alias command from a script name and its arguments
+ */
+function buildAliasCommand(scriptName: string, args: string[], shellType: ShellType = 'bash'): string {
+    return [scriptName, ...args.map(arg => quoteWordIfNeeded(arg, shellType))].join(' ');
+}
+
+/**
+ * Escape a string for literal use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a managed alias entry from a parsed command
+ */
+function toManagedAlias(name: string, command: string): ManagedAlias {
+    const [, ...args] = splitShellWords(command);
+    return { name, command, scriptPath: getScriptPathFromCommand(command), args };
+}
+
+/**
+ * Format a single alias definition for the shell
+ */
+function formatAlias(alias: ManagedAlias, shellType: ShellType): string {
+    if (shellType === 'fish') {
+        // Commands are stored in POSIX form; re-quote the words for fish
+        const [scriptName, ...args] = splitShellWords(alias.command);
+        // Functions (rather than fish's alias wrapper) keep completions and $argv explicit
+        return [
+            `function ${alias.name} --wraps ${scriptName} --description 'claude-alias: ${alias.name}'`,
+            `    ${buildAliasCommand(scriptName, args, 'fish')} $argv`,
+            'end'
+        ].join('\n');
+    }
+    return `alias ${alias.name}=${shellQuote(alias.command)}`;
+}
+
+/**
+ * Parse fish function definitions of the form written by formatAlias
+ */
+function parseFishFunctions(content: string): { name: string; command: string }[] {
+    const functions: { name: string; command: string }[] = [];
+    const functionRegex = /^function\s+([\w-]+)[^\n]*\n\s*(.+?)\s+\$argv\s*\n\s*end\s*$/gm;
+    let match;
+
+    while ((match = functionRegex.exec(content)) !== null) {
+        const [scriptName, ...args] = splitShellWords(match[2], 'fish');
+        functions.push({ name: match[1], command: buildAliasCommand(scriptName, args) });
+    }
+
+    return functions;
+}
+
+/**
+ * Parse alias definitions (alias name='...', alias name="..." and fish's alias name '...')
+ */
+function parseAliasLines(content: string, shellType: ShellType): { name: string; command: string }[] {
+    const aliases: { name: string; command: string }[] = [];
+    const aliasRegex = shellType === 'fish'
+        ? /^alias\s+([\w-]+)(?:=|\s+)(['"].*)$/gm
+        : /^alias\s+([\w-]+)=(['"].*)$/gm;
+    let match;
+
+    while ((match = aliasRegex.exec(content)) !== null) {
+        const command = splitShellWords(match[2], shellType)[0];
+        if (command) {
+            aliases.push({ name: match[1], command });
+        }
+    }
+
+    return aliases;
+}
+
 /**
  * Parse managed aliases from the managed block
  */
-function parseManagedAliases(managed: string): ManagedAlias[] {
+function parseManagedAliases(managed: string, shellType: ShellType): ManagedAlias[] {
     const aliases: ManagedAlias[] = [];
+
+    if (shellType === 'fish') {
+        for (const { name, command } of parseFishFunctions(managed)) {
+            aliases.push(toManagedAlias(name, command));
+        }
+        return aliases;
+    }
+
     const lines = managed.split('\n').filter(line => line.trim());
 
     for (const line of lines) {
-        // Match: alias name='command'
-        const match = line.match(/^alias\s+(\w+)='(.+)'$/);
+        // Match: alias name='command' (the quoted word may contain '\'' escapes)
+        const match = line.match(/^alias\s+([\w-]+)=('.+')$/);
         if (match) {
-            const [, name, command] = match;
-            // Extract script path from command (e.g., "claude-xxx --dangerously-skip-permissions")
-            const scriptMatch = command.match(/^([\w-]+)/);
-            const scriptPath = scriptMatch ? join(homedir(), '.local', 'bin', scriptMatch[1]) : '';
-
-            aliases.push({ name, command, scriptPath });
+            const [, name, quoted] = match;
+            aliases.push(toManagedAlias(name, splitShellWords(quoted)[0] || ''));
         }
     }
 
@@ -87,58 +249,94 @@ function parseManagedAliases(managed: string): ManagedAlias[] {
 }
 
 /**
- * List all managed aliases from shell profile
+ * Rebuild profile content with the given managed aliases (block removed if empty)
  */
-export function listManagedAliases(shell?: ShellType): ManagedAlias[] {
-    const content = readProfile(shell);
-    const { managed } = extractManagedBlock(content);
-    return parseManagedAliases(managed);
+function buildProfileContent(before: string, after: string, aliases: ManagedAlias[], shellType: ShellType): string {
+    if (aliases.length === 0) {
+        return (before.trimEnd() + '\n' + after.trimStart()).trim() + '\n';
+    }
+
+    const newManaged = aliases
+        .map(a => formatAlias(a, shellType))
+        .join('\n');
+
+    return [
+        before.trimEnd(),
+        '',
+        ALIAS_START_MARKER,
+        newManaged,
+        ALIAS_END_MARKER,
+        after.trimStart()
+    ].join('\n');
 }
 
 /**
- * Add or update an alias in the shell profile
+ * List managed aliases from a single profile file
  */
-export function addAlias(name: string, scriptPath: string, shell?: ShellType): boolean {
-    try {
-        const content = readProfile(shell);
-        const { before, managed, after } = extractManagedBlock(content);
+function listManagedAliasesIn(target: ShellProfileTarget): ManagedAlias[] {
+    const { managed } = extractManagedBlock(readProfile(target));
+    return parseManagedAliases(managed, target.shell);
+}
 
-        // Parse existing aliases
-        const aliases = parseManagedAliases(managed);
+/**
+ * List all managed aliases from the shell profile(s).
+ * Across multiple profiles the first profile's definition of a name wins.
+ */
+export function listManagedAliases(shell?: ShellType): ManagedAlias[] {
+    const aliases: ManagedAlias[] = [];
+    for (const target of resolveTargets(shell)) {
+        for (const alias of listManagedAliasesIn(target)) {
+            if (!aliases.some(a => a.name === alias.name)) {
+                aliases.push(alias);
+            }
+        }
+    }
+    return aliases;
+}
+
+/**
+ * Add or update an alias in a single profile file
+ */
+function addAliasIn(target: ShellProfileTarget, name: string, scriptPath: string, args: string[]): void {
+    const nameCheck = profile.validateAliasName(name);
+    if (nameCheck !== true) throw new Error(nameCheck);
+    // Each alias must stay on a single line of the managed block
+    if (args.some(arg => /[\r\n\0]/.test(arg))) {
+        throw new Error('Alias arguments cannot contain newlines or NUL characters');
+    }
 
-        // Get just the script name from the path
-        const scriptName = scriptPath.split('/').pop() || scriptPath;
+    const content = readProfile(target);
+    const { before, managed, after } = extractManagedBlock(content);
 
-        // Create new alias command
-        const newCommand = `${scriptName} --dangerously-skip-permissions`;
+    // Parse existing aliases
+    const aliases = parseManagedAliases(managed, target.shell);
 
-        // Update or add the alias
-        const existingIdx = aliases.findIndex(a => a.name === name);
-        if (existingIdx !== -1) {
-            aliases[existingIdx] = { name, command: newCommand, scriptPath };
-        } else {
-            aliases.push({ name, command: newCommand, scriptPath });
-        }
+    // Get just the script name from the path
+    const scriptName = scriptPath.split('/').pop() || scriptPath;
 
-        // Build new managed block
-        const newManaged = aliases
-            .map(a => `alias ${a.name}='${a.command}'`)
-            .join('\n');
+    // Create new alias command
+    const newCommand = buildAliasCommand(scriptName, args);
 
-        // Reconstruct the profile
-        const trimmedBefore = before.trimEnd();
-        const trimmedAfter = after.trimStart();
+    // Update or add the alias
+    const existingIdx = aliases.findIndex(a => a.name === name);
+    if (existingIdx !== -1) {
+        aliases[existingIdx] = { name, command: newCommand, scriptPath, args };
+    } else {
+        aliases.push({ name, command: newCommand, scriptPath, args });
+    }
 
-        const newContent = [
-            trimmedBefore,
-            '',
-            ALIAS_START_MARKER,
-            newManaged,
-            ALIAS_END_MARKER,
-            trimmedAfter
-        ].join('\n');
+    writeProfile(buildProfileContent(before, after, aliases, target.shell), target);
+}
 
-        writeProfile(newContent, shell);
+/**
+ * Add or update an alias in the shell profile(s).
+ * `args` are passed to the script on every call (see getAliasArgs).
+ */
+export function addAlias(name: string, scriptPath: string, args: string[] = [], shell?: ShellType): boolean {
+    try {
+        for (const target of resolveTargets(shell)) {
+            addAliasIn(target, name, scriptPath, args);
+        }
         return true;
     } catch (error) {
         console.error('Failed to add alias:', error);
@@ -147,50 +345,45 @@ export function addAlias(name: string, scriptPath: string, shell?: ShellType): b
 }
 
 /**
- * Remove an alias from the shell profile (both managed and non-managed)
+ * Remove an alias from a single profile file (both managed and non-managed)
  */
-export function removeAlias(name: string, shell?: ShellType): boolean {
-    try {
-        let content = readProfile(shell);
-
-        // First, try to remove from managed block
-        const { before, managed, after } = extractManagedBlock(content);
-        const managedAliases = parseManagedAliases(managed);
-        const filteredManaged = managedAliases.filter(a => a.name !== name);
-
-        if (filteredManaged.length < managedAliases.length) {
-            // Alias was in managed block, rebuild it
-            if (filteredManaged.length === 0) {
-                content = (before.trimEnd() + '\n' + after.trimStart()).trim() + '\n';
-            } else {
-                const newManaged = filteredManaged
-                    .map(a => `alias ${a.name}='${a.command}'`)
-                    .join('\n');
-                content = [
-                    before.trimEnd(),
-                    '',
-                    ALIAS_START_MARKER,
-                    newManaged,
-                    ALIAS_END_MARKER,
-                    after.trimStart()
-                ].join('\n');
-            }
-            writeProfile(content, shell);
-            return true;
-        }
+function removeAliasIn(target: ShellProfileTarget, name: string): void {
+    const content = readProfile(target);
+
+    // First, try to remove from managed block
+    const { before, managed, after } = extractManagedBlock(content);
+    const managedAliases = parseManagedAliases(managed, target.shell);
+    const filteredManaged = managedAliases.filter(a => a.name !== name);
+
+    if (filteredManaged.length < managedAliases.length) {
+        // Alias was in managed block, rebuild it
+        writeProfile(buildProfileContent(before, after, filteredManaged, target.shell), target);
+        return;
+    }
 
-        // If not in managed block, search for the alias anywhere in the file
-        // Match patterns like: alias name='...' or alias name="..."
-        const aliasRegex = new RegExp(`^\\s*alias\\s+${name}\\s*=\\s*['"][^'"]*['"]\\s*$`, 'gm');
+    // If not in managed block, search for the alias anywhere in the file
+    // Match patterns like: alias name='...' or alias name="..." (fish: alias name '...')
+    const aliasRegex = target.shell === 'fish'
+        ? new RegExp(`^\\s*alias\\s+${escapeRegExp(name)}(?:\\s*=\\s*|\\s+)['"][^'"]*['"]\\s*$`, 'gm')
+        : new RegExp(`^\\s*alias\\s+${escapeRegExp(name)}\\s*=\\s*['"][^'"]*['"]\\s*$`, 'gm');
 
-        if (aliasRegex.test(content)) {
-            // Remove the alias line(s)
-            const newContent = content.replace(aliasRegex, '').replace(/\n{3,}/g, '\n\n');
-            writeProfile(newContent, shell);
-            return true;
-        }
+    if (aliasRegex.test(content)) {
+        // Remove the alias line(s)
+        const newContent = content.replace(aliasRegex, '').replace(/\n{3,}/g, '\n\n');
+        writeProfile(newContent, target);
+    }
 
-        // Alias not found anywhere, but that's okay
+    // Alias not found anywhere, but that's okay
+}
+
+/**
+ * Remove an alias from the shell profile(s) (both managed and non-managed)
+ */
+export function removeAlias(name: string, shell?: ShellType): boolean {
+    try {
+        for (const target of resolveTargets(shell)) {
+            removeAliasIn(target, name);
+        }
         return true;
     } catch (error) {
         console.error('Failed to remove alias:', error);
@@ -202,49 +395,139 @@ export function removeAlias(name: string, shell?: ShellType): boolean {
  * Check if an alias name already exists (either managed or other)
  */
 export function aliasExists(name: string, shell?: ShellType): boolean {
-    const content = readProfile(shell);
+    return resolveTargets(shell).some(target => {
+        const content = readProfile(target);
 
-    // Check in managed block
-    const managed = listManagedAliases(shell);
-    if (managed.some(a => a.name === name)) return true;
+        // Check in managed block
+        if (listManagedAliasesIn(target).some(a => a.name === name)) return true;
 
-    // Check for any alias definition outside managed block
-    const aliasRegex = new RegExp(`^alias\\s+${name}=`, 'm');
-    return aliasRegex.test(content);
+        // Check for any alias (or fish function) definition outside managed block
+        if (target.shell === 'fish') {
+            return new RegExp(`^(alias|function)\\s+${escapeRegExp(name)}[\\s=]`, 'm').test(content);
+        }
+        const aliasRegex = new RegExp(`^alias\\s+${escapeRegExp(name)}=`, 'm');
+        return aliasRegex.test(content);
+    });
 }
 
 /**
- * List ALL Claude-related aliases from shell profile (including non-managed ones)
+ * List ALL Claude-related aliases from shell profile(s) (including non-managed ones)
  * These are aliases that point to claude* commands
  */
 export function listAllClaudeAliases(shell?: ShellType): ManagedAlias[] {
-    const content = readProfile(shell);
     const aliases: ManagedAlias[] = [];
 
-    // Match all alias definitions: alias name='...' or alias name="..."
-    const aliasRegex = /^alias\s+(\w+)=['"]([^'"]+)['"]/gm;
-    let match;
-
-    while ((match = aliasRegex.exec(content)) !== null) {
-        const [, name, command] = match;
-
-        // Check if this alias points to a claude-related command
-        // Match: claude, claude-*, claude --flags, claude-xxx --flags
-        if (/^claude(\s|$|-\w)/.test(command)) {
-            // Extract the script/command name (first word)
-            const cmdMatch = command.match(/^([\w-]+)/);
-            const cmdName = cmdMatch ? cmdMatch[1] : command;
-            const scriptPath = cmdName.startsWith('claude')
-                ? join(homedir(), '.local', 'bin', cmdName)
-                : '';
-
-            aliases.push({ name, command, scriptPath });
+    for (const target of resolveTargets(shell)) {
+        const content = readProfile(target);
+
+        // Match all alias definitions: alias name='...' or alias name="..." (plus fish functions)
+        const definitions = [
+            ...parseAliasLines(content, target.shell),
+            ...(target.shell === 'fish' ? parseFishFunctions(content) : [])
+        ];
+
+        for (const { name, command } of definitions) {
+            if (aliases.some(a => a.name === name)) continue;
+
+            // Check if this alias points to a claude-related command
+            // Match: claude, claude-*, claude --flags, claude-xxx --flags
+            if (/^claude(\s|$|-\w)/.test(command)) {
+                // Extract the script/command name (first word)
+                const cmdMatch = command.match(/^([\w-]+)/);
+                const cmdName = cmdMatch ? cmdMatch[1] : command;
+                const scriptPath = cmdName.startsWith('claude')
+                    ? join(homedir(), '.local', 'bin', cmdName)
+                    : '';
+
+                aliases.push({ name, command, scriptPath });
+            }
         }
     }
 
     return aliases;
 }
 
+/**
+ * Compare the managed block across target profiles.
+ * Returns one entry per profile that is out of sync (empty if all agree).
+ */
+export function detectDrift(): ShellProfileDrift[] {
+    const targets = getTargetProfiles();
+    if (targets.length < 2) return [];
+
+    const canonical = listManagedAliases();
+    const drift: ShellProfileDrift[] = [];
+
+    for (const target of targets) {
+        const own = listManagedAliasesIn(target);
+        const missing = canonical.filter(c => !own.some(o => o.name === c.name)).map(c => c.name);
+        const different = canonical
+            .filter(c => own.some(o => o.name === c.name && o.command !== c.command))
+            .map(c => c.name);
+
+        if (missing.length > 0 || different.length > 0) {
+            drift.push({ path: target.path, missing, different });
+        }
+    }
+
+    return drift;
+}
+
+/**
+ * Write the combined managed aliases into every target profile
+ */
+export function syncProfiles(): boolean {
+    try {
+        const canonical = listManagedAliases();
+        for (const target of getTargetProfiles()) {
+            const { before, after } = extractManagedBlock(readProfile(target));
+            writeProfile(buildProfileContent(before, after, canonical, target.shell), target);
+        }
+        return true;
+    } catch (error) {
+        console.error('Failed to sync shell profiles:', error);
+        return false;
+    }
+}
+
+/**
+ * Check whether any target shell profile adds ~/.local/bin to PATH
+ */
+export function profileAddsLocalBinToPath(shell?: ShellType): boolean {
+    return resolveTargets(shell).some(target =>
+        /^[^#\n]*PATH[=\s].*\.local\/bin/m.test(readProfile(target))
+    );
+}
+
+/**
+ * Append a PATH entry for ~/.local/bin to the (first) target shell profile
+ */
+export function addLocalBinToPath(shell?: ShellType): boolean {
+    try {
+        if (profileAddsLocalBinToPath(shell)) return true;
+
+        const target = resolveTargets(shell)[0];
+        const pathLine = target.shell === 'fish'
+            ? 'contains $HOME/.local/bin $PATH; or set -gx PATH $HOME/.local/bin $PATH'
+            : 'export PATH="$HOME/.local/bin:$PATH"';
+
+        const content = readProfile(target);
+        const newContent = [
+            content.trimEnd(),
+            '',
+            '# Added by claude-alias: profile scripts live in ~/.local/bin',
+            pathLine,
+            ''
+        ].join('\n');
+
+        writeProfile(newContent, target);
+        return true;
+    } catch (error) {
+        console.error('Failed to update PATH in shell profile:', error);
+        return false;
+    }
+}
+
 /**
  * Get the script name from a command string
  */
@@ -252,4 +535,3 @@ export function getScriptNameFromCommand(command: string): string {
     const match = command.match(/^([\w-]+)/);
     return match ? match[1] : '';
 }
-
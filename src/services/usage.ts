@@ -0,0 +1,173 @@
+import { appendFileSync, closeSync, existsSync, fstatSync, mkdirSync, openSync, readFileSync, readSync } from 'fs';
+import { join } from 'path';
+import * as pricing from './pricing.js';
+import * as profile from './profile.js';
+import type { UsageGrouping, UsageRecord, UsageSummaryRow } from '../types/index.js';
+
+const USAGE_FILE = 'usage.jsonl';
+const DURATION_UNITS: Record<string, number> = { m: 60e3, h: 3600e3, d: 86400e3, w: 7 * 86400e3 };
+
+export const USAGE_GROUPINGS: UsageGrouping[] = ['model', 'alias', 'provider', 'day'];
+
+/**
+ * Get the path of an alias's usage log
+ */
+export function getUsagePath(alias: string): string {
+    return join(profile.getProfileHomeDir(alias), USAGE_FILE);
+}
+
+/**
+ * Append a record to an alias's usage log
+ */
+export function appendUsage(alias: string, record: UsageRecord): void {
+    mkdirSync(profile.getProfileHomeDir(alias), { recursive: true });
+    appendFileSync(getUsagePath(alias), JSON.stringify(record) + '\n', { mode: 0o600 });
+}
+
+/**
+ * Parse usage log lines, skipping those that are not valid records (e.g. cut off by a crash)
+ */
+function parseRecords(text: string, since?: Date): UsageRecord[] {
+    const records: UsageRecord[] = [];
+    for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            const record = JSON.parse(line) as UsageRecord;
+            if (typeof record.timestamp !== 'string' || typeof record.model !== 'string') continue;
+            if (since && new Date(record.timestamp) < since) continue;
+            records.push(record);
+        } catch {
+            // Partial line
+        }
+    }
+    return records;
+}
+
+/**
+ * Read an alias's usage records, optionally only those at or after a time
+ */
+export function readUsage(alias: string, since?: Date): UsageRecord[] {
+    const path = getUsagePath(alias);
+    if (!existsSync(path)) return [];
+    return parseRecords(readFileSync(path, 'utf-8'), since);
+}
+
+/**
+ * Read the records appended to an alias's usage log since a byte offset, up to the last whole line.
+ * Returns them with the offset to read from next time.
+ */
+export function readUsageFrom(alias: string, offset: number): { records: UsageRecord[]; offset: number } {
+    const path = getUsagePath(alias);
+    if (!existsSync(path)) return { records: [], offset };
+
+    const fd = openSync(path, 'r');
+    try {
+        const size = fstatSync(fd).size;
+        if (size <= offset) return { records: [], offset: size };
+
+        const buffer = Buffer.alloc(size - offset);
+        const length = readSync(fd, buffer, 0, buffer.length, offset);
+        const end = buffer.lastIndexOf(0x0a, length - 1) + 1;
+        return { records: parseRecords(buffer.toString('utf-8', 0, end)), offset: offset + end };
+    } finally {
+        closeSync(fd);
+    }
+}
+
+/**
+ * Parse a --since value: a duration back from now (30m, 12h, 7d, 2w) or a date (2026-01-31).
+ * Returns null if invalid.
+ */
+export function parseSince(value: string, now: Date = new Date()): Date | null {
+    const match = value.trim().toLowerCase().match(/^(\d+)([mhdw])$/);
+    if (match) {
+        return new Date(now.getTime() - parseInt(match[1], 10) * DURATION_UNITS[match[2]]);
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Get the key a record is grouped under
+ */
+function groupKey(alias: string, record: UsageRecord, by: UsageGrouping): string {
+    switch (by) {
+        case 'model': return record.model;
+        case 'alias': return alias;
+        case 'provider': return record.provider ?? '(unreachable)';
+        // Local calendar day
+        case 'day': return new Date(record.timestamp).toLocaleDateString('en-CA');
+    }
+}
+
+/**
+ * Create an empty summary row
+ */
+function emptyRow(key: string): UsageSummaryRow {
+    return {
+        key,
+        requests: 0,
+        errors: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadInputTokens: 0,
+        cacheCreationInputTokens: 0,
+        cost: 0,
+        unpricedRequests: 0
+    };
+}
+
+/**
+ * Add a record's token counts to a row
+ */
+function addTokens(row: Omit<UsageSummaryRow, 'key'>, record: UsageRecord): void {
+    row.inputTokens += record.inputTokens || 0;
+    row.outputTokens += record.outputTokens || 0;
+    row.cacheReadInputTokens += record.cacheReadInputTokens || 0;
+    row.cacheCreationInputTokens += record.cacheCreationInputTokens || 0;
+}
+
+/**
+ * Total up usage records per group and estimate their cost from registry prices.
+ * Rows are sorted by cost (by date when grouped by day).
+ */
+export async function summarizeUsage(
+    entries: { alias: string; record: UsageRecord }[],
+    by: UsageGrouping
+): Promise<UsageSummaryRow[]> {
+    const rows = new Map<string, UsageSummaryRow>();
+    // Successful requests per group, provider and model: each is priced once from its totals
+    const priced = new Map<string, { row: UsageSummaryRow; model: string; provider?: string; totals: UsageSummaryRow }>();
+
+    for (const { alias, record } of entries) {
+        const key = groupKey(alias, record, by);
+        const row = rows.get(key) ?? emptyRow(key);
+        rows.set(key, row);
+        row.requests++;
+        addTokens(row, record);
+
+        if (record.status >= 400) {
+            row.errors++;
+            continue;
+        }
+        const pairKey = `${key}\0${record.provider ?? ''}\0${record.model}`;
+        const pair = priced.get(pairKey) ?? { row, model: record.model, provider: record.provider, totals: emptyRow(pairKey) };
+        priced.set(pairKey, pair);
+        pair.totals.requests++;
+        addTokens(pair.totals, record);
+    }
+
+    for (const { row, model, provider, totals } of priced.values()) {
+        const cost = await pricing.priceUsage({ ...totals, model, provider });
+        if (cost === undefined) {
+            row.unpricedRequests += totals.requests;
+        } else {
+            row.cost += cost;
+        }
+    }
+
+    const result = [...rows.values()];
+    return by === 'day'
+        ? result.sort((a, b) => a.key.localeCompare(b.key))
+        : result.sort((a, b) => b.cost - a.cost || b.requests - a.requests);
+}
@@ -14,12 +14,51 @@ export interface ClaudeAliasConfig {
     smallFastModel?: string; // Legacy: ANTHROPIC_SMALL_FAST_MODEL (deprecated)
     maxOutputTokens?: number;
     useAuthToken?: boolean; // Use ANTHROPIC_AUTH_TOKEN instead of ANTHROPIC_API_KEY
+    apiFormat?: ApiFormat;  // API the provider speaks (default: anthropic)
     skipPermissions?: boolean; // Add --dangerously-skip-permissions flag
+    defaultArgs?: string[];    // Extra claude CLI arguments added by the shell alias
     customEnv?: Record<string, string>;
+    secretBackend?: SecretBackendName;  // Where the API key is stored (default: system keychain)
+    failover?: FailoverUpstream[];      // Providers to try, in order, when this alias's own is unavailable
+    trackUsage?: boolean;               // Record token usage to ~/.claude-<alias>/usage.jsonl (via the local proxy)
+    budgets?: BudgetCap[];              // Spend or token caps, counted from the usage log
     createdAt: string;
     updatedAt: string;
 }
 
+// A fallback provider for an alias, served through the local proxy
+export interface FailoverUpstream {
+    provider: string;
+    baseUrl: string;
+    keyAlias: string;       // Alias whose stored API key is sent to this provider
+    useAuthToken?: boolean;
+    apiFormat?: ApiFormat;
+    // Tier mapping: models requested for the alias's tiers are swapped for these
+    opusModel?: string;
+    sonnetModel?: string;
+    haikuModel?: string;
+    subagentModel?: string;
+}
+
+// 'openai': the provider only speaks OpenAI Chat Completions; aliases run through the local translation proxy
+export type ApiFormat = 'anthropic' | 'openai';
+
+export interface ProviderPreset {
+    value: string;              // Stored as the alias's provider
+    name: string;
+    baseUrl: string;
+    authHeader?: 'auth-token' | 'api-key';  // Default token type: ANTHROPIC_AUTH_TOKEN or ANTHROPIC_API_KEY
+    apiFormat?: ApiFormat;      // Default: anthropic
+    litellmProvider?: string;   // Provider name in the LiteLLM registry
+    models?: Partial<Record<ModelTier, string>>;  // Default tier models
+    maxOutputTokens?: number;   // Default CLAUDE_CODE_MAX_OUTPUT_TOKENS
+    docsUrl?: string;
+    requiredEnv?: Record<string, string>;  // Custom env the provider needs: name → default ('' = must be entered)
+}
+
+// providers.json: presets keyed by value (user entries may override single fields of built-ins)
+export type ProviderPresetFile = Record<string, Partial<Omit<ProviderPreset, 'value'>>>;
+
 export interface LiteLLMModel {
     name: string;
     litellm_provider: string;
@@ -31,12 +70,32 @@ export interface LiteLLMModel {
     supports_vision?: boolean;
     input_cost_per_token?: number;
     output_cost_per_token?: number;
+    cache_read_input_token_cost?: number;
+    cache_creation_input_token_cost?: number;
 }
 
 export interface LiteLLMRegistry {
     [modelName: string]: Omit<LiteLLMModel, 'name'>;
 }
 
+export type RegistrySource = 'network' | 'cache' | 'file' | 'none';
+
+export interface RegistryStatus {
+    source: RegistrySource;     // Where the loaded registry came from
+    modelCount: number;
+    path?: string;              // Cache file or --registry-file override
+    fetchedAt?: string;         // When the data was downloaded (network/cache)
+    stale: boolean;             // Cache past its TTL, served because revalidation failed
+    error?: string;             // Why loading or revalidation failed
+}
+
+export interface RegistryCacheMeta {
+    url: string;
+    etag?: string;
+    lastModified?: string;
+    fetchedAt: string;          // Last successful download or revalidation
+}
+
 export interface KeychainEntry {
     service: string;
     account: string;
@@ -49,10 +108,199 @@ export interface ProfileScript {
     content: string;
 }
 
-export type ShellType = 'zsh' | 'bash';
+export type ShellType = 'zsh' | 'bash' | 'fish';
 
 export interface ManagedAlias {
     name: string;
     command: string;
     scriptPath: string;
+    args?: string[];        // Arguments after the script name (managed aliases only)
+}
+
+export interface AliasConfigStore {
+    version: number;                            // Schema version of aliases.json
+    aliases: Record<string, ClaudeAliasConfig>; // Keyed by alias name
 }
+
+export type DoctorSeverity = 'error' | 'warning' | 'info';
+
+export interface DoctorFix {
+    description: string;
+    apply: () => Promise<boolean>;
+}
+
+export interface DoctorFinding {
+    check: string;          // Short check identifier, e.g. 'orphaned-script'
+    severity: DoctorSeverity;
+    message: string;
+    fix?: DoctorFix;        // Optional automatic fix (applied with --fix)
+}
+
+export type ProbeFailureKind =
+    | 'auth'        // Key rejected (401/403)
+    | 'model'       // Model not recognized by the provider
+    | 'path'        // Endpoint not found - base URL path is likely wrong
+    | 'rate_limit'  // 429
+    | 'server'      // 5xx
+    | 'network'     // Connection refused, DNS failure, TLS error
+    | 'timeout'
+    | 'other';
+
+export interface ProbeResult {
+    model: string;
+    tiers: string[];        // Tiers using this model, e.g. ['opus', 'sonnet']
+    ok: boolean;
+    status?: number;        // HTTP status, if a response was received
+    latencyMs: number;
+    failure?: ProbeFailureKind;
+    message?: string;       // Provider error message or explanation
+}
+
+export interface ProviderModel {
+    id: string;                 // Model ID as the provider expects it
+    displayName?: string;       // Anthropic-style display_name
+    ownedBy?: string;           // OpenAI-style owned_by
+    info?: LiteLLMModel;        // Matching LiteLLM registry entry, if any
+}
+
+export type ModelTier = 'opus' | 'sonnet' | 'haiku' | 'subagent';
+
+export interface TierCostEstimate {
+    tier: ModelTier;
+    model: string;
+    share: number;              // Fraction of tokens sent to this tier (0-1)
+    inputCostPerMillion?: number;
+    outputCostPerMillion?: number;
+    cost?: number;              // USD; undefined if the model has no pricing
+}
+
+export interface CostEstimate {
+    alias: string;
+    inputTokens: number;
+    outputTokens: number;
+    tiers: TierCostEstimate[];
+    total: number;              // USD, priced tiers only
+    unpricedShare: number;      // Fraction of tokens whose model has no pricing
+    unconfiguredTiers: ModelTier[];  // Tiers in the mix with no model set (left out)
+}
+
+// One line of ~/.claude-<alias>/usage.jsonl, written by the local proxy per Messages request
+export interface UsageRecord {
+    timestamp: string;
+    model: string;              // Model sent to the provider (after failover tier mapping)
+    provider?: string;          // Provider that answered (unset if none could be reached)
+    status: number;
+    latencyMs: number;          // Until the response (or stream) finished
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadInputTokens: number;
+    cacheCreationInputTokens: number;
+}
+
+export type UsageGrouping = 'model' | 'alias' | 'provider' | 'day';
+
+export interface UsageSummaryRow {
+    key: string;
+    requests: number;
+    errors: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadInputTokens: number;
+    cacheCreationInputTokens: number;
+    cost: number;               // USD, priced requests only
+    unpricedRequests: number;   // Successful requests whose model has no registry pricing
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetUnit = 'usd' | 'tokens';
+
+// Days and months are calendar periods in local time
+export interface BudgetCap {
+    period: BudgetPeriod;
+    limit: number;
+    unit: BudgetUnit;
+    hard: boolean;              // Hard caps stop launches and requests; soft caps only warn
+}
+
+export interface BudgetCapStatus {
+    cap: BudgetCap;
+    used: number;               // In the cap's unit, this period so far
+    exceeded: boolean;
+}
+
+export interface ClaudeAliasSettings {
+    shellProfiles?: string[];   // Shell profile files to keep the managed block in (~ allowed)
+    registryTtlHours?: number;  // How long the cached LiteLLM registry is used before revalidating
+    secretsUnlockMinutes?: number;  // How long an unlocked secrets file key stays cached (0 = never)
+    secretBackend?: SecretBackendName;  // Default API key storage for new aliases
+    onePasswordVault?: string;  // 1Password vault for the 1password backend (default: Private)
+}
+
+export interface ShellProfileTarget {
+    path: string;
+    shell: ShellType;
+}
+
+export interface ShellProfileDrift {
+    path: string;
+    missing: string[];      // Managed aliases present in other profiles but not this one
+    different: string[];    // Managed aliases whose command differs from the first profile's
+}
+
+// API key storage backends ('system' = macOS Keychain, or secret-tool with encrypted-file fallback on Linux)
+export type SecretBackendName = 'system' | 'keychain' | 'secret-tool' | 'file' | 'pass' | '1password' | 'bitwarden' | 'env';
+
+export interface SecretBackend {
+    readOnly?: boolean;     // Keys cannot be written (they come from elsewhere)
+    isAvailable(): Promise<boolean>;
+    getApiKey(alias: string): Promise<string | null>;
+    setApiKey(alias: string, apiKey: string): Promise<boolean>;
+    deleteApiKey(alias: string): Promise<boolean>;
+    verifyApiKey(alias: string): Promise<boolean>;
+    getRetrievalCommand(alias: string): string;  // Shell snippet printing the key (for generated scripts)
+    listAliases?(): Promise<string[]>;  // Aliases with a stored key (backends that can enumerate them)
+}
+
+// Where API keys are stored, from scanning the backends in use
+export interface SecretKeyScan {
+    locations: Record<string, SecretBackendName[]>;  // Alias → backends holding a key for it
+    failures: { backend: SecretBackendName; error: string }[];  // Backends that could not be read
+}
+
+export interface ScryptParams {
+    N: number;  // CPU/memory cost (power of two)
+    r: number;  // Block size
+    p: number;  // Parallelization
+}
+
+// Linux encrypted secrets file: machine-derived key, or a master passphrase
+export type SecretsFileMode = 'machine' | 'passphrase';
+
+export interface SecretsFileInfo {
+    path: string;
+    version: number;        // File format version (1 = legacy file without header)
+    mode: SecretsFileMode;
+    params?: ScryptParams;  // Passphrase mode key derivation cost
+    cached: boolean;        // Unlocked key is cached in the kernel keyring
+}
+
+// Passphrase-encrypted API keys in an exported bundle (all binary fields base64)
+export interface SecretsEnvelope {
+    kdf: 'scrypt';
+    kdfParams: ScryptParams;
+    cipher: 'aes-256-gcm';
+    salt: string;
+    iv: string;
+    authTag: string;
+    data: string;
+}
+
+export interface AliasBundle {
+    format: 'claude-alias-bundle';
+    version: number;
+    exportedAt: string;
+    aliases: ClaudeAliasConfig[];
+    secrets?: SecretsEnvelope;  // Present only with export --include-secrets
+}
+
+export type ImportConflictAction = 'skip' | 'overwrite' | 'rename';
@@ -0,0 +1,99 @@
+/**
+ * Minimal line-based unified diff (no external dependency)
+ */
+
+type DiffOp = { type: 'equal' | 'add' | 'remove'; line: string };
+
+/**
+ * Compute line operations using a longest-common-subsequence table.
+ * Scripts are small (a few hundred lines at most), so O(n*m) is fine.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+    const n = oldLines.length;
+    const m = newLines.length;
+    const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = oldLines[i] === newLines[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const ops: DiffOp[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (oldLines[i] === newLines[j]) {
+            ops.push({ type: 'equal', line: oldLines[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            ops.push({ type: 'remove', line: oldLines[i++] });
+        } else {
+            ops.push({ type: 'add', line: newLines[j++] });
+        }
+    }
+    while (i < n) ops.push({ type: 'remove', line: oldLines[i++] });
+    while (j < m) ops.push({ type: 'add', line: newLines[j++] });
+
+    return ops;
+}
+
+/**
+ * Create a unified diff between two texts.
+ * Returns an empty string when the texts are identical.
+ */
+export function unifiedDiff(
+    oldText: string,
+    newText: string,
+    oldLabel: string = 'a',
+    newLabel: string = 'b',
+    context: number = 3
+): string {
+    if (oldText === newText) return '';
+
+    const oldLines = oldText === '' ? [] : oldText.split('\n');
+    const newLines = newText === '' ? [] : newText.split('\n');
+    const ops = diffLines(oldLines, newLines);
+
+    // Group changes into hunks with surrounding context
+    const output: string[] = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+    let idx = 0;
+
+    while (idx < ops.length) {
+        // Find the next change
+        while (idx < ops.length && ops[idx].type === 'equal') idx++;
+        if (idx >= ops.length) break;
+
+        // Extend the hunk while the next change is within twice the context of the last one
+        const start = Math.max(0, idx - context);
+        let lastChange = idx;
+        for (let k = idx + 1; k < ops.length && k - lastChange <= context * 2 + 1; k++) {
+            if (ops[k].type !== 'equal') lastChange = k;
+        }
+        const end = Math.min(ops.length, lastChange + 1 + context);
+
+        // Compute 1-based line numbers for the hunk header
+        let oldStart = 1;
+        let newStart = 1;
+        for (let k = 0; k < start; k++) {
+            if (ops[k].type !== 'add') oldStart++;
+            if (ops[k].type !== 'remove') newStart++;
+        }
+        const hunk = ops.slice(start, end);
+        const oldCount = hunk.filter(op => op.type !== 'add').length;
+        const newCount = hunk.filter(op => op.type !== 'remove').length;
+
+        output.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+        for (const op of hunk) {
+            const prefix = op.type === 'add' ? '+' : op.type === 'remove' ? '-' : ' ';
+            output.push(`${prefix}${op.line}`);
+        }
+
+        idx = end;
+    }
+
+    return output.join('\n');
+}
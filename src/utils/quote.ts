@@ -0,0 +1,127 @@
+/**
+ * Shell quoting helpers for generated scripts and shell profiles.
+ * POSIX shells (bash, zsh) are the default; fish differs in that a
+ * backslash inside single quotes escapes `\` and `'`.
+ */
+import type { ShellType } from '../types/index.js';
+
+/**
+ * Quote a value as a single shell word.
+ * Single quotes disable all expansion, so `$`, backticks and `"` are inert;
+ * embedded single quotes are written as '\'' (fish: \' and \\ inside the quotes).
+ */
+export function shellQuote(value: string, shell: ShellType = 'bash'): string {
+    if (shell === 'fish') {
+        return `'${value.replace(/[\\']/g, '\\$&')}'`;
+    }
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Reverse shell quoting for a single word (single-quoted, double-quoted,
+ * backslash-escaped or bare segments, possibly concatenated).
+ * Used to read values back from generated scripts; performs no expansion.
+ */
+export function shellUnquote(word: string, shell: ShellType = 'bash'): string {
+    const fish = shell === 'fish';
+    // Characters a backslash escapes inside double quotes
+    const doubleQuoteEscapes = fish ? '$"\\' : '$`"\\';
+    let result = '';
+    let i = 0;
+
+    while (i < word.length) {
+        const ch = word[i];
+
+        if (ch === `'`) {
+            i++;
+            while (i < word.length && word[i] !== `'`) {
+                // fish allows \' and \\ inside single quotes
+                if (fish && word[i] === '\\' && i + 1 < word.length && `'\\`.includes(word[i + 1])) {
+                    i++;
+                }
+                result += word[i];
+                i++;
+            }
+            i++;
+        } else if (ch === '"') {
+            i++;
+            while (i < word.length && word[i] !== '"') {
+                if (word[i] === '\\' && i + 1 < word.length && doubleQuoteEscapes.includes(word[i + 1])) {
+                    i++;
+                }
+                result += word[i];
+                i++;
+            }
+            i++;
+        } else if (ch === '\\' && i + 1 < word.length) {
+            result += word[i + 1];
+            i += 2;
+        } else {
+            result += ch;
+            i++;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Split a command line into words, honoring quotes and backslashes
+ * (no expansion). Inverse of joining words quoted with quoteWordIfNeeded.
+ */
+export function splitShellWords(line: string, shell: ShellType = 'bash'): string[] {
+    const words: string[] = [];
+    let current = '';
+    let inWord = false;
+    let i = 0;
+
+    while (i < line.length) {
+        const ch = line[i];
+
+        if (/\s/.test(ch)) {
+            if (inWord) {
+                words.push(shellUnquote(current, shell));
+                current = '';
+                inWord = false;
+            }
+            i++;
+            continue;
+        }
+
+        inWord = true;
+        if (ch === `'`) {
+            let j = i + 1;
+            while (j < line.length && line[j] !== `'`) {
+                j += shell === 'fish' && line[j] === '\\' ? 2 : 1;
+            }
+            current += line.substring(i, j + 1);
+            i = j + 1;
+        } else if (ch === '"') {
+            let j = i + 1;
+            while (j < line.length && line[j] !== '"') {
+                j += line[j] === '\\' ? 2 : 1;
+            }
+            current += line.substring(i, j + 1);
+            i = j + 1;
+        } else if (ch === '\\' && i + 1 < line.length) {
+            current += line.substring(i, i + 2);
+            i += 2;
+        } else {
+            current += ch;
+            i++;
+        }
+    }
+
+    if (inWord) {
+        words.push(shellUnquote(current, shell));
+    }
+
+    return words;
+}
+
+/**
+ * Quote a word only if it contains characters the shell would interpret
+ */
+export function quoteWordIfNeeded(word: string, shell: ShellType = 'bash'): string {
+    return /^[\w@%+=:,./-]+$/.test(word) ? word : shellQuote(word, shell);
+}
@@ -0,0 +1,123 @@
+import { test, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ClaudeAliasConfig } from '../../src/types/index.js';
+
+// A stand-in claude that records its arguments and environment
+const home = mkdtempSync(join(tmpdir(), 'claude-alias-run-'));
+const fakeBin = join(home, 'bin');
+const ARGS_FILE = join(home, 'claude-args');
+const ENV_FILE = join(home, 'claude-env');
+mkdirSync(fakeBin);
+writeFileSync(join(fakeBin, 'claude'), `#!/bin/sh\nprintf '%s\\n' "$@" > '${ARGS_FILE}'\nenv > '${ENV_FILE}'\n`, { mode: 0o755 });
+
+const originalPath = process.env.PATH;
+process.env.PATH = `${fakeBin}:${originalPath}`;
+process.env.HOME = home;
+process.env.CLAUDE_ALIAS_API_KEY = 'sk-from-env';
+const { runRunCommand } = await import('../../src/commands/run.js');
+const configStore = await import('../../src/services/config.js');
+const profile = await import('../../src/services/profile.js');
+
+after(() => {
+    process.env.PATH = originalPath;
+    delete process.env.CLAUDE_ALIAS_API_KEY;
+    rmSync(home, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+    process.exitCode = undefined;
+    rmSync(ARGS_FILE, { force: true });
+    rmSync(ENV_FILE, { force: true });
+});
+
+const STORED: ClaudeAliasConfig = {
+    alias: 'work',
+    provider: 'custom',
+    baseUrl: 'https://api.example.com',
+    sonnetModel: 'stored-sonnet',
+    haikuModel: 'stored-haiku',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+};
+configStore.saveAliasConfig(STORED);
+
+/**
+ * The environment claude was started with
+ */
+function launchEnv(): Record<string, string> {
+    return Object.fromEntries(readFileSync(ENV_FILE, 'utf-8').trim().split('\n').map(line => {
+        const eqIdx = line.indexOf('=');
+        return [line.substring(0, eqIdx), line.substring(eqIdx + 1)];
+    }));
+}
+
+test('overrides change this session only', async t => {
+    t.mock.method(console, 'error', () => {});
+    await runRunCommand([
+        'work',
+        '--override', 'sonnetModel=other-sonnet',
+        '--override', 'haikuModel=',
+        '--override', 'maxOutputTokens=16000',
+        '--override', 'useAuthToken=true',
+        '--override', 'skipPermissions=true',
+        '--', '--verbose'
+    ]);
+    assert.equal(process.exitCode, 0);
+
+    const env = launchEnv();
+    assert.equal(env.ANTHROPIC_BASE_URL, 'https://api.example.com');
+    assert.equal(env.ANTHROPIC_AUTH_TOKEN, 'sk-from-env');
+    assert.equal(env.ANTHROPIC_DEFAULT_SONNET_MODEL, 'other-sonnet');
+    assert.equal(env.ANTHROPIC_DEFAULT_HAIKU_MODEL, undefined);
+    assert.equal(env.CLAUDE_CODE_MAX_OUTPUT_TOKENS, '16000');
+    assert.equal(env.CLAUDE_HOME, profile.getProfileHomeDir('work'));
+    assert.equal(readFileSync(ARGS_FILE, 'utf-8'), '--dangerously-skip-permissions\n--verbose\n');
+
+    assert.deepEqual(configStore.getAliasConfig('work'), STORED);
+    assert.equal(profile.profileExists('work'), false);
+});
+
+test('only whitelisted settings can be overridden, with valid values', async t => {
+    const errors = t.mock.method(console, 'error', () => {});
+    const refused: [string, RegExp][] = [
+        ['secretBackend=env', /Cannot override 'secretBackend'\. Use one of: provider, baseUrl, opusModel/],
+        ['customEnv=X', /Cannot override 'customEnv'/],
+        ['sonnetModel', /--override expects key=value, got 'sonnetModel'/],
+        ['baseUrl=not a url', /Invalid URL format: not a url/],
+        ['provider=', /provider cannot be empty/],
+        ['apiFormat=grpc', /apiFormat must be "anthropic" or "openai"/],
+        ['maxOutputTokens=lots', /maxOutputTokens must be a positive integer/],
+        ['skipPermissions=yes', /skipPermissions must be true or false/]
+    ];
+
+    for (const [override, message] of refused) {
+        process.exitCode = undefined;
+        await runRunCommand(['work', '--override', override]);
+        assert.equal(process.exitCode, 1, override);
+        assert.match(String(errors.mock.calls.at(-1)!.arguments[0]), message);
+    }
+    assert.equal(existsSync(ENV_FILE), false);
+});
+
+test('provider flags are refused for aliases in favour of overrides', async t => {
+    const errors = t.mock.method(console, 'error', () => {});
+    await runRunCommand(['work', '--base-url', 'https://other.example.com']);
+    assert.equal(process.exitCode, 1);
+    assert.match(String(errors.mock.calls[0].arguments[0]), /--base-url is for one-off provider sessions; .*--override/);
+    assert.equal(existsSync(ENV_FILE), false);
+});
+
+test('one-off provider sessions use a temporary CLAUDE_HOME that is removed afterwards', async t => {
+    t.mock.method(console, 'error', () => {});
+    await runRunCommand(['--provider', 'custom', '--base-url', 'https://oneoff.example.com', '--sonnet-model', 'flag-sonnet']);
+    assert.equal(process.exitCode, 0);
+
+    const env = launchEnv();
+    assert.equal(env.ANTHROPIC_BASE_URL, 'https://oneoff.example.com');
+    assert.equal(env.ANTHROPIC_DEFAULT_SONNET_MODEL, 'flag-sonnet');
+    assert.equal(existsSync(env.CLAUDE_HOME), false);
+    assert.deepEqual(configStore.listAliasConfigs().map(c => c.alias), ['work']);
+});
@@ -0,0 +1,149 @@
+import { test, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, symlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { stripVTControlCharacters } from 'util';
+import { installFakeClis } from '../helpers/fake-secrets-cli.js';
+import type { ClaudeAliasConfig } from '../../src/types/index.js';
+
+// Only the fake pass/op/bw CLIs (and which, to find them) are on PATH,
+// so 'system' is the encrypted file even where secret-tool is installed
+const home = mkdtempSync(join(tmpdir(), 'claude-alias-secrets-command-'));
+const originalPath = process.env.PATH;
+const fakeBin = installFakeClis(join(home, 'bin'));
+symlinkSync(execFileSync('sh', ['-c', 'command -v which'], { encoding: 'utf-8' }).trim(), join(fakeBin, 'which'));
+process.env.PATH = fakeBin;
+process.env.HOME = home;
+process.env.FAKE_VAULT_DIR = home;
+process.env.PASSWORD_STORE_DIR = join(home, 'store');
+delete process.env.CLAUDE_ALIAS_MASTER_PASSPHRASE;
+const { runSecretsCommand } = await import('../../src/commands/secrets.js');
+const configStore = await import('../../src/services/config.js');
+const profile = await import('../../src/services/profile.js');
+const secrets = await import('../../src/services/secrets/index.js');
+const settings = await import('../../src/services/settings.js');
+
+after(() => {
+    process.env.PATH = originalPath;
+    rmSync(home, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+    process.exitCode = undefined;
+    rmSync(configStore.getConfigDir(), { recursive: true, force: true });
+    rmSync(profile.getLocalBinDir(), { recursive: true, force: true });
+    rmSync(join(home, 'vault.json'), { force: true });
+    rmSync(join(home, 'store'), { recursive: true, force: true });
+    // Never touch the real kernel keyring
+    settings.saveSettings({ secretsUnlockMinutes: 0 });
+});
+
+const config = (overrides: Partial<ClaudeAliasConfig> = {}): ClaudeAliasConfig => ({
+    alias: 'work',
+    provider: 'custom',
+    baseUrl: 'https://api.example.com',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides
+});
+
+/**
+ * Save an alias config and its script, as add does
+ */
+function addAlias(overrides: Partial<ClaudeAliasConfig> = {}): ClaudeAliasConfig {
+    const created = config(overrides);
+    configStore.saveAliasConfig(created);
+    profile.writeScript(created);
+    return created;
+}
+
+test('move copies the key, deletes the source and switches the alias to the new backend', async t => {
+    t.mock.method(console, 'log', () => {});
+    addAlias({ secretBackend: 'pass' });
+    await secrets.setApiKey('work', 'sk-work', 'pass');
+
+    await runSecretsCommand(['move', 'work', '--to', 'bitwarden']);
+    assert.equal(process.exitCode, undefined);
+    assert.equal(await secrets.getApiKey('work', 'bitwarden'), 'sk-work');
+    assert.equal(await secrets.verifyApiKey('work', 'pass'), false);
+    assert.equal(configStore.getAliasConfig('work')?.secretBackend, 'bitwarden');
+    assert.match(readFileSync(profile.getScriptPath('work'), 'utf-8'), /# API key retrieval \(bitwarden backend\)/);
+
+    // Back to the default backend, which is stored as no setting at all
+    await runSecretsCommand(['move', 'work', '--to', 'system']);
+    assert.equal(await secrets.getApiKey('work', 'file'), 'sk-work');
+    assert.equal(configStore.getAliasConfig('work')?.secretBackend, undefined);
+});
+
+test('move does not replace a different key in the target without --force', async t => {
+    const errors = t.mock.method(console, 'error', () => {});
+    t.mock.method(console, 'log', () => {});
+    addAlias({ secretBackend: 'pass' });
+    await secrets.setApiKey('work', 'sk-new', 'pass');
+    await secrets.setApiKey('work', 'sk-old', 'bitwarden');
+
+    await runSecretsCommand(['move', 'work', '--to', 'bitwarden']);
+    assert.equal(process.exitCode, 1);
+    assert.match(String(errors.mock.calls[0].arguments[0]), /already holds a different key for 'work' \(use --force/);
+    assert.equal(await secrets.getApiKey('work', 'pass'), 'sk-new');
+    assert.equal(configStore.getAliasConfig('work')?.secretBackend, 'pass');
+
+    process.exitCode = undefined;
+    await runSecretsCommand(['move', 'work', '--to', 'bitwarden', '--force']);
+    assert.equal(process.exitCode, undefined);
+    assert.equal(await secrets.getApiKey('work', 'bitwarden'), 'sk-new');
+});
+
+test('move refuses unknown aliases and backends, read-only targets and moves within one backend', async t => {
+    const errors = t.mock.method(console, 'error', () => {});
+    addAlias({ secretBackend: 'pass' });
+
+    const failures: [string[], RegExp][] = [
+        [['move', 'work'], /Usage: claude-alias secrets move/],
+        [['move', 'missing', '--to', 'pass'], /No stored config for 'missing'/],
+        [['move', 'work', '--to', 'vault'], /Unknown backend 'vault'/],
+        [['move', 'work', '--to', 'pass'], /already in pass/],
+        [['move', 'work', '--to', 'env'], /The env backend cannot store keys/],
+        [['move', 'work', '--to', 'bitwarden'], /No API key for 'work' in pass/]
+    ];
+    for (const [args, message] of failures) {
+        process.exitCode = undefined;
+        await runSecretsCommand(args);
+        assert.equal(process.exitCode, 1, args.join(' '));
+        assert.match(String(errors.mock.calls.at(-1)!.arguments[0]), message);
+    }
+});
+
+test('moving a stale duplicate onto the backend an alias reads from keeps its setting', async t => {
+    t.mock.method(console, 'log', () => {});
+    addAlias();
+    await secrets.setApiKey('work', 'sk-work', 'system');
+    await secrets.setApiKey('work', 'sk-work', 'pass');
+
+    await runSecretsCommand(['move', 'work', '--from', 'pass', '--to', 'file']);
+    assert.equal(process.exitCode, undefined);
+    assert.equal(await secrets.verifyApiKey('work', 'pass'), false);
+    assert.equal(configStore.getAliasConfig('work')?.secretBackend, undefined);
+});
+
+test('list shows where each key is stored, duplicates and keys without an alias', async t => {
+    const logs = t.mock.method(console, 'log', () => {});
+    addAlias();
+    addAlias({ alias: 'vaulted', secretBackend: 'pass' });
+    addAlias({ alias: 'keyless', secretBackend: 'bitwarden' });
+    await secrets.setApiKey('work', 'sk-work', 'system');
+    await secrets.setApiKey('work', 'sk-stale', 'pass');
+    await secrets.setApiKey('vaulted', 'sk-vaulted', 'pass');
+    await secrets.setApiKey('removed', 'sk-removed', 'bitwarden');
+
+    await runSecretsCommand(['list']);
+    const output = logs.mock.calls.map(call => stripVTControlCharacters(String(call.arguments[0] ?? ''))).join('\n');
+    assert.match(output, /Scanned: file, pass, bitwarden/);
+    assert.match(output, /keyless +bitwarden +no key/);
+    assert.match(output, /vaulted +pass +pass\n/);
+    assert.match(output, /work +system +file, pass \(duplicate\)/);
+    assert.match(output, /Keys with no alias profile:\n +removed +bitwarden/);
+    assert.doesNotMatch(output, /sk-/);
+});
@@ -0,0 +1,111 @@
+/**
+ * Stand-in for the pass, op and bw CLIs: wrapper scripts from installFakeClis run runFakeCli(['bw', ...args]).
+ * Items are kept in $FAKE_VAULT_DIR/vault.json (pass uses files under $PASSWORD_STORE_DIR).
+ * FAKE_LOCKED=1 makes every command fail the way a locked vault does;
+ * FAKE_FAIL=<command> (e.g. "create") makes just that command fail.
+ */
+import { chmodSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+interface Item {
+    id: string;
+    title?: string;     // op
+    name?: string;      // bw
+    [key: string]: unknown;
+}
+
+const vaultPath = () => join(process.env.FAKE_VAULT_DIR!, 'vault.json');
+
+const load = (): Item[] => existsSync(vaultPath()) ? JSON.parse(readFileSync(vaultPath(), 'utf-8')) : [];
+const save = (items: Item[]) => writeFileSync(vaultPath(), JSON.stringify(items));
+const stdin = () => readFileSync(0, 'utf-8');
+const nextId = () => `id${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+function fail(message: string, code = 1): never {
+    process.stderr.write(`${message}\n`);
+    process.exit(code);
+}
+
+function runPass(args: string[]): void {
+    const [command, ...rest] = args;
+    const name = rest.filter(arg => !arg.startsWith('--')).at(-1)!;
+    const file = join(process.env.PASSWORD_STORE_DIR!, `${name}.gpg`);
+    if (process.env.FAKE_LOCKED) fail('gpg: decryption failed: No secret key', 2);
+
+    if (command === 'show') {
+        if (!existsSync(file)) fail(`Error: ${name} is not in the password store.`);
+        process.stdout.write(readFileSync(file, 'utf-8'));
+    } else if (command === 'insert') {
+        mkdirSync(dirname(file), { recursive: true });
+        writeFileSync(file, stdin());
+    } else if (command === 'rm') {
+        if (!existsSync(file)) fail(`Error: ${name} is not in the password store.`);
+        rmSync(file);
+    }
+}
+
+function runOp(args: string[]): void {
+    const [noun, verb, target] = args;
+    if (process.env.FAKE_LOCKED) fail('[ERROR] account is not signed in');
+    if (noun !== 'item' || process.env.FAKE_FAIL === verb) fail(`[ERROR] op ${noun} ${verb} failed`);
+
+    const items = load();
+    if (verb === 'list') {
+        process.stdout.write(JSON.stringify(items.map(({ id, title }) => ({ id, title }))));
+    } else if (verb === 'get') {
+        const matches = items.filter(item => item.id === target || item.title === target);
+        if (matches.length === 0) fail(`[ERROR] "${target}" isn't an item`);
+        if (matches.length > 1) fail(`[ERROR] More than one item matches "${target}"`);
+        const fields = matches[0].fields as { label: string; value: string }[];
+        process.stdout.write(`${fields.find(field => `label=${field.label}` === args[4])?.value ?? ''}\n`);
+    } else if (verb === 'create') {
+        save([...items, { ...JSON.parse(stdin()), id: nextId(), vault: args[args.indexOf('--vault') + 1] }]);
+    } else if (verb === 'delete') {
+        const remaining = items.filter(item => item.id !== target && item.title !== target);
+        if (remaining.length === items.length) fail(`[ERROR] "${target}" isn't an item`);
+        save(remaining);
+    }
+}
+
+function runBw(args: string[]): void {
+    const [verb, noun, target] = args;
+    if (process.env.FAKE_LOCKED) fail('Vault is locked.');
+    if (process.env.FAKE_FAIL === verb) fail(`bw ${verb} failed`);
+
+    const items = load();
+    const decode = () => JSON.parse(Buffer.from(stdin(), 'base64').toString('utf-8'));
+    if (verb === 'list' && noun === 'items') {
+        // Like bw, --search matches substrings
+        const term = args[args.indexOf('--search') + 1] ?? '';
+        process.stdout.write(JSON.stringify(items.filter(item => item.name?.includes(term))));
+    } else if (verb === 'create') {
+        save([...items, { ...decode(), id: nextId() }]);
+    } else if (verb === 'edit') {
+        save(items.map(item => item.id === target ? { ...decode(), id: target } : item));
+    } else if (verb === 'delete') {
+        save(items.filter(item => item.id !== target));
+    }
+}
+
+/**
+ * Run one CLI invocation (argv without node and script: [cli, ...args])
+ */
+export function runFakeCli([cli, ...args]: string[]): void {
+    if (cli === 'pass') runPass(args);
+    else if (cli === 'op') runOp(args);
+    else if (cli === 'bw') runBw(args);
+    else fail(`unknown CLI ${cli}`);
+}
+
+/**
+ * Write pass, op and bw wrapper scripts into a new directory; returns it for use in PATH
+ */
+export function installFakeClis(dir: string): string {
+    mkdirSync(dir);
+    const run = `import('${import.meta.url}').then(m => m.runFakeCli(process.argv.slice(1)))`;
+    for (const cli of ['pass', 'op', 'bw']) {
+        writeFileSync(join(dir, cli), `#!/bin/sh\nexec "${process.execPath}" --input-type=module -e "${run}" ${cli} "$@"\n`);
+        chmodSync(join(dir, cli), 0o755);
+    }
+    return dir;
+}
@@ -0,0 +1,50 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+    method: string;
+    url: string;
+    headers: IncomingMessage['headers'];
+    body: string;
+}
+
+export interface StubServer {
+    url: string;
+    requests: RecordedRequest[];
+    close(): Promise<void>;
+}
+
+/**
+ * Start a local HTTP server on a free port that records each request and answers with a handler
+ */
+export async function startStubServer(
+    handler: (req: RecordedRequest, res: ServerResponse) => void | Promise<void>
+): Promise<StubServer> {
+    const requests: RecordedRequest[] = [];
+    const server = createServer(async (req, res) => {
+        let body = '';
+        for await (const chunk of req) body += chunk;
+        const recorded = { method: req.method ?? 'GET', url: req.url ?? '/', headers: req.headers, body };
+        requests.push(recorded);
+        await handler(recorded, res);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise(resolve => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        })
+    };
+}
+
+/**
+ * Send a JSON response
+ */
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
@@ -0,0 +1,55 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ClaudeAliasConfig, UsageRecord } from '../../src/types/index.js';
+
+/**
+ * Point HOME at a fresh temp directory, where usage logs are written, and prices at a
+ * local registry file in it with two models: priced-model ($1/$2 per million) and cheap-model.
+ * Call before importing the usage or budget services; returns the directory.
+ */
+export function setUpPricedHome(prefix: string): string {
+    const home = mkdtempSync(join(tmpdir(), `claude-alias-${prefix}-`));
+    process.env.HOME = home;
+    process.env.CLAUDE_ALIAS_REGISTRY_FILE = join(home, 'registry.json');
+    writeFileSync(process.env.CLAUDE_ALIAS_REGISTRY_FILE, JSON.stringify({
+        'priced-model': { mode: 'chat', input_cost_per_token: 1e-6, output_cost_per_token: 2e-6, cache_read_input_token_cost: 1e-7 },
+        'cheap-model': { mode: 'chat', input_cost_per_token: 1e-8, output_cost_per_token: 1e-8 }
+    }));
+    return home;
+}
+
+/**
+ * A successful priced-model request logged now, with no tokens unless overridden
+ */
+export function usageRecord(overrides: Partial<UsageRecord> = {}): UsageRecord {
+    return {
+        timestamp: new Date().toISOString(),
+        model: 'priced-model',
+        provider: 'custom',
+        status: 200,
+        latencyMs: 100,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadInputTokens: 0,
+        cacheCreationInputTokens: 0,
+        ...overrides
+    };
+}
+
+/**
+ * An alias whose tiers use the registry's priced models
+ */
+export function pricedConfig(overrides: Partial<ClaudeAliasConfig> = {}): ClaudeAliasConfig {
+    return {
+        alias: 'work',
+        provider: 'custom',
+        baseUrl: 'https://example.com',
+        opusModel: 'priced-model',
+        sonnetModel: 'priced-model',
+        haikuModel: 'cheap-model',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        ...overrides
+    };
+}
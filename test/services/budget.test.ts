@@ -0,0 +1,75 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { rmSync } from 'fs';
+import { pricedConfig as config, setUpPricedHome, usageRecord } from '../helpers/usage.js';
+import type { UsageRecord } from '../../src/types/index.js';
+
+const home = setUpPricedHome('budget');
+const budget = await import('../../src/services/budget.js');
+const usage = await import('../../src/services/usage.js');
+const litellm = await import('../../src/services/litellm.js');
+
+after(() => rmSync(home, { recursive: true, force: true }));
+
+// $1 per request at priced-model's input price
+const record = (overrides: Partial<UsageRecord> = {}): UsageRecord => usageRecord({ inputTokens: 1_000_000, ...overrides });
+
+// Runs first, while nothing has loaded the registry yet
+test('token caps are counted without loading the price registry', async () => {
+    usage.appendUsage('tokens-only', record());
+    const caps = [{ period: 'monthly' as const, limit: 1_500_000, unit: 'tokens' as const, hard: true }];
+
+    const [status] = await budget.getBudgetStatus('tokens-only', caps);
+    assert.equal(status.used, 1_000_000);
+    const guard = await budget.createBudgetGuard('tokens-only', caps);
+    usage.appendUsage('tokens-only', record());
+    assert.deepEqual(await guard.update(), ['monthly hard cap of 1.5M tokens']);
+    assert.equal(litellm.getRegistryStatus().source, 'none');
+});
+
+test('findUnpricedModels lists models without registry prices, including fallbacks', async () => {
+    await budget.loadPrices();
+    assert.deepEqual(await budget.findUnpricedModels(config()), []);
+    assert.deepEqual(await budget.findUnpricedModels(config({ subagentModel: 'mystery-model' })), ['mystery-model']);
+    assert.deepEqual(await budget.findUnpricedModels(config({
+        failover: [{ provider: 'backup', baseUrl: 'https://backup.example.com', keyAlias: 'backup', sonnetModel: 'other-mystery', haikuModel: 'cheap-model' }]
+    })), ['other-mystery']);
+});
+
+test('the budget guard reports a cap once, when a logged request crosses it', async () => {
+    const guard = await budget.createBudgetGuard('guarded', [{ period: 'daily', limit: 2, unit: 'usd', hard: true }]);
+    assert.equal(await guard.check(), null);
+
+    // $1 per million input tokens
+    usage.appendUsage('guarded', record());
+    assert.deepEqual(await guard.update(), []);
+    usage.appendUsage('guarded', record({ status: 500 }));
+    assert.deepEqual(await guard.update(), []);
+    assert.equal(await guard.check(), null);
+
+    usage.appendUsage('guarded', record());
+    assert.equal((await guard.update()).length, 1);
+    assert.match((await guard.check())!, /Budget reached for 'guarded'/);
+    usage.appendUsage('guarded', record());
+    assert.deepEqual(await guard.update(), []);
+});
+
+test('budget guards of concurrent sessions count each other\'s requests', async () => {
+    const caps = [{ period: 'daily' as const, limit: 2, unit: 'usd' as const, hard: true }];
+    const first = await budget.createBudgetGuard('shared', caps);
+    const second = await budget.createBudgetGuard('shared', caps);
+
+    usage.appendUsage('shared', record());
+    assert.deepEqual(await first.update(), []);
+    usage.appendUsage('shared', record());
+    assert.deepEqual(await second.update(), ['daily hard cap of $2.00']);
+
+    // The first session sees the second one's request before its next one goes out
+    assert.match((await first.check())!, /Budget reached for 'shared'/);
+    assert.deepEqual(await first.update(), ['daily hard cap of $2.00']);
+
+    // A guard started later counts what is already logged, without reporting it again
+    const third = await budget.createBudgetGuard('shared', caps);
+    assert.match((await third.check())!, /Budget reached/);
+    assert.deepEqual(await third.update(), []);
+});
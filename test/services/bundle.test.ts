@@ -0,0 +1,144 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BUNDLE_VERSION, createBundle, decryptSecrets, encryptSecrets, parseBundle, validatePassphrase } from '../../src/services/bundle.js';
+import type { ClaudeAliasConfig, SecretsEnvelope } from '../../src/types/index.js';
+
+const PASSPHRASE = 'correct horse battery';
+const SECRETS = { work: 'sk-work', personal: 'sk-personal' };
+
+const config = (overrides: Partial<ClaudeAliasConfig> = {}): ClaudeAliasConfig => ({
+    alias: 'work',
+    provider: 'custom',
+    baseUrl: 'https://api.example.com',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides
+});
+
+// Serialize a bundle the way export writes it, with raw fields for invalid input
+const bundleFile = (aliases: unknown[], overrides: Record<string, unknown> = {}): string =>
+    JSON.stringify({ ...createBundle([]), aliases, ...overrides });
+
+// Flip the first byte of a base64 field
+const tamper = (value: string): string => {
+    const bytes = Buffer.from(value, 'base64');
+    bytes[0] ^= 0xff;
+    return bytes.toString('base64');
+};
+
+test('secrets encrypted with a passphrase decrypt with the same one', () => {
+    const envelope = encryptSecrets(SECRETS, PASSPHRASE);
+    assert.equal(envelope.data.includes('sk-work'), false);
+    assert.deepEqual(decryptSecrets(envelope, PASSPHRASE), SECRETS);
+
+    // Fresh salt and IV every time
+    const again = encryptSecrets(SECRETS, PASSPHRASE);
+    assert.notEqual(again.salt, envelope.salt);
+    assert.notEqual(again.data, envelope.data);
+});
+
+test('a wrong passphrase or modified envelope is rejected', () => {
+    const envelope = encryptSecrets(SECRETS, PASSPHRASE);
+    const rejected = /Wrong passphrase, or the bundle's secrets were modified/;
+
+    assert.throws(() => decryptSecrets(envelope, 'incorrect horse'), rejected);
+    assert.throws(() => decryptSecrets({ ...envelope, data: tamper(envelope.data) }, PASSPHRASE), rejected);
+    assert.throws(() => decryptSecrets({ ...envelope, authTag: tamper(envelope.authTag) }, PASSPHRASE), rejected);
+    assert.throws(() => decryptSecrets({ ...envelope, salt: tamper(envelope.salt) }, PASSPHRASE), rejected);
+});
+
+test('unsupported or out-of-range key derivation settings are refused before deriving', () => {
+    const envelope = encryptSecrets(SECRETS, PASSPHRASE);
+    const invalid = /Invalid key derivation parameters/;
+    const withParams = (kdfParams: unknown) => ({ ...envelope, kdfParams }) as SecretsEnvelope;
+
+    assert.throws(() => decryptSecrets(withParams({ N: 2 ** 30, r: 8, p: 1 }), PASSPHRASE), invalid);
+    assert.throws(() => decryptSecrets(withParams({ N: 2 ** 15, r: 0, p: 1 }), PASSPHRASE), invalid);
+    assert.throws(() => decryptSecrets(withParams({ N: 1.5, r: 8, p: 1 }), PASSPHRASE), invalid);
+    assert.throws(() => decryptSecrets(withParams({ N: '32768', r: 8, p: 1 }), PASSPHRASE), invalid);
+    assert.throws(() => decryptSecrets(withParams(undefined), PASSPHRASE), invalid);
+    assert.throws(
+        () => decryptSecrets({ ...envelope, cipher: 'aes-128-cbc' } as unknown as SecretsEnvelope, PASSPHRASE),
+        /Unsupported secrets encryption: scrypt\/aes-128-cbc/
+    );
+});
+
+test('passphrases shorter than 8 characters are refused', () => {
+    assert.match(String(validatePassphrase('short')), /at least 8 characters/);
+    assert.equal(validatePassphrase(PASSPHRASE), true);
+});
+
+test('bundles carry secrets only when a passphrase is given', () => {
+    assert.equal(createBundle([config()], SECRETS).secrets, undefined);
+
+    const content = JSON.stringify(createBundle([config()], SECRETS, PASSPHRASE));
+    const parsed = parseBundle(content);
+    assert.equal(parsed.version, BUNDLE_VERSION);
+    assert.deepEqual(parsed.aliases, [config()]);
+    assert.deepEqual(decryptSecrets(parsed.secrets!, PASSPHRASE), SECRETS);
+});
+
+test('files that are not bundles, or come from a newer version, are refused', () => {
+    assert.throws(() => parseBundle('{'), /Not valid JSON/);
+    assert.throws(() => parseBundle('null'), /Not a claude-alias bundle/);
+    assert.throws(() => parseBundle(JSON.stringify({ aliases: [] })), /Not a claude-alias bundle/);
+    assert.throws(() => parseBundle(bundleFile([], { version: BUNDLE_VERSION + 1 })), /written by a newer claude-alias \(format v2\)/);
+    assert.throws(() => parseBundle(bundleFile([], { version: '1' })), /newer claude-alias/);
+});
+
+test('an alias may appear only once', () => {
+    assert.throws(() => parseBundle(bundleFile([config(), config({ provider: 'other' })])), /Alias 'work' appears more than once/);
+});
+
+test('invalid alias records are reported with their position', () => {
+    const rejects = (overrides: Record<string, unknown>, message: RegExp) =>
+        assert.throws(() => parseBundle(bundleFile([config({ alias: 'ok' }), { ...config(), ...overrides }])), message);
+
+    rejects({ alias: undefined }, /Alias #2: missing "alias"/);
+    rejects({ alias: '../escape' }, /Alias #2 \(\.\.\/escape\)/);
+    rejects({ baseUrl: 'not a url' }, /Alias #2 \(work\): invalid base URL: not a url/);
+    rejects({ sonnetModel: 42 }, /"sonnetModel" must be a string/);
+    rejects({ apiFormat: 'grpc' }, /"apiFormat" must be "anthropic" or "openai"/);
+    rejects({ maxOutputTokens: -1 }, /"maxOutputTokens" must be a positive integer/);
+    rejects({ defaultArgs: ['--verbose', 1] }, /"defaultArgs" must be a list of strings/);
+});
+
+test('invalid customEnv entries are refused', () => {
+    const rejects = (customEnv: unknown, message: RegExp) =>
+        assert.throws(() => parseBundle(bundleFile([{ ...config(), customEnv }])), message);
+
+    rejects({ 'BAD-NAME': 'x' }, /Alias #1 \(work\)/);
+    rejects({ ANTHROPIC_API_KEY: 'sk-sneaky' }, /Alias #1 \(work\)/);
+    rejects({ DEBUG: 1 }, /customEnv DEBUG must be a string/);
+    rejects({ DEBUG: 'line\nbreak' }, /DEBUG: /);
+    assert.doesNotThrow(() => parseBundle(bundleFile([{ ...config(), customEnv: { DEBUG: `it's $HOME` } }])));
+});
+
+test('invalid failover entries are refused', () => {
+    const fallback = { provider: 'backup', baseUrl: 'https://backup.example.com', keyAlias: 'backup' };
+    const rejects = (failover: unknown, message: RegExp) =>
+        assert.throws(() => parseBundle(bundleFile([{ ...config(), failover }])), message);
+
+    rejects({ ...fallback }, /"failover" must be a list/);
+    rejects([fallback, { ...fallback, provider: '' }], /failover #2: missing "provider"/);
+    rejects([{ ...fallback, keyAlias: '../escape' }], /failover #1: missing or invalid "keyAlias"/);
+    rejects([{ ...fallback, baseUrl: 'nowhere' }], /failover #1: invalid base URL: nowhere/);
+    rejects([{ ...fallback, apiFormat: 'grpc' }], /failover #1: "apiFormat"/);
+    rejects([{ ...fallback, haikuModel: ['a'] }], /failover #1: "haikuModel" must be a string/);
+    rejects([null], /failover #1: missing "provider"/);
+    assert.doesNotThrow(() => parseBundle(bundleFile([{ ...config(), failover: [fallback] }])));
+});
+
+test('invalid budget entries are refused', () => {
+    const cap = { period: 'daily', unit: 'usd', limit: 5, hard: true };
+    const rejects = (budgets: unknown, message: RegExp) =>
+        assert.throws(() => parseBundle(bundleFile([{ ...config(), budgets }])), message);
+
+    rejects(cap, /"budgets" must be a list/);
+    rejects([{ ...cap, period: 'weekly' }], /budget #1: "period" must be "daily" or "monthly"/);
+    rejects([cap, { ...cap, unit: 'eur' }], /budget #2: "unit" must be "usd" or "tokens"/);
+    rejects([{ ...cap, limit: 0 }], /budget #1: "limit" must be a positive number/);
+    rejects([{ ...cap, limit: 'NaN' }], /budget #1: "limit" must be a positive number/);
+    rejects([{ ...cap, hard: 'yes' }], /budget #1: "hard" must be true or false/);
+    assert.doesNotThrow(() => parseBundle(bundleFile([{ ...config(), budgets: [cap] }])));
+});
@@ -0,0 +1,86 @@
+import { test, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ClaudeAliasConfig } from '../../src/types/index.js';
+
+// The config store and the scripts it imports live under the home directory
+const home = mkdtempSync(join(tmpdir(), 'claude-alias-config-'));
+process.env.HOME = home;
+const configStore = await import('../../src/services/config.js');
+const profile = await import('../../src/services/profile.js');
+
+after(() => rmSync(home, { recursive: true, force: true }));
+
+beforeEach(() => {
+    rmSync(configStore.getConfigDir(), { recursive: true, force: true });
+    rmSync(profile.getLocalBinDir(), { recursive: true, force: true });
+});
+
+const config = (overrides: Partial<ClaudeAliasConfig> = {}): ClaudeAliasConfig => ({
+    alias: 'work',
+    provider: 'custom',
+    baseUrl: 'https://api.example.com',
+    sonnetModel: 'sonnet-model',
+    customEnv: { DEBUG: `it's on` },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-02T00:00:00.000Z',
+    ...overrides
+});
+
+const storedFile = () => JSON.parse(readFileSync(configStore.getConfigPath(), 'utf-8'));
+
+test('the first load imports managed scripts and writes the store', () => {
+    profile.writeScript(config());
+    mkdirSync(profile.getLocalBinDir(), { recursive: true });
+    writeFileSync(join(profile.getLocalBinDir(), 'claude-handmade'), '#!/bin/bash\nexport ANTHROPIC_BASE_URL=https://x.example.com\n');
+
+    const store = configStore.loadStore();
+    assert.equal(store.version, configStore.CONFIG_SCHEMA_VERSION);
+    assert.deepEqual(Object.keys(store.aliases), ['work']);
+    const imported = store.aliases.work;
+    assert.equal(imported.baseUrl, 'https://api.example.com');
+    assert.equal(imported.sonnetModel, 'sonnet-model');
+    assert.deepEqual(imported.customEnv, { DEBUG: `it's on` });
+    assert.equal(imported.createdAt, '2026-01-01T00:00:00.000Z');
+
+    assert.deepEqual(storedFile(), store);
+    assert.equal(statSync(configStore.getConfigPath()).mode & 0o777, 0o600);
+});
+
+test('once the store exists, scripts are no longer imported', () => {
+    configStore.saveAliasConfig(config({ alias: 'stored' }));
+    profile.writeScript(config({ alias: 'script-only' }));
+    assert.deepEqual(configStore.listAliasConfigs().map(c => c.alias), ['stored']);
+
+    assert.equal(configStore.deleteAliasConfig('stored'), true);
+    assert.deepEqual(configStore.loadStore().aliases, {});
+});
+
+test('a store without a schema version is stamped with the current one', () => {
+    mkdirSync(configStore.getConfigDir(), { recursive: true });
+    writeFileSync(configStore.getConfigPath(), JSON.stringify({ aliases: { work: config() } }));
+
+    assert.deepEqual(configStore.getAliasConfig('work'), config());
+    assert.equal(storedFile().version, configStore.CONFIG_SCHEMA_VERSION);
+});
+
+test('a store from a newer schema version, or one that is not JSON, is refused', () => {
+    mkdirSync(configStore.getConfigDir(), { recursive: true });
+    writeFileSync(configStore.getConfigPath(), JSON.stringify({ version: configStore.CONFIG_SCHEMA_VERSION + 1, aliases: {} }));
+    assert.throws(() => configStore.loadStore(), /written by a newer claude-alias \(schema v2\)/);
+
+    writeFileSync(configStore.getConfigPath(), '{"version": 1,');
+    assert.throws(() => configStore.loadStore(), /Failed to read .*aliases\.json/);
+});
+
+test('aliases without a stored config are recovered from their script', () => {
+    configStore.loadStore();
+    profile.writeScript(config({ alias: 'orphan' }));
+
+    const recovered = configStore.resolveAliasConfig('orphan');
+    assert.equal(recovered.provider, 'custom');
+    assert.equal(recovered.baseUrl, 'https://api.example.com');
+    assert.deepEqual(configStore.resolveAliasConfig('missing'), {});
+});
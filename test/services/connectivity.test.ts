@@ -0,0 +1,141 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as connectivity from '../../src/services/connectivity.js';
+import { startStubServer, sendJson, type StubServer } from '../helpers/server.js';
+
+const GOOD_KEY = 'sk-good';
+
+let server: StubServer;
+
+before(async () => {
+    server = await startStubServer(async (req, res) => {
+        const key = req.headers['x-api-key'] ?? req.headers.authorization?.replace(/^Bearer /, '');
+        const path = new URL(req.url, 'http://localhost').pathname;
+
+        // Anthropic-compatible API under /anthropic; anything else is the provider's web app
+        if (path === '/anthropic/v1/messages') {
+            if (key !== GOOD_KEY) {
+                return sendJson(res, 401, { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } });
+            }
+            const { model } = JSON.parse(req.body);
+            if (model === 'slow-model') {
+                await new Promise(resolve => setTimeout(resolve, 500));
+            }
+            if (model === 'no-such-model') {
+                return sendJson(res, 404, { type: 'error', error: { type: 'not_found_error', message: `model: ${model}` } });
+            }
+            return sendJson(res, 200, { type: 'message', content: [], usage: { input_tokens: 1, output_tokens: 1 } });
+        }
+        if (path === '/anthropic/v1/models') {
+            const afterId = new URL(req.url, 'http://localhost').searchParams.get('after_id');
+            return sendJson(res, 200, afterId === 'claude-b'
+                ? { data: [{ id: 'claude-c', display_name: 'Claude C' }], has_more: false, last_id: 'claude-c' }
+                : { data: [{ id: 'claude-a', display_name: 'Claude A' }, { id: 'claude-b', display_name: 'Claude B' }], has_more: true, last_id: 'claude-b' });
+        }
+        if (path === '/openai/v1/models') {
+            return sendJson(res, 200, { object: 'list', data: [{ id: 'gpt-x', object: 'model', owned_by: 'lab' }, { id: 'gpt-y', object: 'model', owned_by: 'lab' }] });
+        }
+        res.writeHead(404, { 'content-type': 'text/html' });
+        res.end('<html><body>Not Found</body></html>');
+    });
+});
+
+after(() => server.close());
+
+const probe = (overrides: Partial<connectivity.ProbeOptions>) => connectivity.probeModel({
+    baseUrl: `${server.url}/anthropic`,
+    apiKey: GOOD_KEY,
+    model: 'good-model',
+    ...overrides
+});
+
+test('a working key and model succeed', async () => {
+    const result = await probe({});
+    assert.equal(result.ok, true);
+    assert.equal(result.status, 200);
+});
+
+test('the key is sent as a bearer token when the alias uses auth tokens', async () => {
+    const result = await probe({ useAuthToken: true });
+    assert.equal(result.ok, true);
+    assert.equal(server.requests.at(-1)?.headers.authorization, `Bearer ${GOOD_KEY}`);
+    assert.equal(server.requests.at(-1)?.headers['x-api-key'], undefined);
+});
+
+test('a rejected key is classified as auth', async () => {
+    const result = await probe({ apiKey: 'sk-bad' });
+    assert.equal(result.failure, 'auth');
+    assert.equal(result.status, 401);
+    assert.match(result.message!, /invalid x-api-key/);
+});
+
+test('an unknown model is classified as model', async () => {
+    const result = await probe({ model: 'no-such-model' });
+    assert.equal(result.failure, 'model');
+    assert.match(result.message!, /no-such-model/);
+});
+
+test('a base URL missing /anthropic is classified as path, with a hint', async () => {
+    const result = await probe({ baseUrl: server.url });
+    assert.equal(result.failure, 'path');
+    assert.match(result.message!, /missing \/anthropic suffix/);
+});
+
+test('a slow provider is classified as timeout', async () => {
+    const result = await probe({ model: 'slow-model', timeoutMs: 100 });
+    assert.equal(result.failure, 'timeout');
+    assert.equal(result.status, undefined);
+});
+
+test('a closed port is classified as network', async () => {
+    const closed = await startStubServer(() => {});
+    await closed.close();
+    const result = await probe({ baseUrl: `${closed.url}/anthropic` });
+    assert.equal(result.failure, 'network');
+});
+
+test('rate limits and server errors are told apart', () => {
+    assert.equal(connectivity.classifyFailure(429, '{"error":{"message":"slow down"}}', 'https://x/anthropic').failure, 'rate_limit');
+    assert.equal(connectivity.classifyFailure(503, '{"error":{"message":"overloaded"}}', 'https://x/anthropic').failure, 'server');
+});
+
+test('testAlias probes each distinct tier model once', async () => {
+    const results = await connectivity.testAlias({
+        baseUrl: `${server.url}/anthropic`,
+        opusModel: 'good-model',
+        sonnetModel: 'good-model',
+        haikuModel: 'no-such-model'
+    }, GOOD_KEY);
+
+    assert.deepEqual(results.map(r => [r.model, r.tiers, r.ok]), [
+        ['good-model', ['opus', 'sonnet'], true],
+        ['no-such-model', ['haiku'], false]
+    ]);
+});
+
+test('Anthropic-style model lists are followed across pages', async () => {
+    const models = await connectivity.listProviderModels({ baseUrl: `${server.url}/anthropic`, apiKey: GOOD_KEY });
+    assert.deepEqual(models, [
+        { id: 'claude-a', displayName: 'Claude A', ownedBy: undefined },
+        { id: 'claude-b', displayName: 'Claude B', ownedBy: undefined },
+        { id: 'claude-c', displayName: 'Claude C', ownedBy: undefined }
+    ]);
+});
+
+test('OpenAI-style model lists are read from a versioned base URL', async () => {
+    const models = await connectivity.listProviderModels({ baseUrl: `${server.url}/openai/v1`, apiKey: GOOD_KEY });
+    assert.deepEqual(models.map(m => [m.id, m.ownedBy]), [['gpt-x', 'lab'], ['gpt-y', 'lab']]);
+    assert.equal(server.requests.at(-1)?.url, '/openai/v1/models');
+});
+
+test('a provider without a models endpoint gives a readable error', async () => {
+    await assert.rejects(
+        connectivity.listProviderModels({ baseUrl: `${server.url}/elsewhere`, apiKey: GOOD_KEY }),
+        /may not offer a models endpoint/
+    );
+});
+
+test('bare model lists are accepted', () => {
+    assert.deepEqual(connectivity.parseModelList(['a', { name: 'b' }, { id: '' }, 42]).map(m => m.id), ['a', 'b']);
+    assert.deepEqual(connectivity.parseModelList({ models: [{ id: 'c' }] }).map(m => m.id), ['c']);
+});
@@ -0,0 +1,79 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ClaudeAliasConfig } from '../../src/types/index.js';
+
+// Scripts, configs, shell profiles and CLAUDE_HOMEs all live under the home directory
+const home = mkdtempSync(join(tmpdir(), 'claude-alias-doctor-'));
+process.env.HOME = home;
+process.env.SHELL = '/bin/bash';
+process.env.PATH = `${join(home, '.local', 'bin')}:${process.env.PATH}`;
+const doctor = await import('../../src/services/doctor.js');
+const configStore = await import('../../src/services/config.js');
+const profile = await import('../../src/services/profile.js');
+const shell = await import('../../src/services/shell.js');
+const settings = await import('../../src/services/settings.js');
+
+// Never touch the real kernel keyring
+settings.saveSettings({ secretsUnlockMinutes: 0 });
+
+after(() => rmSync(home, { recursive: true, force: true }));
+
+const config = (alias: string): ClaudeAliasConfig => ({
+    alias,
+    provider: 'custom',
+    baseUrl: 'https://api.example.com',
+    skipPermissions: true,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+});
+
+const aliasFindings = async () => (await doctor.runChecks())
+    .filter(finding => finding.check !== 'missing-key' && finding.check !== 'secret-fallback' && finding.check !== 'claude-missing');
+
+test('scripts, stored configs, shell aliases and CLAUDE_HOME links are cross-checked and fixed', async () => {
+    // A script nothing points at, with its own broken settings link
+    configStore.saveAliasConfig(config('unaliased'));
+    profile.writeScript(config('unaliased'));
+    mkdirSync(profile.getProfileHomeDir('unaliased'), { recursive: true });
+    symlinkSync(join(home, 'gone.json'), join(profile.getProfileHomeDir('unaliased'), 'settings.json'));
+
+    // A stored config whose script was deleted
+    configStore.saveAliasConfig(config('scriptless'));
+    shell.addAlias('scriptless', profile.getScriptPath('scriptless'), ['--dangerously-skip-permissions']);
+
+    // An alias left behind by a removed script, and one whose arguments no longer match its config
+    shell.addAlias('leftover', profile.getScriptPath('leftover'));
+    configStore.saveAliasConfig(config('mismatched'));
+    profile.writeScript(config('mismatched'));
+    shell.addAlias('mismatched', profile.getScriptPath('mismatched'), ['--verbose']);
+
+    const findings = await aliasFindings();
+    assert.deepEqual(findings.map(f => [f.check, f.severity]), [
+        ['orphaned-script', 'warning'],
+        ['missing-script', 'error'],
+        ['alias-without-script', 'error'],
+        ['alias-args-mismatch', 'warning'],
+        ['stale-symlink', 'warning']
+    ]);
+    assert.match(findings[0].message, /claude-unaliased has no shell alias/);
+
+    for (const finding of findings) {
+        assert.equal(await finding.fix!.apply(), true, finding.check);
+    }
+    assert.deepEqual(await aliasFindings(), []);
+
+    assert.equal(profile.profileExists('scriptless'), true);
+    assert.equal(shell.aliasExists('leftover'), false);
+    assert.match(readFileSync(join(home, '.bashrc'), 'utf-8'), /^alias unaliased='claude-unaliased --dangerously-skip-permissions'$/m);
+    assert.match(readFileSync(join(home, '.bashrc'), 'utf-8'), /^alias mismatched='claude-mismatched --dangerously-skip-permissions'$/m);
+    assert.equal(existsSync(join(profile.getProfileHomeDir('unaliased'), 'settings.json')), false);
+});
+
+test('aliases without a stored key are reported', async () => {
+    const missing = (await doctor.runChecks()).filter(f => f.check === 'missing-key');
+    assert.deepEqual(missing.map(f => f.severity), ['error', 'error', 'error']);
+    assert.match(missing[0].message, /No API key stored for '\S+'/);
+});
@@ -0,0 +1,184 @@
+import { test, after, beforeEach, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// The cache lives under the home directory
+const home = mkdtempSync(join(tmpdir(), 'claude-alias-litellm-'));
+process.env.HOME = home;
+delete process.env.CLAUDE_ALIAS_REGISTRY_FILE;
+const settings = await import('../../src/services/settings.js');
+
+type LiteLLM = typeof import('../../src/services/litellm.js');
+
+// Each import is a fresh process as far as the in-memory registry goes
+let generation = 0;
+const freshLiteLLM = (): Promise<LiteLLM> => import(`../../src/services/litellm.js?${++generation}`);
+
+after(() => rmSync(home, { recursive: true, force: true }));
+
+beforeEach(() => {
+    rmSync(join(home, '.config'), { recursive: true, force: true });
+    delete process.env.CLAUDE_ALIAS_REGISTRY_FILE;
+});
+
+const REGISTRY = {
+    sample_spec: { mode: 'chat' },
+    'chat-model': { mode: 'chat', litellm_provider: 'example' },
+    'embedding-model': { mode: 'embedding', litellm_provider: 'example' }
+};
+const ETAG = '"v1"';
+const LAST_MODIFIED = 'Wed, 01 Jul 2026 00:00:00 GMT';
+
+/**
+ * Answer registry downloads, recording each request's conditional headers
+ */
+function mockFetch(t: TestContext, respond: () => Response): Record<string, string>[] {
+    const requests: Record<string, string>[] = [];
+    t.mock.method(globalThis, 'fetch', async (_url: string, init?: RequestInit) => {
+        requests.push({ ...init?.headers as Record<string, string> });
+        return respond();
+    });
+    return requests;
+}
+
+const fresh = () => new Response(JSON.stringify(REGISTRY), { status: 200, headers: { etag: ETAG, 'last-modified': LAST_MODIFIED } });
+
+test('the registry is downloaded once and read from disk while the cache is fresh', async t => {
+    const requests = mockFetch(t, fresh);
+
+    const first = await freshLiteLLM();
+    assert.deepEqual(Object.keys(await first.fetchRegistry()), ['chat-model']);
+    assert.deepEqual(requests, [{}]);
+    assert.equal(first.getRegistryStatus().source, 'network');
+    assert.deepEqual(JSON.parse(readFileSync(first.getCachePath(), 'utf-8')), REGISTRY);
+    const meta = first.readCacheMeta()!;
+    assert.equal(meta.etag, ETAG);
+    assert.equal(meta.lastModified, LAST_MODIFIED);
+
+    const second = await freshLiteLLM();
+    assert.deepEqual(Object.keys(await second.fetchRegistry()), ['chat-model']);
+    assert.equal(requests.length, 1);
+    assert.deepEqual(second.getRegistryStatus(), {
+        source: 'cache', path: second.getCachePath(), fetchedAt: meta.fetchedAt, stale: false, modelCount: 1
+    });
+});
+
+test('an expired cache is revalidated with its ETag and kept on 304', async t => {
+    const responses = [fresh, () => new Response(null, { status: 304 })];
+    const requests = mockFetch(t, () => responses.shift()!());
+    await (await freshLiteLLM()).fetchRegistry();
+    const downloaded = (await freshLiteLLM()).readCacheMeta()!;
+
+    settings.updateSettings({ registryTtlHours: 0 });
+    const litellm = await freshLiteLLM();
+    assert.deepEqual(Object.keys(await litellm.fetchRegistry()), ['chat-model']);
+    assert.deepEqual(requests[1], { 'If-None-Match': ETAG, 'If-Modified-Since': LAST_MODIFIED });
+    assert.equal(litellm.getRegistryStatus().stale, false);
+    assert.ok(litellm.readCacheMeta()!.fetchedAt >= downloaded.fetchedAt);
+    assert.equal(litellm.readCacheMeta()!.etag, ETAG);
+});
+
+test('refresh revalidates a fresh cache, and a failed revalidation serves it as stale', async t => {
+    const responses = [fresh, () => new Response('busy', { status: 503 })];
+    const requests = mockFetch(t, () => responses.shift()!());
+    const litellm = await freshLiteLLM();
+    await litellm.fetchRegistry();
+
+    assert.deepEqual(Object.keys(await litellm.fetchRegistry({ refresh: true })), ['chat-model']);
+    assert.equal(requests.length, 2);
+    assert.equal(litellm.getRegistryStatus().source, 'cache');
+    assert.equal(litellm.getRegistryStatus().stale, true);
+    assert.equal(litellm.getRegistryStatus().error, 'HTTP 503');
+});
+
+test('without a cache, offline loads return an empty registry and the error', async t => {
+    const requests = mockFetch(t, () => {
+        throw new TypeError('fetch failed');
+    });
+
+    const cacheOnly = await freshLiteLLM();
+    assert.deepEqual(await cacheOnly.fetchRegistry({ cacheOnly: true }), {});
+    assert.equal(requests.length, 0);
+    assert.equal(cacheOnly.getRegistryStatus().error, 'no cached registry');
+
+    const offline = await freshLiteLLM();
+    assert.deepEqual(await offline.fetchRegistry(), {});
+    assert.deepEqual(offline.getRegistryStatus(), { source: 'none', stale: false, error: 'fetch failed', modelCount: 0 });
+});
+
+test('a local registry file replaces the cache and the network', async t => {
+    const requests = mockFetch(t, fresh);
+    process.env.CLAUDE_ALIAS_REGISTRY_FILE = join(home, 'registry.json');
+    writeFileSync(process.env.CLAUDE_ALIAS_REGISTRY_FILE, JSON.stringify(REGISTRY));
+
+    const litellm = await freshLiteLLM();
+    assert.deepEqual(Object.keys(await litellm.fetchRegistry({ refresh: true })), ['chat-model']);
+    assert.equal(requests.length, 0);
+    assert.equal(litellm.getRegistryStatus().source, 'file');
+    assert.equal(litellm.readCacheMeta(), null);
+
+    writeFileSync(process.env.CLAUDE_ALIAS_REGISTRY_FILE, '{');
+    const broken = await freshLiteLLM();
+    assert.deepEqual(await broken.fetchRegistry(), {});
+    assert.equal(broken.getRegistryStatus().source, 'none');
+    assert.match(broken.getRegistryStatus().error!, /JSON/);
+});
+
+const MODELS = {
+    'deepseek/deepseek-chat': {
+        mode: 'chat', litellm_provider: 'deepseek', supports_function_calling: true, max_input_tokens: 128000,
+        max_output_tokens: 8192, input_cost_per_token: 2.7e-7, output_cost_per_token: 1.1e-6
+    },
+    'openrouter/deepseek/deepseek-chat': { mode: 'chat', litellm_provider: 'openrouter', supports_function_calling: true },
+    'tiny-model': { mode: 'chat', litellm_provider: 'example', max_input_tokens: 8000, max_tokens: 4096, supports_vision: false }
+};
+
+/**
+ * Load a fresh registry from a local file holding MODELS
+ */
+async function withModels(): Promise<LiteLLM> {
+    process.env.CLAUDE_ALIAS_REGISTRY_FILE = join(home, 'models.json');
+    writeFileSync(process.env.CLAUDE_ALIAS_REGISTRY_FILE, JSON.stringify(MODELS));
+    return freshLiteLLM();
+}
+
+test('models missing tool calling, context or vision are flagged', async () => {
+    const litellm = await withModels();
+    assert.deepEqual(litellm.getCapabilityWarnings((await litellm.getModelInfo('deepseek-chat', 'deepseek'))!), []);
+
+    const tiny = (await litellm.getModelInfo('tiny-model'))!;
+    const [tools, context, vision, ...rest] = litellm.getCapabilityWarnings(tiny);
+    assert.match(tools, /not listed as supporting tool calling/);
+    assert.match(context, /context window of 8,000 tokens; Claude Code needs at least 64,000/);
+    assert.match(vision, /does not accept images/);
+    assert.deepEqual(rest, []);
+    assert.equal(litellm.getMaxOutputTokens(tiny), 4096);
+    assert.equal(litellm.getOutputTokenWarning(tiny, 4096), null);
+    assert.match(litellm.getOutputTokenWarning(tiny, 8192)!, /exceeds tiny-model's limit of 4,096/);
+});
+
+test('search and lookups can be scoped to one provider, whose prefix is stripped from model IDs', async () => {
+    const litellm = await withModels();
+    assert.deepEqual((await litellm.searchModels('deepseek')).map(m => m.name), ['deepseek/deepseek-chat', 'openrouter/deepseek/deepseek-chat']);
+
+    const scoped = await litellm.searchModels('deepseek', 20, 'openrouter');
+    assert.deepEqual(scoped.map(m => m.name), ['openrouter/deepseek/deepseek-chat']);
+    assert.equal(litellm.getProviderModelId(scoped[0]), 'deepseek/deepseek-chat');
+
+    // The provider's own model IDs find the prefixed registry entry
+    assert.equal((await litellm.getModelInfo('deepseek-chat', 'deepseek'))?.name, 'deepseek/deepseek-chat');
+    assert.equal((await litellm.getModelInfo('deepseek/deepseek-chat', 'openrouter'))?.name, 'openrouter/deepseek/deepseek-chat');
+    assert.equal(await litellm.getModelInfo('deepseek-chat'), null);
+});
+
+test('prices are shown per million tokens', async () => {
+    const litellm = await withModels();
+    const model = (await litellm.getModelInfo('deepseek-chat', 'deepseek'))!;
+    assert.equal(litellm.formatPrice(model), '$0.27/$1.10 per 1M');
+    assert.equal(litellm.formatPrice((await litellm.getModelInfo('tiny-model'))!), null);
+    assert.equal(litellm.formatUsd(0), '$0');
+    assert.equal(litellm.formatUsd(0.0042), '$0.0042');
+    assert.equal(litellm.formatUsd(12.345), '$12.35');
+});
@@ -0,0 +1,69 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Prices come from a local registry file
+const home = mkdtempSync(join(tmpdir(), 'claude-alias-pricing-'));
+process.env.HOME = home;
+process.env.CLAUDE_ALIAS_REGISTRY_FILE = join(home, 'registry.json');
+writeFileSync(process.env.CLAUDE_ALIAS_REGISTRY_FILE, JSON.stringify({
+    'deepseek/deepseek-chat': { mode: 'chat', litellm_provider: 'deepseek', input_cost_per_token: 1e-6, output_cost_per_token: 4e-6 },
+    'deepseek/deepseek-reasoner': { mode: 'chat', litellm_provider: 'deepseek', input_cost_per_token: 2e-6, output_cost_per_token: 8e-6 }
+}));
+const pricing = await import('../../src/services/pricing.js');
+
+after(() => rmSync(home, { recursive: true, force: true }));
+
+const config = {
+    alias: 'deep',
+    provider: 'deepseek',
+    model: 'deepseek-reasoner',
+    sonnetModel: 'deepseek-chat',
+    haikuModel: 'unpriced-model'
+};
+
+test('tier models fall back to the legacy fields', () => {
+    assert.equal(pricing.getTierModel(config, 'opus'), 'deepseek-reasoner');
+    assert.equal(pricing.getTierModel({ smallFastModel: 'fast' }, 'haiku'), 'fast');
+    assert.equal(pricing.getTierModel(config, 'subagent'), undefined);
+});
+
+test('estimates split tokens across tiers by the mix and price each tier', async () => {
+    const estimate = await pricing.estimateCost(config, 10_000_000, 1_000_000);
+
+    assert.deepEqual(estimate.tiers.map(t => [t.tier, t.model, t.share]), [
+        ['opus', 'deepseek-reasoner', 0.1],
+        ['sonnet', 'deepseek-chat', 0.7],
+        ['haiku', 'unpriced-model', 0.2]
+    ]);
+    // opus: 0.1 × ($20 + $8); sonnet: 0.7 × ($10 + $4)
+    assert.equal(estimate.tiers[0].cost!.toFixed(2), '2.80');
+    assert.equal(estimate.tiers[1].cost!.toFixed(2), '9.80');
+    assert.equal(estimate.tiers[2].cost, undefined);
+    assert.equal(estimate.total.toFixed(2), '12.60');
+    assert.equal(estimate.unpricedShare, 0.2);
+    assert.deepEqual(estimate.unconfiguredTiers, []);
+});
+
+test('tiers without a model are left out and the mix renormalized', async () => {
+    const estimate = await pricing.estimateCost({ alias: 'deep', provider: 'deepseek', sonnetModel: 'deepseek-chat' }, 1_000_000, 0);
+    assert.deepEqual(estimate.tiers.map(t => [t.tier, t.share]), [['sonnet', 1]]);
+    assert.equal(estimate.total, 1);
+    assert.deepEqual(estimate.unconfiguredTiers, ['opus', 'haiku']);
+
+    const custom = await pricing.estimateCost(config, 1_000_000, 0, { opus: 0, sonnet: 1, haiku: 0, subagent: 1 });
+    assert.deepEqual(custom.unconfiguredTiers, ['subagent']);
+});
+
+test('usage is priced with cache prices falling back to the input price', async () => {
+    const cost = await pricing.priceUsage({
+        model: 'deepseek-chat', provider: 'deepseek',
+        inputTokens: 1_000_000, outputTokens: 1_000_000, cacheReadInputTokens: 1_000_000, cacheCreationInputTokens: 0
+    });
+    assert.equal(cost, 6);
+    assert.equal(await pricing.priceUsage({
+        model: 'unpriced-model', provider: 'deepseek', inputTokens: 1, outputTokens: 1, cacheReadInputTokens: 0, cacheCreationInputTokens: 0
+    }), undefined);
+});
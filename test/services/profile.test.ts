@@ -0,0 +1,185 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync, spawnSync } from 'child_process';
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ClaudeAliasConfig } from '../../src/types/index.js';
+
+// Keep the config store and script paths out of the real home directory
+const home = mkdtempSync(join(tmpdir(), 'claude-alias-profile-'));
+process.env.HOME = home;
+const profile = await import('../../src/services/profile.js');
+
+after(() => rmSync(home, { recursive: true, force: true }));
+
+const HOSTILE_ENV = {
+    SINGLE: `it's`,
+    DOUBLE: '"quoted"',
+    DOLLAR: '$HOME and ${PATH}',
+    SUBSHELL: '$(touch pwned)',
+    BACKTICK: '`touch pwned`',
+    BACKSLASH: 'C:\\path\\',
+    MIXED: `a'b"c$d\`e\\f`,
+    EMPTY: ''
+};
+
+const config = (overrides: Partial<ClaudeAliasConfig> = {}): ClaudeAliasConfig => ({
+    alias: 'rt',
+    provider: 'custom',
+    baseUrl: 'https://api.example.com/anthropic?team=a&b=$x',
+    opusModel: `opus'$(id)`,
+    sonnetModel: 'sonnet "4"',
+    haikuModel: 'haiku`x`',
+    subagentModel: 'sub\\agent',
+    maxOutputTokens: 32000,
+    useAuthToken: true,
+    skipPermissions: true,
+    customEnv: HOSTILE_ENV,
+    secretBackend: 'env',
+    createdAt: '2026-01-02T03:04:05.000Z',
+    updatedAt: '2026-02-03T04:05:06.000Z',
+    ...overrides
+});
+
+test('custom environment variables are kept in the script, except names claude-alias manages', () => {
+    const customEnv = { DEBUG: '1', HTTPS_PROXY: 'http://proxy.example.com:8080', _PRIVATE: 'with spaces' };
+    const parsed = profile.parseScriptConfig(profile.generateScript(config({ customEnv })));
+    assert.deepEqual(parsed.customEnv, customEnv);
+
+    assert.equal(profile.validateEnvVarName('HTTPS_PROXY'), true);
+    assert.match(String(profile.validateEnvVarName('')), /required/);
+    assert.match(String(profile.validateEnvVarName('1ST')), /must start with a letter or underscore/);
+    assert.match(String(profile.validateEnvVarName('MY-VAR')), /only letters, numbers, and underscores/);
+    for (const name of ['ANTHROPIC_BASE_URL', 'ANTHROPIC_API_KEY', 'CLAUDE_HOME', 'ANTHROPIC_DEFAULT_SONNET_MODEL']) {
+        assert.match(String(profile.validateEnvVarName(name)), /managed by claude-alias/, name);
+    }
+    assert.equal(profile.validateEnvVarValue(`it's "fine"`), true);
+    assert.match(String(profile.validateEnvVarValue('two\nlines')), /newlines/);
+});
+
+test('parseScriptConfig reads back what generateScript wrote', () => {
+    const original = config();
+    const parsed = profile.parseScriptConfig(profile.generateScript(original));
+
+    assert.deepEqual(parsed, {
+        baseUrl: original.baseUrl,
+        opusModel: original.opusModel,
+        sonnetModel: original.sonnetModel,
+        haikuModel: original.haikuModel,
+        subagentModel: original.subagentModel,
+        maxOutputTokens: original.maxOutputTokens,
+        customEnv: HOSTILE_ENV,
+        useAuthToken: true,
+        skipPermissions: true,
+        createdAt: original.createdAt,
+        updatedAt: original.updatedAt
+    });
+});
+
+test('optional settings left out are not read back', () => {
+    const parsed = profile.parseScriptConfig(profile.generateScript(config({
+        sonnetModel: undefined,
+        haikuModel: undefined,
+        subagentModel: undefined,
+        maxOutputTokens: undefined,
+        useAuthToken: false,
+        skipPermissions: false,
+        customEnv: undefined
+    })));
+
+    assert.equal(parsed.sonnetModel, undefined);
+    assert.equal(parsed.maxOutputTokens, undefined);
+    assert.equal(parsed.customEnv, undefined);
+    assert.equal(parsed.useAuthToken, false);
+    assert.equal(parsed.skipPermissions, false);
+});
+
+test('proxied aliases read back the provider\'s base URL, not the proxy\'s', () => {
+    const original = config({ apiFormat: 'openai', trackUsage: true });
+    const script = profile.generateScript(original);
+    assert.match(script, /claude-alias proxy 'rt'/);
+
+    const parsed = profile.parseScriptConfig(script);
+    assert.equal(parsed.baseUrl, original.baseUrl);
+    assert.equal(parsed.opusModel, original.opusModel);
+    assert.deepEqual(parsed.customEnv, HOSTILE_ENV);
+});
+
+test('values with newlines or NUL characters are refused', () => {
+    assert.throws(() => profile.generateScript(config({ customEnv: { BAD: 'a\nb' } })), /BAD: Value cannot contain newlines/);
+    assert.throws(() => profile.generateScript(config({ opusModel: 'a\rb' })), /ANTHROPIC_DEFAULT_OPUS_MODEL/);
+    assert.throws(() => profile.generateScript(config({ customEnv: { ANTHROPIC_API_KEY: 'x' } })), /managed by claude-alias/);
+});
+
+test('the generated script passes values to claude unchanged', () => {
+    // A stand-in claude that prints its environment and arguments as NUL-terminated records
+    const bin = join(home, 'bin');
+    mkdirSync(bin, { recursive: true });
+    const names = ['ANTHROPIC_BASE_URL', 'ANTHROPIC_AUTH_TOKEN', 'ANTHROPIC_DEFAULT_OPUS_MODEL', 'ANTHROPIC_DEFAULT_SONNET_MODEL',
+        'ANTHROPIC_DEFAULT_HAIKU_MODEL', 'CLAUDE_CODE_SUBAGENT_MODEL', ...Object.keys(HOSTILE_ENV)];
+    writeFileSync(join(bin, 'claude'), `#!/bin/bash\nprintf '%s\\0' ${names.map(name => `"$${name}"`).join(' ')} "$@"\n`);
+    chmodSync(join(bin, 'claude'), 0o755);
+
+    const original = config();
+    const script = join(home, 'rt');
+    writeFileSync(script, profile.generateScript(original));
+
+    const output = execFileSync('bash', [script, 'arg with $pace'], {
+        cwd: home,
+        encoding: 'utf-8',
+        env: { HOME: home, PATH: `${bin}:${process.env.PATH}`, CLAUDE_ALIAS_KEY_RT: 'sk-test' }
+    });
+
+    assert.deepEqual(output.split('\0').slice(0, -1), [
+        original.baseUrl,
+        'sk-test',
+        original.opusModel,
+        original.sonnetModel,
+        original.haikuModel,
+        original.subagentModel,
+        ...Object.values(HOSTILE_ENV),
+        '--dangerously-skip-permissions',
+        'arg with $pace'
+    ]);
+});
+
+test('a proxied alias gives claude the proxy\'s address and session token, rotates its log and shows its notices', () => {
+    const bin = join(home, 'bin-proxy');
+    mkdirSync(bin, { recursive: true });
+    writeFileSync(join(bin, 'claude'), '#!/bin/bash\nprintf \'%s\\0\' "$ANTHROPIC_BASE_URL" "$ANTHROPIC_AUTH_TOKEN"\n');
+    // A stand-in proxy that reports a fixed port, leaves a notice and waits to be stopped
+    writeFileSync(join(bin, 'claude-alias'), [
+        '#!/bin/bash',
+        'while [ $# -gt 0 ]; do',
+        '    case "$1" in --port-file) port_file=$2 ;; --notice-file) notice_file=$2 ;; esac',
+        '    shift',
+        'done',
+        'echo "Reached a cap" > "$notice_file"',
+        'echo 4321 > "$port_file"',
+        'exec sleep 30'
+    ].join('\n'));
+    chmodSync(join(bin, 'claude'), 0o755);
+    chmodSync(join(bin, 'claude-alias'), 0o755);
+
+    // An oversized proxy log is moved aside at launch
+    const claudeHome = join(home, '.claude-rt');
+    mkdirSync(claudeHome, { recursive: true });
+    writeFileSync(join(claudeHome, 'proxy.log'), 'x'.repeat(1024 * 1024 + 1));
+
+    const script = join(home, 'rt-proxy');
+    writeFileSync(script, profile.generateScript(config({ apiFormat: 'openai', skipPermissions: false })));
+    const result = spawnSync('bash', [script], {
+        cwd: home,
+        encoding: 'utf-8',
+        env: { HOME: home, PATH: `${bin}:${process.env.PATH}`, CLAUDE_ALIAS_KEY_RT: 'sk-test' }
+    });
+
+    const [baseUrl, token] = result.stdout.split('\0');
+    assert.equal(baseUrl, 'http://127.0.0.1:4321');
+    assert.match(token, /^[0-9a-f]{32}$/);
+    assert.equal(statSync(join(claudeHome, 'proxy.log.1')).size, 1024 * 1024 + 1);
+    assert.equal(statSync(join(claudeHome, 'proxy.log')).size, 0);
+    // Notices from the proxy are shown once claude exits
+    assert.equal(result.stderr, '⚠️  Reached a cap\n');
+});
@@ -0,0 +1,65 @@
+import { test, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+// The user's presets file lives under the home directory
+const home = mkdtempSync(join(tmpdir(), 'claude-alias-providers-'));
+process.env.HOME = home;
+const providers = await import('../../src/services/providers.js');
+
+after(() => rmSync(home, { recursive: true, force: true }));
+
+beforeEach(() => rmSync(providers.getProvidersPath(), { force: true }));
+
+const writePresets = (presets: unknown) => {
+    mkdirSync(dirname(providers.getProvidersPath()), { recursive: true });
+    writeFileSync(providers.getProvidersPath(), JSON.stringify(presets));
+};
+
+test('built-in presets are valid and keyed by value', () => {
+    const presets = providers.getPresets();
+    assert.ok(presets.length > 0);
+    for (const preset of presets) {
+        assert.match(preset.value, /^[\w-]+$/);
+        assert.doesNotThrow(() => new URL(preset.baseUrl), preset.value);
+    }
+    assert.equal(providers.getPreset('deepseek')?.litellmProvider, 'deepseek');
+    assert.equal(providers.getPreset('custom-thing'), undefined);
+});
+
+test('user presets override single fields of built-in ones and add new providers', () => {
+    const builtin = providers.getPreset('deepseek')!;
+    writePresets({
+        deepseek: { models: { haiku: 'deepseek-lite' } },
+        internal: { name: 'Internal gateway', baseUrl: 'https://llm.internal.example.com', authHeader: 'api-key', requiredEnv: { TEAM: '' } }
+    });
+
+    const deepseek = providers.getPreset('deepseek')!;
+    assert.equal(deepseek.baseUrl, builtin.baseUrl);
+    assert.deepEqual(deepseek.models, { ...builtin.models, haiku: 'deepseek-lite' });
+
+    const presets = providers.getPresets();
+    assert.equal(presets.at(-1)?.value, 'internal');
+    assert.deepEqual(presets.at(-1)?.requiredEnv, { TEAM: '' });
+});
+
+test('invalid user presets are reported with the file and entry', () => {
+    const rejects = (presets: unknown, message: RegExp) => {
+        writePresets(presets);
+        assert.throws(() => providers.getPresets(), message);
+    };
+
+    rejects([], /must contain an object of presets keyed by provider name/);
+    rejects({ internal: 'https://x.example.com' }, /Invalid provider preset 'internal' in .*providers\.json: expected an object/);
+    rejects({ internal: { name: 'Internal' } }, /'internal'.*"baseUrl" is required/);
+    rejects({ internal: { name: 'Internal', baseUrl: 'nowhere' } }, /"baseUrl" is not a valid URL: nowhere/);
+    rejects({ deepseek: { apiFormat: 'grpc' } }, /'deepseek'.*"apiFormat" must be/);
+    rejects({ deepseek: { models: { large: 'x' } } }, /unknown model tier "large"/);
+    rejects({ deepseek: { requiredEnv: { ANTHROPIC_API_KEY: 'x' } } }, /requiredEnv: /);
+    rejects({ 'bad key': { name: 'x', baseUrl: 'https://x.example.com' } }, /preset keys must contain only/);
+
+    // Registry lookups keep working from the built-in presets
+    assert.equal(providers.getLitellmProvider('deepseek'), 'deepseek');
+});
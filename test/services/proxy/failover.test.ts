@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCircuitBreaker, isRetryableStatus, mapModel } from '../../../src/services/proxy/failover.js';
+
+const OPEN_MS = 60_000;
+
+test('three consecutive failures open an upstream\'s circuit and move it to the back', t => {
+    let now = 1_000_000;
+    t.mock.method(Date, 'now', () => now);
+    const breaker = createCircuitBreaker(3);
+
+    assert.equal(breaker.recordFailure(0), false);
+    assert.equal(breaker.recordFailure(0), false);
+    assert.deepEqual(breaker.order(), [0, 1, 2]);
+
+    assert.equal(breaker.recordFailure(0), true);
+    assert.equal(breaker.isOpen(0), true);
+    assert.deepEqual(breaker.order(), [1, 2, 0]);
+
+    // Failing again while open does not report a newly opened circuit
+    assert.equal(breaker.recordFailure(0), false);
+
+    now += OPEN_MS - 1;
+    assert.equal(breaker.isOpen(0), true);
+});
+
+test('after the open period one request is let through, and a failure re-opens at once', t => {
+    let now = 1_000_000;
+    t.mock.method(Date, 'now', () => now);
+    const breaker = createCircuitBreaker(2);
+    for (let i = 0; i < 3; i++) breaker.recordFailure(0);
+
+    now += OPEN_MS + 1;
+    assert.equal(breaker.isOpen(0), false);
+    assert.deepEqual(breaker.order(), [0, 1]);
+
+    assert.equal(breaker.recordFailure(0), true);
+    assert.equal(breaker.isOpen(0), true);
+    assert.deepEqual(breaker.order(), [1, 0]);
+});
+
+test('a success in the half-open state closes the circuit and resets the count', t => {
+    let now = 1_000_000;
+    t.mock.method(Date, 'now', () => now);
+    const breaker = createCircuitBreaker(2);
+    for (let i = 0; i < 3; i++) breaker.recordFailure(1);
+
+    now += OPEN_MS + 1;
+    breaker.recordSuccess(1);
+    assert.equal(breaker.recordFailure(1), false);
+    assert.equal(breaker.recordFailure(1), false);
+    assert.equal(breaker.isOpen(1), false);
+    assert.equal(breaker.recordFailure(1), true);
+});
+
+test('failures separated by successes never open the circuit', () => {
+    const breaker = createCircuitBreaker(1);
+    for (let i = 0; i < 10; i++) {
+        breaker.recordFailure(0);
+        breaker.recordFailure(0);
+        breaker.recordSuccess(0);
+    }
+    assert.equal(breaker.isOpen(0), false);
+});
+
+test('rate limits, overload and server errors fail over; client errors do not', () => {
+    for (const status of [429, 500, 502, 503, 529]) assert.equal(isRetryableStatus(status), true, String(status));
+    for (const status of [200, 400, 401, 403, 404, 413]) assert.equal(isRetryableStatus(status), false, String(status));
+});
+
+test('mapModel swaps tier models for the upstream\'s', () => {
+    const alias = { opusModel: 'big', sonnetModel: 'mid', haikuModel: 'small', subagentModel: 'agent' };
+    const fallback = { opusModel: 'other-big', sonnetModel: 'other-mid', haikuModel: 'other-small', subagentModel: 'other-agent' };
+
+    assert.equal(mapModel('big', alias, fallback), 'other-big');
+    assert.equal(mapModel('mid', alias, fallback), 'other-mid');
+    assert.equal(mapModel('small', alias, fallback), 'other-small');
+    assert.equal(mapModel('agent', alias, fallback), 'other-agent');
+    assert.equal(mapModel('unrelated', alias, fallback), 'unrelated');
+});
+
+test('mapModel falls back to the sonnet model, and reads legacy fields', () => {
+    assert.equal(mapModel('small', { haikuModel: 'small' }, { sonnetModel: 'only-one' }), 'only-one');
+    assert.equal(mapModel('small', { haikuModel: 'small' }, {}), 'small');
+    assert.equal(mapModel('legacy-big', { model: 'legacy-big' }, { opusModel: 'new-big' }), 'new-big');
+    assert.equal(mapModel('fast', { smallFastModel: 'fast' }, { smallFastModel: 'other-fast' }), 'other-fast');
+    // The first matching tier wins when an alias uses one model for several
+    assert.equal(mapModel('same', { opusModel: 'same', sonnetModel: 'same' }, { opusModel: 'a', sonnetModel: 'b' }), 'a');
+});
@@ -0,0 +1,206 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startProxy, type ProxyHandle } from '../../../src/services/proxy/server.js';
+import { startStubServer, sendJson, type StubServer } from '../../helpers/server.js';
+import type { UsageRecord } from '../../../src/types/index.js';
+
+const TOKEN = 'proxy-token';
+
+let upstream: StubServer;
+let proxy: ProxyHandle;
+const usage: UsageRecord[] = [];
+
+// A tool call streamed the way OpenAI-compatible providers do: name first, arguments in pieces
+const STREAM_CHUNKS = [
+    { id: 'chatcmpl-2', choices: [{ index: 0, delta: { role: 'assistant', content: 'Let me look.' } }] },
+    { id: 'chatcmpl-2', choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '' } }] } }] },
+    { id: 'chatcmpl-2', choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '{"path":' } }] } }] },
+    { id: 'chatcmpl-2', choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"a.txt"}' } }] } }] },
+    { id: 'chatcmpl-2', choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] },
+    { id: 'chatcmpl-2', choices: [], usage: { prompt_tokens: 40, completion_tokens: 9 } }
+];
+
+before(async () => {
+    upstream = await startStubServer(async (req, res) => {
+        const { model, stream } = JSON.parse(req.body);
+        if (model === 'rate-limited') {
+            return sendJson(res, 429, { error: { message: 'Rate limit reached for requests', type: 'requests' } });
+        }
+        if (model === 'broken') {
+            res.writeHead(500, { 'content-type': 'text/html' });
+            res.end('<html>Internal Server Error</html>');
+            return;
+        }
+        if (stream) {
+            res.writeHead(200, { 'content-type': 'text/event-stream' });
+            for (const chunk of STREAM_CHUNKS) {
+                res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+                await new Promise(resolve => setTimeout(resolve, 5));
+            }
+            res.write('data: [DONE]\n\n');
+            res.end();
+            return;
+        }
+        sendJson(res, 200, {
+            id: 'chatcmpl-1',
+            choices: [{ index: 0, message: { role: 'assistant', content: 'Hello!' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 12, completion_tokens: 3, prompt_tokens_details: { cached_tokens: 2 } }
+        });
+    });
+
+    proxy = await startProxy({
+        upstreams: [{ name: 'fake', config: { baseUrl: `${upstream.url}/v1`, apiFormat: 'openai' }, apiKey: 'sk-upstream' }],
+        token: TOKEN,
+        onUsage: record => usage.push(record)
+    });
+});
+
+after(async () => {
+    await proxy.close();
+    await upstream.close();
+});
+
+const send = (body: object, token = TOKEN) => fetch(`${proxy.url}/v1/messages`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-api-key': token },
+    body: JSON.stringify(body)
+});
+
+/**
+ * Split an SSE body into its events' data
+ */
+const parseEvents = (text: string) => text.split('\n\n')
+    .filter(Boolean)
+    .map(event => JSON.parse(event.split('\n').find(line => line.startsWith('data: '))!.slice(6)));
+
+test('a non-streaming reply is translated to a Messages response', async () => {
+    const response = await send({ model: 'gpt-x', max_tokens: 100, system: 'Be brief.', messages: [{ role: 'user', content: 'Hi' }] });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), {
+        id: 'msg_chatcmpl-1',
+        type: 'message',
+        role: 'assistant',
+        model: 'gpt-x',
+        content: [{ type: 'text', text: 'Hello!' }],
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 3, cache_read_input_tokens: 2 }
+    });
+
+    const sent = upstream.requests.at(-1)!;
+    assert.equal(sent.url, '/v1/chat/completions');
+    assert.equal(sent.headers.authorization, 'Bearer sk-upstream');
+    assert.deepEqual(JSON.parse(sent.body).messages, [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' }
+    ]);
+    assert.deepEqual(usage.at(-1), {
+        ...usage.at(-1),
+        model: 'gpt-x',
+        provider: 'fake',
+        status: 200,
+        inputTokens: 10,
+        outputTokens: 3,
+        cacheReadInputTokens: 2
+    });
+});
+
+test('streamed tool call deltas become tool_use blocks with input_json_delta events', async () => {
+    const response = await send({ model: 'gpt-x', max_tokens: 100, stream: true, messages: [{ role: 'user', content: 'Read a.txt' }] });
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type')!, /text\/event-stream/);
+    assert.equal(JSON.parse(upstream.requests.at(-1)!.body).stream_options.include_usage, true);
+
+    const events = parseEvents(await response.text());
+    assert.deepEqual(events.map(event => event.type), [
+        'message_start',
+        'content_block_start', 'content_block_delta', 'content_block_stop',
+        'content_block_start', 'content_block_delta', 'content_block_delta', 'content_block_stop',
+        'message_delta', 'message_stop'
+    ]);
+
+    assert.deepEqual(events[1].content_block, { type: 'text', text: '' });
+    assert.deepEqual(events[2].delta, { type: 'text_delta', text: 'Let me look.' });
+    assert.deepEqual(events[4], {
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'tool_use', id: 'call_1', name: 'read_file', input: {} }
+    });
+    const json = events.filter(event => event.delta?.type === 'input_json_delta').map(event => event.delta.partial_json).join('');
+    assert.deepEqual(JSON.parse(json), { path: 'a.txt' });
+    assert.deepEqual(events[8].delta, { stop_reason: 'tool_use', stop_sequence: null });
+    assert.deepEqual(events[8].usage, { input_tokens: 40, output_tokens: 9 });
+    assert.equal(usage.at(-1)?.outputTokens, 9);
+});
+
+test('tool calls and results are sent as assistant tool_calls and tool messages', async () => {
+    await send({
+        model: 'gpt-x',
+        max_tokens: 100,
+        messages: [
+            { role: 'user', content: 'Read a.txt and b.txt' },
+            {
+                role: 'assistant',
+                content: [
+                    { type: 'text', text: 'Reading.' },
+                    { type: 'tool_use', id: 'call_1', name: 'read_file', input: { path: 'a.txt' } },
+                    { type: 'tool_use', id: 'call_2', name: 'read_file', input: { path: 'b.txt' } }
+                ]
+            },
+            {
+                role: 'user',
+                content: [
+                    { type: 'tool_result', tool_use_id: 'call_1', content: [{ type: 'text', text: 'contents of a' }] },
+                    { type: 'tool_result', tool_use_id: 'call_2', content: 'no such file', is_error: true },
+                    { type: 'text', text: 'Summarize them.' }
+                ]
+            }
+        ],
+        tools: [
+            { name: 'read_file', description: 'Read a file', input_schema: { type: 'object', properties: { path: { type: 'string' } } } },
+            { name: 'web_search', type: 'web_search_20250305' }
+        ]
+    });
+
+    const sent = JSON.parse(upstream.requests.at(-1)!.body);
+    assert.deepEqual(sent.messages.slice(1), [
+        {
+            role: 'assistant',
+            content: 'Reading.',
+            tool_calls: [
+                { id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.txt"}' } },
+                { id: 'call_2', type: 'function', function: { name: 'read_file', arguments: '{"path":"b.txt"}' } }
+            ]
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'contents of a' },
+        { role: 'tool', tool_call_id: 'call_2', content: 'Error: no such file' },
+        { role: 'user', content: 'Summarize them.' }
+    ]);
+    // Server tools cannot run at the provider and are dropped
+    assert.deepEqual(sent.tools.map((tool: { function: { name: string } }) => tool.function.name), ['read_file']);
+});
+
+test('a wrong proxy token is refused without contacting the provider', async () => {
+    const before = upstream.requests.length;
+    const response = await send({ model: 'gpt-x', messages: [{ role: 'user', content: 'Hi' }] }, 'wrong-token');
+
+    assert.equal(response.status, 401);
+    assert.deepEqual(await response.json(), { type: 'error', error: { type: 'authentication_error', message: 'Invalid proxy token' } });
+    assert.equal(upstream.requests.length, before);
+});
+
+test('provider errors are translated to Anthropic errors', async () => {
+    const limited = await send({ model: 'rate-limited', messages: [{ role: 'user', content: 'Hi' }] });
+    assert.equal(limited.status, 429);
+    assert.deepEqual(await limited.json(), { type: 'error', error: { type: 'rate_limit_error', message: 'Rate limit reached for requests' } });
+    assert.equal(usage.at(-1)?.status, 429);
+
+    const broken = await send({ model: 'broken', messages: [{ role: 'user', content: 'Hi' }] });
+    assert.equal(broken.status, 500);
+    assert.deepEqual(await broken.json(), { type: 'error', error: { type: 'api_error', message: '<html>Internal Server Error</html>' } });
+
+    const invalid = await fetch(`${proxy.url}/v1/messages`, { method: 'POST', headers: { 'x-api-key': TOKEN }, body: '{"model":' });
+    assert.equal(invalid.status, 400);
+    assert.equal((await invalid.json() as { error: { type: string } }).error.type, 'invalid_request_error');
+});
@@ -0,0 +1,164 @@
+import { test, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { installFakeClis } from '../../helpers/fake-secrets-cli.js';
+import type { ClaudeAliasConfig } from '../../../src/types/index.js';
+
+// Fake pass/op/bw executables, each running the shared stand-in with its name
+const root = mkdtempSync(join(tmpdir(), 'claude-alias-backends-'));
+const fakeBin = installFakeClis(join(root, 'bin'));
+const emptyBin = join(root, 'empty');
+mkdirSync(emptyBin);
+
+process.env.HOME = root;
+process.env.FAKE_VAULT_DIR = root;
+process.env.PASSWORD_STORE_DIR = join(root, 'store');
+const originalPath = process.env.PATH;
+
+const pass = await import('../../../src/services/secrets/pass.js');
+const onePassword = await import('../../../src/services/secrets/onepassword.js');
+const bitwarden = await import('../../../src/services/secrets/bitwarden.js');
+const secrets = await import('../../../src/services/secrets/index.js');
+const configStore = await import('../../../src/services/config.js');
+
+const BACKENDS = { pass, '1password': onePassword, bitwarden };
+
+after(() => {
+    process.env.PATH = originalPath;
+    rmSync(root, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+    process.env.PATH = `${fakeBin}:${originalPath}`;
+    delete process.env.FAKE_LOCKED;
+    delete process.env.FAKE_FAIL;
+    rmSync(join(root, 'vault.json'), { force: true });
+    rmSync(join(root, 'store'), { recursive: true, force: true });
+});
+
+const vault = (): { id: string; title?: string; name?: string }[] => JSON.parse(readFileSync(join(root, 'vault.json'), 'utf-8'));
+
+for (const [name, backend] of Object.entries(BACKENDS)) {
+    test(`${name}: keys are saved, read, replaced and deleted`, async () => {
+        assert.equal(await backend.isAvailable(), true);
+        assert.equal(await backend.getApiKey('work'), null);
+
+        assert.equal(await backend.setApiKey('work', 'sk-first'), true);
+        assert.equal(await backend.getApiKey('work'), 'sk-first');
+        assert.equal(await backend.setApiKey('work', 'sk-second'), true);
+        assert.equal(await backend.getApiKey('work'), 'sk-second');
+        assert.deepEqual(await backend.listAliases(), ['work']);
+
+        assert.equal(await backend.deleteApiKey('work'), true);
+        assert.equal(await backend.getApiKey('work'), null);
+        assert.equal(await backend.deleteApiKey('work'), true);
+    });
+
+    test(`${name}: a locked vault reads no key and refuses to save`, async t => {
+        t.mock.method(console, 'error', () => {});
+        assert.equal(await backend.setApiKey('work', 'sk-kept'), true);
+
+        process.env.FAKE_LOCKED = '1';
+        assert.equal(await backend.getApiKey('work'), null);
+        assert.equal(await backend.setApiKey('work', 'sk-new'), false);
+
+        delete process.env.FAKE_LOCKED;
+        assert.equal(await backend.getApiKey('work'), 'sk-kept');
+    });
+
+    test(`${name}: a missing CLI is reported as unavailable`, async t => {
+        t.mock.method(console, 'error', () => {});
+        process.env.PATH = emptyBin;
+        assert.equal(await backend.isAvailable(), false);
+        assert.equal(await backend.getApiKey('work'), null);
+        assert.equal(await backend.setApiKey('work', 'sk-test'), false);
+    });
+}
+
+test('1password: a failed create keeps the old item', async t => {
+    const errors = t.mock.method(console, 'error', () => {});
+    await onePassword.setApiKey('work', 'sk-old');
+
+    process.env.FAKE_FAIL = 'create';
+    assert.equal(await onePassword.setApiKey('work', 'sk-new'), false);
+    assert.match(String(errors.mock.calls[0].arguments[1]), /op item create failed/);
+
+    delete process.env.FAKE_FAIL;
+    assert.equal(await onePassword.getApiKey('work'), 'sk-old');
+    assert.equal(vault().length, 1);
+});
+
+test('1password: a replaced item is deleted only after the new one exists', async t => {
+    const errors = t.mock.method(console, 'error', () => {});
+    await onePassword.setApiKey('work', 'sk-old');
+    const [old] = vault();
+
+    process.env.FAKE_FAIL = 'delete';
+    assert.equal(await onePassword.setApiKey('work', 'sk-new'), false);
+    assert.match(String(errors.mock.calls[0].arguments[1]), new RegExp(`old one \\(${old.id}\\) could not be deleted`));
+    assert.equal(vault().length, 2);
+});
+
+test('1password: deleting removes every item with the alias\'s title', async t => {
+    const errors = t.mock.method(console, 'error', () => {});
+    await onePassword.setApiKey('work', 'sk-old');
+    process.env.FAKE_FAIL = 'delete';
+    await onePassword.setApiKey('work', 'sk-new');
+    assert.equal(vault().length, 2);
+
+    assert.equal(await onePassword.deleteApiKey('work'), false);
+    assert.match(String(errors.mock.calls.at(-1)!.arguments[1]), /op item delete failed/);
+
+    delete process.env.FAKE_FAIL;
+    assert.equal(await onePassword.deleteApiKey('work'), true);
+    assert.equal(vault().length, 0);
+    assert.equal(await onePassword.getApiKey('work'), null);
+
+    await onePassword.setApiKey('work', 'sk-kept');
+    process.env.FAKE_LOCKED = '1';
+    assert.equal(await onePassword.deleteApiKey('work'), false);
+    delete process.env.FAKE_LOCKED;
+    assert.equal(await onePassword.getApiKey('work'), 'sk-kept');
+});
+
+test('bitwarden: aliases whose item names share a prefix are kept apart', async () => {
+    await bitwarden.setApiKey('foo2', 'sk-foo2');
+    await bitwarden.setApiKey('foo', 'sk-foo');
+    assert.equal(await bitwarden.getApiKey('foo'), 'sk-foo');
+    assert.equal(await bitwarden.getApiKey('foo2'), 'sk-foo2');
+
+    await bitwarden.setApiKey('foo', 'sk-foo-new');
+    assert.equal(await bitwarden.getApiKey('foo2'), 'sk-foo2');
+
+    await bitwarden.deleteApiKey('foo');
+    assert.equal(await bitwarden.getApiKey('foo'), null);
+    assert.deepEqual(vault().map(item => item.name), ['claude-alias-foo2']);
+
+    // Generated scripts avoid "bw get", which searches the same way
+    assert.equal(bitwarden.getRetrievalCommand('foo'), `claude-alias get-key 'foo' 2>/dev/null`);
+});
+
+test('env: aliases that map to the same variable cannot both use the env backend', () => {
+    const config = (alias: string, secretBackend?: ClaudeAliasConfig['secretBackend']): ClaudeAliasConfig => ({
+        alias,
+        provider: 'custom',
+        baseUrl: 'https://example.com',
+        secretBackend,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z'
+    });
+    configStore.saveAliasConfig(config('my-alias', 'env'));
+    configStore.saveAliasConfig(config('other', 'pass'));
+
+    for (const alias of ['my_alias', 'My-Alias', 'MY_ALIAS']) {
+        assert.equal(secrets.getEnvVarName(alias), 'CLAUDE_ALIAS_KEY_MY_ALIAS');
+        assert.match(secrets.validateAliasBackend(alias, 'env') as string, /'my-alias' already reads its key from CLAUDE_ALIAS_KEY_MY_ALIAS/);
+        assert.equal(secrets.validateAliasBackend(alias, 'pass'), true);
+    }
+
+    // Editing the alias itself, or one whose twin uses another backend, is fine
+    assert.equal(secrets.validateAliasBackend('my-alias', 'env'), true);
+    assert.equal(secrets.validateAliasBackend('OTHER', 'env'), true);
+});
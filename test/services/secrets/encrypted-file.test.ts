@@ -0,0 +1,155 @@
+import { test, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCipheriv, randomBytes, scryptSync } from 'crypto';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+// The secrets file lives under the home directory, which is fixed when the module loads
+const home = mkdtempSync(join(tmpdir(), 'claude-alias-secrets-'));
+process.env.HOME = home;
+delete process.env.CLAUDE_ALIAS_MASTER_PASSPHRASE;
+const encryptedFile = await import('../../../src/services/secrets/encrypted-file.js');
+const settings = await import('../../../src/services/settings.js');
+
+// Never touch the real kernel keyring
+settings.saveSettings({ secretsUnlockMinutes: 0 });
+
+const FILE = encryptedFile.getSecretsFilePath();
+const SECRETS = { work: 'sk-work', 'my-alias': `sk-'"$x` };
+// Cheapest cost the file accepts, to keep the tests fast
+const PARAMS = { N: 2 ** 14, r: 8, p: 1 };
+
+after(() => rmSync(home, { recursive: true, force: true }));
+
+beforeEach(() => {
+    encryptedFile.lock();
+    rmSync(FILE, { force: true });
+    delete process.env.CLAUDE_ALIAS_MASTER_PASSPHRASE;
+});
+
+/**
+ * Write a file the way claude-alias did before file headers existed
+ */
+function writeV1File(secrets: Record<string, string>): void {
+    const machineId = ['/etc/machine-id', '/var/lib/dbus/machine-id']
+        .filter(path => existsSync(path))
+        .map(path => readFileSync(path, 'utf-8').trim())[0] ?? 'default-machine-id';
+    const key = scryptSync(machineId, `claude-alias-${process.getuid?.() || 'user'}`, 32);
+    const iv = randomBytes(16);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const encrypted = cipher.update(JSON.stringify(secrets), 'utf-8', 'hex') + cipher.final('hex');
+
+    mkdirSync(dirname(FILE), { recursive: true });
+    writeFileSync(FILE, `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted}\n`);
+}
+
+const header = () => readFileSync(FILE, 'utf-8').split('\n')[0];
+const replaceHeader = (line: string) => {
+    const [, ...rest] = readFileSync(FILE, 'utf-8').split('\n');
+    writeFileSync(FILE, [line, ...rest].join('\n'));
+};
+
+test('new files use the machine key and the current format', async () => {
+    await encryptedFile.writeSecrets(SECRETS);
+    assert.equal(header(), '# claude-alias-secrets v2 mode=machine');
+    assert.deepEqual(await encryptedFile.readSecrets(), SECRETS);
+});
+
+test('v1 files are still read and are upgraded by migrate', async () => {
+    writeV1File(SECRETS);
+    assert.equal(encryptedFile.getFileInfo()?.version, 1);
+    assert.deepEqual(await encryptedFile.readSecrets(), SECRETS);
+
+    assert.equal(await encryptedFile.migrate('machine'), 2);
+    assert.equal(encryptedFile.getFileInfo()?.version, 2);
+    assert.deepEqual(await encryptedFile.readSecrets(), SECRETS);
+});
+
+test('migrating to a passphrase needs the passphrase to read the file again', async () => {
+    writeV1File(SECRETS);
+    await encryptedFile.migrate('passphrase', 'correct horse', PARAMS);
+
+    const info = encryptedFile.getFileInfo();
+    assert.equal(info?.mode, 'passphrase');
+    assert.deepEqual(info?.params, PARAMS);
+    assert.match(header(), /^# claude-alias-secrets v2 mode=passphrase N=16384 r=8 p=1 salt=\S+$/);
+    assert.doesNotMatch(readFileSync(FILE, 'utf-8'), /sk-work/);
+
+    // This process keeps the key it just derived
+    assert.deepEqual(await encryptedFile.readSecrets(), SECRETS);
+
+    encryptedFile.lock();
+    process.env.CLAUDE_ALIAS_MASTER_PASSPHRASE = 'wrong horse';
+    await assert.rejects(encryptedFile.readSecrets(), /does not unlock the secrets file/);
+
+    process.env.CLAUDE_ALIAS_MASTER_PASSPHRASE = 'correct horse';
+    await encryptedFile.writeSecrets({ ...SECRETS, extra: 'sk-extra' });
+    encryptedFile.lock();
+    assert.deepEqual(await encryptedFile.readSecrets(), { ...SECRETS, extra: 'sk-extra' });
+
+    // And back to the machine key
+    await encryptedFile.migrate('machine');
+    delete process.env.CLAUDE_ALIAS_MASTER_PASSPHRASE;
+    encryptedFile.lock();
+    assert.equal(encryptedFile.getFileInfo()?.mode, 'machine');
+    assert.equal(Object.keys(await encryptedFile.readSecrets()).length, 3);
+});
+
+test('a failed write leaves the previous file in place', async () => {
+    await encryptedFile.writeSecrets(SECRETS);
+    const before = readFileSync(FILE, 'utf-8');
+
+    // A directory where the temporary file would go makes the write fail
+    const tempFile = `${FILE}.${process.pid}.tmp`;
+    mkdirSync(tempFile);
+    await assert.rejects(encryptedFile.writeSecrets({ other: 'sk-other' }));
+    rmSync(tempFile, { recursive: true });
+
+    assert.equal(readFileSync(FILE, 'utf-8'), before);
+    assert.deepEqual(await encryptedFile.readSecrets(), SECRETS);
+});
+
+test('migrating to a passphrase without one keeps the file unlocked', async () => {
+    await encryptedFile.writeSecrets(SECRETS);
+    await encryptedFile.migrate('passphrase', 'correct horse', PARAMS);
+
+    await assert.rejects(encryptedFile.migrate('passphrase'), /master passphrase is required/);
+    assert.deepEqual(await encryptedFile.readSecrets(), SECRETS);
+});
+
+test('a modified header fails authentication', async () => {
+    await encryptedFile.writeSecrets(SECRETS);
+    replaceHeader(`${header()} note=edited`);
+    await assert.rejects(encryptedFile.readSecrets());
+    rmSync(FILE);
+
+    // Swapping a passphrase file's salt or cost changes the key, so the passphrase no longer unlocks it
+    await encryptedFile.migrate('passphrase', 'correct horse', PARAMS);
+    process.env.CLAUDE_ALIAS_MASTER_PASSPHRASE = 'correct horse';
+    const original = header();
+    replaceHeader(original.replace('N=16384', 'N=32768'));
+    encryptedFile.lock();
+    await assert.rejects(encryptedFile.readSecrets(), /does not unlock/);
+
+    replaceHeader(original.replace('mode=passphrase', 'mode=machine'));
+    encryptedFile.lock();
+    await assert.rejects(encryptedFile.readSecrets());
+});
+
+test('headers asking for too much scrypt memory are refused before deriving a key', async () => {
+    await encryptedFile.migrate('passphrase', 'correct horse', PARAMS);
+    replaceHeader(header().replace('N=16384 r=8', 'N=4194304 r=32'));
+    process.env.CLAUDE_ALIAS_MASTER_PASSPHRASE = 'correct horse';
+    encryptedFile.lock();
+    await assert.rejects(encryptedFile.readSecrets(), /invalid key derivation settings/);
+});
+
+test('scrypt parameters are bounded to 256 MiB', () => {
+    assert.equal(encryptedFile.validateScryptParams(encryptedFile.DEFAULT_SCRYPT_PARAMS), true);
+    assert.equal(encryptedFile.validateScryptParams({ N: 2 ** 18, r: 8, p: 1 }), true);
+    assert.match(encryptedFile.validateScryptParams({ N: 2 ** 19, r: 8, p: 1 }) as string, /needs 512 MiB; the limit is 256 MiB/);
+    assert.match(encryptedFile.validateScryptParams({ N: 2 ** 22, r: 1, p: 1 }) as string, /limit is 256 MiB/);
+    assert.match(encryptedFile.validateScryptParams({ N: 3000, r: 8, p: 1 }) as string, /power of two/);
+    assert.match(encryptedFile.validateScryptParams({ N: 2 ** 14, r: 64, p: 1 }) as string, /r must be 1-32/);
+});
@@ -0,0 +1,123 @@
+import { test, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Shell profiles and settings live under the home directory
+const home = mkdtempSync(join(tmpdir(), 'claude-alias-shell-'));
+process.env.HOME = home;
+process.env.SHELL = '/bin/bash';
+delete process.env.ZDOTDIR;
+const shell = await import('../../src/services/shell.js');
+const settings = await import('../../src/services/settings.js');
+
+after(() => rmSync(home, { recursive: true, force: true }));
+
+beforeEach(() => {
+    rmSync(join(home, '.bashrc'), { force: true });
+    rmSync(join(home, '.zshrc'), { force: true });
+    rmSync(join(home, '.config'), { recursive: true, force: true });
+});
+
+const BASHRC = join(home, '.bashrc');
+const ZSHRC = join(home, '.zshrc');
+const FISH_CONF = join(home, '.config', 'fish', 'conf.d', 'claude-alias.fish');
+const SCRIPT = join(home, '.local', 'bin', 'claude-work');
+
+const existsIn = (path: string, text: string): boolean => readFileSync(path, 'utf-8').includes(text);
+
+// Arguments that need quoting differently in POSIX shells and fish
+const HOSTILE_ARGS = ['--append-system-prompt', `it's "quoted" $HOME \\ done`, '--flag'];
+
+test('fish aliases are functions in their own conf.d file and read back unchanged', () => {
+    assert.equal(shell.getProfilePath('fish'), FISH_CONF);
+    assert.equal(shell.addAlias('work', SCRIPT, HOSTILE_ARGS, 'fish'), true);
+    assert.equal(shell.addAlias('personal', join(home, '.local', 'bin', 'claude-personal'), [], 'fish'), true);
+
+    const content = readFileSync(FISH_CONF, 'utf-8');
+    assert.match(content, /^function work --wraps claude-work --description 'claude-alias: work'\n {4}claude-work .* \$argv\nend$/m);
+    assert.deepEqual(shell.listManagedAliases('fish').map(a => [a.name, a.args]), [['work', HOSTILE_ARGS], ['personal', []]]);
+    assert.equal(shell.aliasExists('work', 'fish'), true);
+
+    // Editing an alias rewrites its function in place
+    shell.addAlias('work', SCRIPT, ['--verbose'], 'fish');
+    assert.deepEqual(shell.listManagedAliases('fish').map(a => a.command), ['claude-work --verbose', 'claude-personal']);
+
+    shell.removeAlias('work', 'fish');
+    assert.deepEqual(shell.listManagedAliases('fish').map(a => a.name), ['personal']);
+    assert.equal(existsIn(FISH_CONF, 'function work'), false);
+});
+
+test('fish definitions outside the managed file are found but left alone', () => {
+    shell.addAlias('work', SCRIPT, [], 'fish');
+    writeFileSync(FISH_CONF, readFileSync(FISH_CONF, 'utf-8') + `alias mine 'claude --model x'\n`);
+
+    assert.equal(shell.aliasExists('mine', 'fish'), true);
+    assert.deepEqual(shell.listAllClaudeAliases('fish').map(a => a.name), ['mine', 'work']);
+    assert.deepEqual(shell.listManagedAliases('fish').map(a => a.name), ['work']);
+});
+
+test('aliases are added to and removed from every configured profile', () => {
+    settings.updateSettings({ shellProfiles: ['~/.bashrc', '~/.zshrc', '~/.config/fish/conf.d/claude-alias.fish', '~/notes.txt'] });
+    assert.deepEqual(shell.getTargetProfiles().map(t => [t.path, t.shell]), [[BASHRC, 'bash'], [ZSHRC, 'zsh'], [FISH_CONF, 'fish']]);
+
+    writeFileSync(ZSHRC, 'export EDITOR=vim\n');
+    assert.equal(shell.addAlias('work', SCRIPT, ['--verbose']), true);
+    for (const path of [BASHRC, ZSHRC, FISH_CONF]) {
+        assert.equal(existsIn(path, 'claude-work --verbose'), true, path);
+    }
+    assert.equal(existsIn(ZSHRC, 'export EDITOR=vim'), true);
+    assert.deepEqual(shell.detectDrift(), []);
+
+    assert.equal(shell.removeAlias('work'), true);
+    for (const path of [BASHRC, ZSHRC, FISH_CONF]) {
+        assert.equal(existsIn(path, 'claude-work'), false, path);
+    }
+    assert.equal(readFileSync(ZSHRC, 'utf-8'), 'export EDITOR=vim\n');
+});
+
+test('profiles that fall out of sync are reported and brought back in line', () => {
+    settings.updateSettings({ shellProfiles: ['~/.bashrc', '~/.zshrc', '~/.config/fish/conf.d/claude-alias.fish'] });
+    shell.addAlias('work', SCRIPT);
+    shell.addAlias('personal', join(home, '.local', 'bin', 'claude-personal'));
+
+    // Another tool edits one profile and drops an alias from another
+    shell.addAlias('work', SCRIPT, ['--verbose'], 'zsh');
+    shell.removeAlias('personal', 'fish');
+
+    assert.deepEqual(shell.detectDrift(), [
+        { path: ZSHRC, missing: [], different: ['work'] },
+        { path: FISH_CONF, missing: ['personal'], different: [] }
+    ]);
+
+    // The first profile's definitions win
+    assert.equal(shell.syncProfiles(), true);
+    assert.deepEqual(shell.detectDrift(), []);
+    assert.deepEqual(shell.listManagedAliases('zsh').map(a => a.command), ['claude-work', 'claude-personal']);
+    assert.deepEqual(shell.listManagedAliases('fish').map(a => a.name), ['work', 'personal']);
+});
+
+test('skipPermissions and default arguments become alias arguments', () => {
+    assert.deepEqual(shell.getAliasArgs({}), []);
+    assert.deepEqual(shell.getAliasArgs({ skipPermissions: true, defaultArgs: ['--verbose'] }), ['--dangerously-skip-permissions', '--verbose']);
+
+    shell.addAlias('work', SCRIPT, shell.getAliasArgs({ skipPermissions: true }));
+    assert.match(readFileSync(BASHRC, 'utf-8'), /^alias work='claude-work --dangerously-skip-permissions'$/m);
+});
+
+test('bash aliases pass their arguments through unchanged', () => {
+    shell.addAlias('work', SCRIPT, HOSTILE_ARGS);
+    const [alias] = shell.listManagedAliases();
+    assert.deepEqual(alias.args, HOSTILE_ARGS);
+
+    // Expand the alias in bash against a stand-in script that prints its arguments
+    const printed = execFileSync('bash', ['-c', [
+        'shopt -s expand_aliases',
+        'claude-work() { printf "%s\\n" "$@"; }',
+        `source ${JSON.stringify(BASHRC)}`,
+        'work last'
+    ].join('\n')], { encoding: 'utf-8' });
+    assert.equal(printed, [...HOSTILE_ARGS, 'last', ''].join('\n'));
+});
@@ -0,0 +1,107 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { rmSync, writeFileSync } from 'fs';
+import { setUpPricedHome, usageRecord } from '../helpers/usage.js';
+import type { UsageRecord } from '../../src/types/index.js';
+
+const home = setUpPricedHome('usage');
+const usage = await import('../../src/services/usage.js');
+
+after(() => rmSync(home, { recursive: true, force: true }));
+
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+
+test('parseSince reads durations back from now', () => {
+    assert.equal(usage.parseSince('30m', NOW)?.toISOString(), '2026-03-15T11:30:00.000Z');
+    assert.equal(usage.parseSince('12h', NOW)?.toISOString(), '2026-03-15T00:00:00.000Z');
+    assert.equal(usage.parseSince('7d', NOW)?.toISOString(), '2026-03-08T12:00:00.000Z');
+    assert.equal(usage.parseSince('2w', NOW)?.toISOString(), '2026-03-01T12:00:00.000Z');
+    assert.equal(usage.parseSince(' 3D ', NOW)?.toISOString(), '2026-03-12T12:00:00.000Z');
+});
+
+test('parseSince reads dates and rejects anything else', () => {
+    assert.equal(usage.parseSince('2026-01-31', NOW)?.toISOString(), '2026-01-31T00:00:00.000Z');
+    assert.equal(usage.parseSince('2026-01-31T10:00:00Z', NOW)?.toISOString(), '2026-01-31T10:00:00.000Z');
+    for (const value of ['', 'yesterday', '5x', '1.5h', '-1d', '7 days']) {
+        assert.equal(usage.parseSince(value, NOW), null, JSON.stringify(value));
+    }
+});
+
+/**
+ * A usage record at a local date and hour
+ */
+const record = (overrides: Partial<UsageRecord> & { day?: number } = {}): UsageRecord => {
+    const { day = 10, ...rest } = overrides;
+    return usageRecord({ timestamp: new Date(2026, 2, day, 12).toISOString(), inputTokens: 1000, outputTokens: 500, ...rest });
+};
+
+const ENTRIES = [
+    { alias: 'work', record: record({ cacheReadInputTokens: 2000 }) },
+    { alias: 'work', record: record({ day: 11 }) },
+    { alias: 'work', record: record({ status: 529, provider: 'fallback', inputTokens: 0, outputTokens: 0 }) },
+    { alias: 'home', record: record({ model: 'mystery-model', day: 11 }) },
+    { alias: 'home', record: record({ model: 'cheap-model', day: 12, provider: undefined, status: 502, inputTokens: 0, outputTokens: 0 }) },
+    { alias: 'home', record: record({ model: 'cheap-model', day: 12 }) }
+];
+
+const approx = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-12, `${actual} ≈ ${expected}`);
+
+test('summarizeUsage totals tokens per model and prices only successful requests', async () => {
+    const rows = await usage.summarizeUsage(ENTRIES, 'model');
+    assert.deepEqual(rows.map(row => row.key), ['priced-model', 'cheap-model', 'mystery-model']);
+
+    const [priced, cheap, mystery] = rows;
+    assert.deepEqual({ ...priced, cost: 0 }, {
+        key: 'priced-model',
+        requests: 3,
+        errors: 1,
+        inputTokens: 2000,
+        outputTokens: 1000,
+        cacheReadInputTokens: 2000,
+        cacheCreationInputTokens: 0,
+        cost: 0,
+        unpricedRequests: 0
+    });
+    // 2000 input, 1000 output and 2000 cache reads at their own prices
+    approx(priced.cost, 2000 * 1e-6 + 1000 * 2e-6 + 2000 * 1e-7);
+    approx(cheap.cost, 1500 * 1e-8);
+    assert.equal(cheap.errors, 1);
+
+    // Unpriced models are counted, not guessed at
+    assert.equal(mystery.cost, 0);
+    assert.equal(mystery.unpricedRequests, 1);
+});
+
+test('summarizeUsage groups by alias and provider', async () => {
+    const byAlias = await usage.summarizeUsage(ENTRIES, 'alias');
+    assert.deepEqual(byAlias.map(row => [row.key, row.requests, row.errors, row.unpricedRequests]), [
+        ['work', 3, 1, 0],
+        ['home', 3, 1, 1]
+    ]);
+
+    const byProvider = await usage.summarizeUsage(ENTRIES, 'provider');
+    assert.deepEqual(byProvider.map(row => [row.key, row.requests]).sort(), [
+        ['(unreachable)', 1],
+        ['custom', 4],
+        ['fallback', 1]
+    ]);
+});
+
+test('summarizeUsage groups by local day in date order', async () => {
+    const rows = await usage.summarizeUsage([...ENTRIES].reverse(), 'day');
+    assert.deepEqual(rows.map(row => [row.key, row.requests]), [
+        ['2026-03-10', 2],
+        ['2026-03-11', 2],
+        ['2026-03-12', 2]
+    ]);
+});
+
+test('usage logs are read back, skipping partial lines and older records', () => {
+    usage.appendUsage('work', record({ day: 1 }));
+    usage.appendUsage('work', record({ day: 20 }));
+    writeFileSync(usage.getUsagePath('work'), '{"timestamp":"2026-03-2', { flag: 'a' });
+
+    assert.equal(usage.readUsage('work').length, 2);
+    assert.deepEqual(usage.readUsage('work', new Date(2026, 2, 15)).map(r => r.timestamp), [record({ day: 20 }).timestamp]);
+    assert.deepEqual(usage.readUsage('nobody'), []);
+});
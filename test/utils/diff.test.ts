@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { unifiedDiff } from '../../src/utils/diff.js';
+
+const lines = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+test('identical texts have no diff', () => {
+    assert.equal(unifiedDiff('a\nb\n', 'a\nb\n'), '');
+});
+
+test('a changed line is shown with its context and line numbers', () => {
+    const before = lines(10);
+    const after = [...before];
+    after[4] = 'changed';
+
+    assert.equal(unifiedDiff(before.join('\n'), after.join('\n'), 'old', 'new'), [
+        '--- old',
+        '+++ new',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+changed',
+        ' line 6',
+        ' line 7',
+        ' line 8'
+    ].join('\n'));
+});
+
+test('changes far apart get separate hunks', () => {
+    const before = lines(30);
+    const after = [...before];
+    after[2] = 'first';
+    after[25] = 'second';
+
+    const hunks = unifiedDiff(before.join('\n'), after.join('\n')).split('\n').filter(line => line.startsWith('@@'));
+    assert.deepEqual(hunks, ['@@ -1,6 +1,6 @@', '@@ -23,7 +23,7 @@']);
+});
+
+test('changes within twice the context share a hunk', () => {
+    const before = lines(20);
+    const after = [...before];
+    after[5] = 'first';
+    after[10] = 'second';
+
+    const hunks = unifiedDiff(before.join('\n'), after.join('\n')).split('\n').filter(line => line.startsWith('@@'));
+    assert.deepEqual(hunks, ['@@ -3,12 +3,12 @@']);
+});
+
+test('added and removed lines shift the new line numbers', () => {
+    const diff = unifiedDiff('a\nb\nc', 'a\nx\ny\nb\nc', 'old', 'new', 1);
+    assert.equal(diff, ['--- old', '+++ new', '@@ -1,2 +1,4 @@', ' a', '+x', '+y', ' b'].join('\n'));
+
+    const removed = unifiedDiff('a\nb\nc\nd', 'a\nd', 'old', 'new', 0);
+    assert.equal(removed, ['--- old', '+++ new', '@@ -2,2 +1,0 @@', '-b', '-c'].join('\n'));
+});
+
+test('diffing from or to an empty text lists every line', () => {
+    assert.equal(unifiedDiff('', 'a\nb', 'old', 'new'), ['--- old', '+++ new', '@@ -0,0 +1,2 @@', '+a', '+b'].join('\n'));
+    assert.equal(unifiedDiff('a\nb', '', 'old', 'new'), ['--- old', '+++ new', '@@ -1,2 +0,0 @@', '-a', '-b'].join('\n'));
+});
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { quoteWordIfNeeded, shellQuote, shellUnquote, splitShellWords } from '../../src/utils/quote.js';
+import type { ShellType } from '../../src/types/index.js';
+
+// Values that break naive quoting
+const HOSTILE = [
+    '',
+    'plain',
+    'two words',
+    `it's`,
+    `''`,
+    `'\\''`,
+    '"double"',
+    '$HOME',
+    '${HOME}',
+    '$(rm -rf /)',
+    '`id`',
+    'back\\slash',
+    'trailing\\',
+    '\\\'',
+    'line\nbreak',
+    'tab\there',
+    'fish \\\' escape \\\\',
+    `mixed '$"\`\\ all`,
+    '--flag=value with spaces',
+    'emoji 🚀 and ünïcode',
+    '*?[glob]',
+    ';|&<>(){}#~!'
+];
+
+const SHELLS: ShellType[] = ['bash', 'fish'];
+
+for (const shell of SHELLS) {
+    test(`shellQuote round-trips through shellUnquote (${shell})`, () => {
+        for (const value of HOSTILE) {
+            assert.equal(shellUnquote(shellQuote(value, shell), shell), value, JSON.stringify(value));
+        }
+    });
+
+    test(`quoted words round-trip through splitShellWords (${shell})`, () => {
+        const line = ['claude-x', ...HOSTILE].map(word => quoteWordIfNeeded(word, shell)).join(' ');
+        assert.deepEqual(splitShellWords(line, shell), ['claude-x', ...HOSTILE]);
+    });
+}
+
+test('quoteWordIfNeeded leaves safe words bare', () => {
+    for (const word of ['--verbose', 'model=glm-4.7', '/usr/local/bin/claude', 'a,b:c@d%e+f']) {
+        assert.equal(quoteWordIfNeeded(word), word);
+    }
+    assert.equal(quoteWordIfNeeded('$HOME'), `'$HOME'`);
+});
+
+test('fish escapes backslashes and quotes inside single quotes', () => {
+    assert.equal(shellQuote(`a'b\\c`, 'fish'), `'a\\'b\\\\c'`);
+    assert.equal(shellQuote(`a'b\\c`, 'bash'), `'a'\\''b\\c'`);
+});
+
+test('shellUnquote reads double-quoted and escaped words without expanding them', () => {
+    assert.equal(shellUnquote('"a \\"b\\" \\$HOME \\`id\\` \\\\ c"'), 'a "b" $HOME `id` \\ c');
+    assert.equal(shellUnquote('pre\\ fix"mid"\'end\''), 'pre fixmidend');
+    assert.equal(shellUnquote('"keep \\n as is"'), 'keep \\n as is');
+});
+
+test('bash reads quoted values back unchanged', () => {
+    // printf each argument on its own NUL-terminated record
+    const script = `printf '%s\\0' ${HOSTILE.map(value => shellQuote(value)).join(' ')}`;
+    const output = execFileSync('bash', ['-c', script], { encoding: 'utf-8', env: { PATH: process.env.PATH } });
+    assert.deepEqual(output.split('\0').slice(0, -1), HOSTILE);
+});